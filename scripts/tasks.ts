@@ -1,11 +1,11 @@
 import fs from 'fs'
-import { omit, pick } from 'lodash'
+import { mapValues, omit, pick } from 'lodash'
 import path from 'path'
 import shelljs from 'shelljs'
 import signale from 'signale'
 import { Stats } from 'webpack'
+import schema from '../src/browser/schema.json'
 import extensionInfo from '../src/extension/manifest.spec.json'
-import schema from '../src/extension/schema.json'
 
 export type BuildEnv = 'dev' | 'prod'
 
@@ -68,8 +68,81 @@ const browserWhitelist = {
     safari: ['version'],
 }
 
+/**
+ * The storage items administrators may set in managed storage. Items that hold
+ * credentials or describe a single installation (e.g. access tokens, learned
+ * repository URLs, omnibox history and the storage schema version) are left out.
+ */
+const MANAGED_ITEMS = [
+    'sourcegraphURL',
+    'serverUrls',
+    'enterpriseUrls',
+    'routingRules',
+    'phabricatorMappings',
+    'inlineSymbolSearchEnabled',
+    'renderMermaidGraphsEnabled',
+    'repositoryFileTreeEnabled',
+    'executeSearchEnabled',
+    'sourcegraphRepoSearchToggled',
+    'openEditorEnabled',
+    'openFileOnSourcegraph',
+    'disableExtension',
+    'useExtensions',
+    'featureFlags',
+]
+
+/**
+ * The schema of phabricatorMappings that managed storage used before it was
+ * generated from StorageItems. It is kept so that existing policies stay valid.
+ */
+const PHABRICATOR_MAPPINGS_SCHEMA = {
+    type: 'array',
+    id: 'ListOfCallsignMappings',
+    items: {
+        type: 'object',
+        properties: {
+            callsign: { type: 'string' },
+            path: { type: 'string' },
+            children: { $ref: 'ListOfCallsignMappings' },
+        },
+    },
+}
+
+/**
+ * Converts a JSON schema to the dialect of managed storage schemas, which
+ * doesn't have `required` and only allows schemas in `additionalProperties`.
+ */
+function toManagedSchema(schema: any): any {
+    if (Array.isArray(schema)) {
+        return schema.map(toManagedSchema)
+    }
+    if (typeof schema !== 'object' || schema === null) {
+        return schema
+    }
+    const managedSchema = {}
+    for (const key of Object.keys(schema)) {
+        if (key === 'properties') {
+            managedSchema[key] = mapValues(schema[key], toManagedSchema)
+        } else if (key !== '$schema' && key !== 'required' && schema[key] !== false) {
+            managedSchema[key] = toManagedSchema(schema[key])
+        }
+    }
+    return managedSchema
+}
+
+/**
+ * Writes the schema of the storage items administrators may set as the schema
+ * of managed storage.
+ */
 function writeSchema(env, browser, writeDir): void {
-    fs.writeFileSync(`${writeDir}/schema.json`, JSON.stringify(schema, null, 4))
+    const managedSchema = {
+        type: 'object',
+        properties: {
+            ...pick(toManagedSchema(schema).properties, MANAGED_ITEMS),
+            phabricatorMappings: PHABRICATOR_MAPPINGS_SCHEMA,
+        },
+    }
+    fs.writeFileSync(`${writeDir}/schema.json`, JSON.stringify(managedSchema, null, 4))
 }
 
 function writeManifest(env, browser, writeDir): void {
@@ -0,0 +1,73 @@
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import { FakeStorageArea } from '../testing/chrome'
+import { Migration, runMigrations } from './migrations'
+import { StorageItems } from './types'
+
+const getItems = (area: FakeStorageArea) => new Promise<Partial<StorageItems>>(resolve => area.get(resolve))
+
+const migrations: Migration[] = [
+    {
+        version: 1,
+        description: 'Rename phabricatorURL',
+        migrate: ({ phabricatorURL }) => ({ set: { enterpriseUrls: [phabricatorURL] }, remove: ['phabricatorURL'] }),
+    },
+    {
+        version: 2,
+        description: 'Add the Sourcegraph URL',
+        migrate: ({ enterpriseUrls }) => ({ set: { sourcegraphURL: enterpriseUrls[0] } }),
+    },
+]
+
+describe('runMigrations', () => {
+    it('runs every migration in order on unversioned storage', async () => {
+        const area = new FakeStorageArea({ phabricatorURL: 'https://phabricator.example.com' })
+        const messages: string[] = []
+
+        expect(await runMigrations(area, migrations, message => messages.push(message))).to.equal(2)
+        expect(await getItems(area)).to.deep.equal({
+            enterpriseUrls: ['https://phabricator.example.com'],
+            sourcegraphURL: 'https://phabricator.example.com',
+            storageSchemaVersion: 2,
+        })
+        expect(messages).to.deep.equal([
+            'Migrated storage to version 1 (Rename phabricatorURL). Set: enterpriseUrls. Removed: phabricatorURL.',
+            'Migrated storage to version 2 (Add the Sourcegraph URL). Set: sourcegraphURL. Removed: none.',
+        ])
+    })
+
+    it('runs only the migrations after the stored version', async () => {
+        const area = new FakeStorageArea({
+            enterpriseUrls: ['https://sourcegraph.example.com'],
+            storageSchemaVersion: 1,
+        })
+        const messages: string[] = []
+
+        expect(await runMigrations(area, migrations, message => messages.push(message))).to.equal(2)
+        expect(await getItems(area)).to.deep.equal({
+            enterpriseUrls: ['https://sourcegraph.example.com'],
+            sourcegraphURL: 'https://sourcegraph.example.com',
+            storageSchemaVersion: 2,
+        })
+        expect(messages).to.have.length(1)
+    })
+
+    it('does nothing when storage is up to date', async () => {
+        const area = new FakeStorageArea({ storageSchemaVersion: 2 })
+        const messages: string[] = []
+
+        expect(await runMigrations(area, migrations, message => messages.push(message))).to.equal(2)
+        expect(await getItems(area)).to.deep.equal({ storageSchemaVersion: 2 })
+        expect(messages).to.have.length(0)
+    })
+
+    it('rejects migrations that are out of order', async () => {
+        let error: any
+        try {
+            await runMigrations(new FakeStorageArea(), [...migrations].reverse())
+        } catch (err) {
+            error = err
+        }
+        expect(error.message).to.equal('migration 1 is out of order')
+    })
+})
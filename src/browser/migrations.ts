@@ -0,0 +1,84 @@
+import { StorageItems } from './types'
+
+/** The items a migration sets and the keys it removes. */
+export interface MigrationChanges {
+    set?: Partial<StorageItems>
+    remove?: (keyof StorageItems)[]
+}
+
+/**
+ * A change to the items in a storage area that is made once, when the extension
+ * starts with the area at an older `storageSchemaVersion`.
+ */
+export interface Migration {
+    /** The schema version the migration brings the storage area to. */
+    version: number
+    /** What the migration does, for the log. */
+    description: string
+    /**
+     * Returns the changes to make to items, which include the changes of the
+     * migrations before it.
+     */
+    migrate: (items: StorageItems) => MigrationChanges
+}
+
+const applyChanges = (items: StorageItems, { set = {}, remove = [] }: MigrationChanges): StorageItems => {
+    const migrated = { ...items, ...set }
+    for (const key of remove) {
+        delete migrated[key]
+    }
+    return migrated
+}
+
+/**
+ * Runs the migrations to versions after the storage area's
+ * `storageSchemaVersion` in order, then stores their changes and the new
+ * version at once. Migrations must be sorted by version.
+ *
+ * @return Promise that resolves with the schema version of the storage area
+ */
+export function runMigrations(
+    area: Pick<chrome.storage.StorageArea, 'get' | 'set' | 'remove'>,
+    migrations: Migration[],
+    log: (message: string) => void = message => console.log(message)
+): Promise<number> {
+    for (const [i, { version }] of migrations.entries()) {
+        if (i > 0 && version <= migrations[i - 1].version) {
+            return Promise.reject(new Error(`migration ${version} is out of order`))
+        }
+    }
+
+    return new Promise(resolve => {
+        area.get((storedItems: StorageItems) => {
+            const fromVersion = storedItems.storageSchemaVersion || 0
+            const pending = migrations.filter(({ version }) => version > fromVersion)
+            if (pending.length === 0) {
+                resolve(fromVersion)
+                return
+            }
+
+            let items = storedItems
+            for (const { version, description, migrate } of pending) {
+                const changes = migrate(items)
+                items = applyChanges(items, changes)
+                log(
+                    `Migrated storage to version ${version} (${description}). ` +
+                        `Set: ${Object.keys(changes.set || {}).join(', ') || 'none'}. ` +
+                        `Removed: ${(changes.remove || []).join(', ') || 'none'}.`
+                )
+            }
+
+            const toVersion = pending[pending.length - 1].version
+            const changed: Partial<StorageItems> = { storageSchemaVersion: toVersion }
+            for (const key of Object.keys(items)) {
+                if (items[key] !== storedItems[key]) {
+                    changed[key] = items[key]
+                }
+            }
+            const removed = Object.keys(storedItems).filter(key => !(key in items))
+            area.set(changed, () => {
+                area.remove(removed, () => resolve(toVersion))
+            })
+        })
+    })
+}
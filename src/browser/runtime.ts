@@ -15,8 +15,10 @@ export interface Message {
         | 'insertCSS'
         | 'setBadgeText'
         | 'openOptionsPage'
-        | 'fetched-files'
+        | 'repo-opened'
         | 'repo-closed'
+        | 'getCachedValue'
+        | 'setCachedValue'
     payload?: any
 }
 
@@ -0,0 +1,89 @@
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import { diffSettings, exportSettings, getSettingsOrigins, parseSettings } from './settings'
+import { defaultStorageItems, StorageItems } from './types'
+
+const items: StorageItems = {
+    ...defaultStorageItems,
+    sourcegraphURL: 'https://sourcegraph.example.com',
+    accessTokens: { 'https://sourcegraph.example.com': { id: 'AccessToken:1', token: 'secret' } },
+    enterpriseUrls: ['https://github.example.com'],
+    sourcegraphAnonymousUid: 'uid',
+}
+
+describe('settings', () => {
+    describe('exportSettings', () => {
+        it('excludes access tokens by default', () => {
+            const exported = JSON.parse(exportSettings(items))
+            expect(exported).to.not.have.property('accessTokens')
+            expect(exported).to.not.have.property('sourcegraphAnonymousUid')
+            expect(exported).to.not.have.property('identity')
+            expect(exported).to.not.have.property('clientConfiguration')
+            expect(exported).to.not.have.property('phabricatorURL')
+            expect(exported.enterpriseUrls).to.deep.equal(['https://github.example.com'])
+        })
+
+        it('includes access tokens when asked to', () => {
+            const exported = JSON.parse(exportSettings(items, { includeAccessTokens: true }))
+            expect(exported.accessTokens).to.deep.equal(items.accessTokens)
+        })
+
+        it('exports settings that import without changes', () => {
+            const { items: imported, invalid } = parseSettings(exportSettings(items))
+            expect(invalid).to.deep.equal([])
+            expect(diffSettings(items, imported)).to.deep.equal([])
+        })
+    })
+
+    describe('parseSettings', () => {
+        it('skips invalid and unknown settings', () => {
+            const { items: imported, invalid } = parseSettings(
+                JSON.stringify({ sourcegraphURL: 'https://sourcegraph.example.com', serverUrls: 'x', other: true })
+            )
+            expect(imported).to.deep.equal({ sourcegraphURL: 'https://sourcegraph.example.com' })
+            expect(invalid.map(({ key }) => key)).to.deep.equal(['other', 'serverUrls'])
+        })
+
+        it('skips settings that are not shared', () => {
+            const { items: imported } = parseSettings(
+                JSON.stringify({ useExtensions: true, serverUserId: 'User:1', hasSeenServerModal: true })
+            )
+            expect(imported).to.deep.equal({ useExtensions: true })
+        })
+
+        it('errors for files that are not JSON objects', () => {
+            expect(() => parseSettings('[]')).to.throw('settings file must contain a JSON object')
+            expect(() => parseSettings('{')).to.throw(SyntaxError)
+        })
+    })
+
+    it('diffSettings returns the changed settings', () => {
+        expect(
+            diffSettings(items, { sourcegraphURL: 'https://sourcegraph.example.com', enterpriseUrls: [] })
+        ).to.deep.equal([{ key: 'enterpriseUrls', oldValue: ['https://github.example.com'], newValue: [] }])
+    })
+
+    it('diffSettings masks the changed access tokens', () => {
+        expect(
+            diffSettings(items, {
+                accessTokens: { 'https://sourcegraph.example.com': { id: 'AccessToken:2', token: 'other-token' } },
+            })
+        ).to.deep.equal([
+            {
+                key: 'accessTokens',
+                oldValue: { 'https://sourcegraph.example.com': { id: 'AccessToken:1', token: '********cret' } },
+                newValue: { 'https://sourcegraph.example.com': { id: 'AccessToken:2', token: '********oken' } },
+            },
+        ])
+    })
+
+    it('getSettingsOrigins returns the origins to request permissions for', () => {
+        expect(
+            getSettingsOrigins({
+                sourcegraphURL: 'https://sourcegraph.com',
+                enterpriseUrls: ['https://github.example.com/', 'not a URL'],
+                routingRules: [{ pattern: 'github.com/acme/*', url: 'https://sg-a.example.com' }],
+            })
+        ).to.deep.equal(['https://github.example.com', 'https://sg-a.example.com'])
+    })
+})
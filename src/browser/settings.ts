@@ -0,0 +1,116 @@
+import { isEqual, mapValues, pick, uniq } from 'lodash'
+import { AccessTokens, defaultStorageItems, StorageItems } from './types'
+import { findInvalidStorageItems, InvalidStorageItem } from './validation'
+
+/**
+ * The settings that are exported and imported. Items that are kept in local
+ * storage or describe this installation of the extension (e.g. its identity or
+ * the server's client configuration) are left out, as are legacy items that
+ * migrations replaced. Access tokens are only exported when asked for.
+ */
+export const SHAREABLE_ITEMS: (keyof StorageItems)[] = [
+    'sourcegraphURL',
+    'serverUrls',
+    'enterpriseUrls',
+    'routingRules',
+    'phabricatorMappings',
+    'omniboxBookmarks',
+    'inlineSymbolSearchEnabled',
+    'renderMermaidGraphsEnabled',
+    'repositoryFileTreeEnabled',
+    'executeSearchEnabled',
+    'sourcegraphRepoSearchToggled',
+    'openEditorEnabled',
+    'openFileOnSourcegraph',
+    'disableExtension',
+    'useExtensions',
+    'featureFlags',
+]
+
+/**
+ * Serializes the settings in items to a JSON file. Access tokens are only
+ * included if includeAccessTokens is set.
+ */
+export function exportSettings(items: StorageItems, { includeAccessTokens = false } = {}): string {
+    const exported = pick(items, [...SHAREABLE_ITEMS, ...(includeAccessTokens ? ['accessTokens'] : [])])
+    return JSON.stringify(exported, null, 4)
+}
+
+/** Settings read from an exported file. */
+export interface ImportedSettings {
+    /** The valid settings, to be set in sync storage. */
+    items: Partial<StorageItems>
+    /** The settings that are skipped because they are invalid or unknown. */
+    invalid: InvalidStorageItem[]
+}
+
+/**
+ * Parses an exported settings file and validates the settings in it.
+ *
+ * @throws {Error} If the file isn't a JSON object
+ */
+export function parseSettings(json: string): ImportedSettings {
+    const parsed = JSON.parse(json)
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new Error('settings file must contain a JSON object')
+    }
+
+    const invalid = findInvalidStorageItems(parsed)
+    const keys = Object.keys(parsed).filter(
+        key =>
+            (SHAREABLE_ITEMS.includes(key as keyof StorageItems) || key === 'accessTokens') &&
+            !invalid.some(item => item.key === key)
+    )
+    return { items: pick(parsed, keys), invalid }
+}
+
+/** A setting that is changed by an import. */
+export interface SettingChange {
+    key: keyof StorageItems
+    oldValue: any
+    newValue: any
+}
+
+/**
+ * Hides all but the last 4 characters of each token, which is enough to tell
+ * tokens apart without revealing them.
+ */
+function maskAccessTokens(accessTokens: AccessTokens): AccessTokens {
+    return mapValues(accessTokens, ({ id, token }) => ({ id, token: '*'.repeat(8) + token.slice(-4) }))
+}
+
+/**
+ * Returns the settings that importing items changes, sorted by key. The values
+ * are shown to the user, so access tokens are masked.
+ */
+export function diffSettings(current: StorageItems, items: Partial<StorageItems>): SettingChange[] {
+    const displayValue = (key: keyof StorageItems, value: any) =>
+        key === 'accessTokens' && value ? maskAccessTokens(value) : value
+
+    return (Object.keys(items) as (keyof StorageItems)[])
+        .filter(key => !isEqual(current[key], items[key]))
+        .sort()
+        .map(key => ({ key, oldValue: displayValue(key, current[key]), newValue: displayValue(key, items[key]) }))
+}
+
+/**
+ * Returns the origins of the Sourcegraph and code host URLs in items, which
+ * the extension needs permission to access.
+ */
+export function getSettingsOrigins(items: Partial<StorageItems>): string[] {
+    const urls = [
+        ...(items.sourcegraphURL ? [items.sourcegraphURL] : []),
+        ...(items.enterpriseUrls || []),
+        ...(items.routingRules || []).map(({ url }) => url),
+    ]
+
+    const origins: string[] = []
+    for (const url of urls) {
+        try {
+            origins.push(new URL(url).origin)
+        } catch (err) {
+            // Not a URL, so there is nothing to request permission for.
+        }
+    }
+    return uniq(origins).filter(origin => origin !== defaultStorageItems.sourcegraphURL)
+}
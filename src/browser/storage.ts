@@ -1,16 +1,12 @@
 import { EMPTY, Observable } from 'rxjs'
 import { shareReplay } from 'rxjs/operators'
+import { Migration, runMigrations } from './migrations'
 import SafariStorageArea, { SafariSettingsChangeMessage, stringifyStorageArea } from './safari/StorageArea'
 import { StorageChange, StorageItems } from './types'
+import { findInvalidStorageItems, InvalidStorageItem, repairStorageItems } from './validation'
 
 export { StorageItems, defaultStorageItems } from './types'
 
-type MigrateFunc = (
-    items: StorageItems,
-    set: (items: Partial<StorageItems>) => void,
-    remove: (key: keyof StorageItems) => void
-) => void
-
 export interface Storage {
     getManaged: (callback: (items: StorageItems) => void) => void
     getManagedItem: (key: keyof StorageItems, callback: (items: StorageItems) => void) => void
@@ -22,19 +18,37 @@ export interface Storage {
     getLocalItem: (key: keyof StorageItems, callback: (items: StorageItems) => void) => void
     setLocal: (items: Partial<StorageItems>, callback?: (() => void) | undefined) => void
     observeLocal: <T extends keyof StorageItems>(key: T) => Observable<StorageItems[T]>
-    addSyncMigration: (migrate: MigrateFunc) => void
-    addLocalMigration: (migrate: MigrateFunc) => void
+    migrateSync: (migrations: Migration[]) => Promise<number>
+    migrateLocal: (migrations: Migration[]) => Promise<number>
+    /** Calls back with the invalid items in sync storage, which are repaired when read. */
+    validateSync: (callback: (invalid: InvalidStorageItem[]) => void) => void
+    validateLocal: (callback: (invalid: InvalidStorageItem[]) => void) => void
     onChanged: (listener: (changes: Partial<StorageChange>, areaName: string) => void) => void
 }
 
-const get = (area: chrome.storage.StorageArea) => (callback: (items: StorageItems) => void) => area.get(callback)
+/**
+ * Items read from sync and local storage are repaired, so that they are never
+ * missing or invalid. Managed storage only has the items set by administrators.
+ */
+const repaired = (callback: (items: StorageItems) => void) => (items: StorageItems) =>
+    callback(repairStorageItems(items))
+
+const get = (area: chrome.storage.StorageArea) => (callback: (items: StorageItems) => void) =>
+    area.get(repaired(callback))
+const getManaged = (area: chrome.storage.StorageArea) => (callback: (items: StorageItems) => void) => area.get(callback)
 const set = (area: chrome.storage.StorageArea) => (items: Partial<StorageItems>, callback?: () => void) => {
     area.set(items, callback)
 }
 const getItem = (area: chrome.storage.StorageArea) => (
     key: keyof StorageItems,
     callback: (items: StorageItems) => void
+) => area.get(key, repaired(callback))
+const getManagedItem = (area: chrome.storage.StorageArea) => (
+    key: keyof StorageItems,
+    callback: (items: StorageItems) => void
 ) => area.get(key, callback)
+const validate = (area: chrome.storage.StorageArea) => (callback: (invalid: InvalidStorageItem[]) => void) =>
+    area.get(items => callback(findInvalidStorageItems(items)))
 
 const onChanged = (listener: (changes: Partial<StorageChange>, areaName: string) => void) => {
     if (chrome && chrome.storage) {
@@ -77,7 +91,7 @@ const observe = (area: chrome.storage.StorageArea) => <T extends keyof StorageIt
         onChanged(changes => {
             const change = changes[key]
             if (change) {
-                observer.next(change.newValue)
+                observer.next(repairStorageItems({ [key]: change.newValue })[key])
             }
         })
     }).pipe(shareReplay(1))
@@ -88,16 +102,6 @@ const throwNoopErr = () => {
     throw new Error('do not call browser extension apis from an in page script')
 }
 
-const addMigration = (
-    get: Storage['getSync'],
-    set: Storage['setSync'],
-    remove: (keys: string | string[], callback?: (() => void) | undefined) => void
-) => (migrate: MigrateFunc) => {
-    get(items => {
-        migrate(items as StorageItems, set, remove)
-    })
-}
-
 export default ((): Storage => {
     if (window.SG_ENV === 'EXTENSION') {
         const chrome = global.chrome
@@ -119,8 +123,8 @@ export default ((): Storage => {
                 : new SafariStorageArea(stringifyStorageArea(window.localStorage), 'local')
 
         return {
-            getManaged: get(managedStorageArea),
-            getManagedItem: getItem(managedStorageArea),
+            getManaged: getManaged(managedStorageArea),
+            getManagedItem: getManagedItem(managedStorageArea),
 
             getSync: get(syncStorageArea),
             getSyncItem: getItem(syncStorageArea),
@@ -132,12 +136,11 @@ export default ((): Storage => {
             setLocal: set(localStorageArea),
             observeLocal: observe(localStorageArea),
 
-            addSyncMigration: addMigration(get(syncStorageArea), set(syncStorageArea), (keys, callback) =>
-                syncStorageArea.remove(keys, callback)
-            ),
-            addLocalMigration: addMigration(get(localStorageArea), set(localStorageArea), (keys, callback) =>
-                localStorageArea.remove(keys, callback)
-            ),
+            migrateSync: migrations => runMigrations(syncStorageArea, migrations),
+            migrateLocal: migrations => runMigrations(localStorageArea, migrations),
+
+            validateSync: validate(syncStorageArea),
+            validateLocal: validate(localStorageArea),
 
             onChanged,
         }
@@ -156,7 +159,9 @@ export default ((): Storage => {
         getLocalItem: throwNoopErr,
         setLocal: throwNoopErr,
         observeLocal: noopObserve,
-        addSyncMigration: throwNoopErr,
-        addLocalMigration: throwNoopErr,
+        migrateSync: throwNoopErr,
+        migrateLocal: throwNoopErr,
+        validateSync: throwNoopErr,
+        validateLocal: throwNoopErr,
     }
 })()
@@ -2,6 +2,26 @@ export interface RepoLocations {
     [key: string]: string
 }
 
+/**
+ * Sends requests about repositories whose paths match pattern (e.g.
+ * `github.com/acme/*`) to the Sourcegraph instance at url.
+ */
+export interface RoutingRule {
+    pattern: string
+    url: string
+}
+
+/** Something visited from the omnibox. */
+export interface OmniboxHistoryEntry {
+    /** The omnibox input, which is entered again when the entry is selected. */
+    input: string
+    /** What was visited, e.g. the description of the selected suggestion. */
+    description: string
+    type: 'file' | 'repo' | 'symbol' | 'search'
+    /** The times of the most recent visits, in milliseconds since the epoch. */
+    visits: number[]
+}
+
 export interface PhabricatorMapping {
     callsign: string
     path: string
@@ -30,8 +50,11 @@ export interface AccessTokens {
     [url: string]: AccessToken
 }
 
-// TODO(chris) Switch to Partial<StorageItems> to eliminate bugs caused by
-// missing items.
+/**
+ * The items in the storage areas. src/browser/schema.json is generated from
+ * this interface with `yarn run storage-schema`, and missing or invalid items
+ * in sync and local storage are replaced with defaultStorageItems when read.
+ */
 export interface StorageItems {
     sourcegraphURL: string
     /**
@@ -53,7 +76,23 @@ export interface StorageItems {
     enterpriseUrls: string[]
     serverUserId: string
     hasSeenServerModal: boolean
+    /**
+     * The URLs of the Sourcegraph instances repositories were last found on.
+     * Kept in local storage.
+     */
     repoLocations: RepoLocations
+    /**
+     * Rules that send requests about repositories to Sourcegraph instances
+     * other than sourcegraphURL. The first matching rule is used.
+     */
+    routingRules: RoutingRule[]
+    /**
+     * The files, repositories, symbols and searches visited from the omnibox.
+     * Kept in local storage.
+     */
+    omniboxHistory: OmniboxHistoryEntry[]
+    /** The omnibox inputs saved with `:bookmark add`. */
+    omniboxBookmarks: string[]
     phabricatorMappings: PhabricatorMapping[]
     openFileOnSourcegraph: boolean
     sourcegraphAnonymousUid: string
@@ -67,6 +106,11 @@ export interface StorageItems {
      */
     featureFlags: FeatureFlags
     clientConfiguration: ClientConfigurationDetails
+    /**
+     * The version of the storage area's schema, i.e. the last migration that
+     * ran on it.
+     */
+    storageSchemaVersion: number
 }
 
 interface ClientConfigurationDetails {
@@ -94,6 +138,9 @@ export const defaultStorageItems: StorageItems = {
     serverUserId: '',
     hasSeenServerModal: false,
     repoLocations: {},
+    routingRules: [],
+    omniboxHistory: [],
+    omniboxBookmarks: [],
     phabricatorMappings: [],
     openFileOnSourcegraph: true,
     sourcegraphAnonymousUid: '',
@@ -106,6 +153,7 @@ export const defaultStorageItems: StorageItems = {
             url: 'https://sourcegraph.com',
         },
     },
+    storageSchemaVersion: 0,
 }
 
 export type StorageChange = { [key in keyof StorageItems]: chrome.storage.StorageChange }
@@ -0,0 +1,55 @@
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import { defaultStorageItems } from './types'
+import { findInvalidStorageItems, repairStorageItems } from './validation'
+
+describe('storage validation', () => {
+    describe('findInvalidStorageItems', () => {
+        it('accepts the default items', () => {
+            expect(findInvalidStorageItems(defaultStorageItems)).to.deep.equal([])
+        })
+
+        it('accepts missing items', () => {
+            expect(findInvalidStorageItems({ sourcegraphURL: 'https://sourcegraph.example.com' })).to.deep.equal([])
+        })
+
+        it('reports items of the wrong type and unknown items', () => {
+            expect(
+                findInvalidStorageItems({
+                    serverUrls: 'https://sourcegraph.example.com',
+                    featureFlags: { newTooltips: true, newInject: 'yes' },
+                    phabricatorURL2: '',
+                })
+            ).to.deep.equal([
+                { key: 'phabricatorURL2', message: 'phabricatorURL2 is not a storage item' },
+                { key: 'featureFlags', message: 'featureFlags.newInject should be boolean' },
+                { key: 'serverUrls', message: 'serverUrls should be array' },
+            ])
+        })
+    })
+
+    describe('repairStorageItems', () => {
+        it('fills in missing items and object properties from the defaults', () => {
+            const repaired = repairStorageItems({
+                sourcegraphURL: 'https://sourcegraph.example.com',
+                featureFlags: { newInject: true },
+            })
+            expect(repaired).to.deep.equal({
+                ...defaultStorageItems,
+                sourcegraphURL: 'https://sourcegraph.example.com',
+                featureFlags: { newTooltips: true, newInject: true },
+            })
+        })
+
+        it('replaces invalid items with their defaults and keeps unknown items', () => {
+            const repaired = repairStorageItems({
+                accessTokens: { 'https://sourcegraph.example.com': 'token' },
+                openFileOnSourcegraph: false,
+                phabricatorURL2: '',
+            })
+            expect(repaired.accessTokens).to.deep.equal(defaultStorageItems.accessTokens)
+            expect(repaired.openFileOnSourcegraph).to.equal(false)
+            expect(repaired).to.have.property('phabricatorURL2', '')
+        })
+    })
+})
@@ -0,0 +1,62 @@
+import Ajv from 'ajv'
+import { isPlainObject } from 'lodash'
+import schema from './schema.json'
+import { defaultStorageItems, StorageItems } from './types'
+
+/** An item in a storage area that does not match the schema of the storage items. */
+export interface InvalidStorageItem {
+    key: string
+    /** Why the item is invalid, e.g. "featureFlags.newInject should be boolean". */
+    message: string
+}
+
+const validateSchema = new Ajv({ allErrors: true, jsonPointers: true }).compile(schema)
+
+/**
+ * Validates items read from a storage area against the schema generated from
+ * StorageItems (see the storage-schema script). Missing items are valid, and
+ * items that aren't storage items are reported but otherwise left alone.
+ */
+export function findInvalidStorageItems(items: { [key: string]: any }): InvalidStorageItem[] {
+    if (validateSchema(items)) {
+        return []
+    }
+
+    const invalid: InvalidStorageItem[] = []
+    for (const { dataPath, keyword, message, params } of validateSchema.errors || []) {
+        if (dataPath === '') {
+            if (keyword === 'additionalProperties') {
+                const key = (params as Ajv.AdditionalPropertiesParams).additionalProperty
+                invalid.push({ key, message: `${key} is not a storage item` })
+            }
+            continue
+        }
+
+        const path = dataPath.slice(1).split('/')
+        invalid.push({ key: path[0], message: `${path.join('.')} ${message}` })
+    }
+    return invalid
+}
+
+/**
+ * Fills in missing items, and the missing properties of object items, from
+ * defaultStorageItems and replaces invalid items with their defaults.
+ */
+export function repairStorageItems(items: { [key: string]: any }): StorageItems {
+    const repaired = { ...items } as StorageItems
+    for (const key of Object.keys(defaultStorageItems)) {
+        const value = items[key]
+        if (value === undefined) {
+            repaired[key] = defaultStorageItems[key]
+        } else if (isPlainObject(defaultStorageItems[key]) && isPlainObject(value)) {
+            repaired[key] = { ...defaultStorageItems[key], ...value }
+        }
+    }
+
+    for (const { key } of findInvalidStorageItems(repaired)) {
+        if (key in defaultStorageItems) {
+            repaired[key] = defaultStorageItems[key]
+        }
+    }
+    return repaired
+}
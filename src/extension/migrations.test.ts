@@ -0,0 +1,42 @@
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import { runMigrations } from '../browser/migrations'
+import { StorageItems } from '../browser/types'
+import { FakeStorageArea } from '../testing/chrome'
+import { syncMigrations } from './migrations'
+
+describe('syncMigrations', () => {
+    it('migrates storage of old versions of the extension', async () => {
+        const area = new FakeStorageArea({
+            sourcegraphURL: 'https://sourcegraph.com',
+            serverUrls: ['https://sourcegraph.com', 'https://sourcegraph.example.com'],
+            accessTokens: { 'https://sourcegraph.example.com': 'legacy' },
+            phabricatorURL: 'https://phabricator.example.com',
+            enterpriseUrls: ['https://github.example.com'],
+            featureFlags: { newTooltips: true, newInject: false },
+            inlineSymbolSearchEnabled: false,
+        })
+
+        await runMigrations(area, syncMigrations, () => undefined)
+        expect(await new Promise<Partial<StorageItems>>(resolve => area.get(resolve))).to.deep.equal({
+            sourcegraphURL: 'https://sourcegraph.example.com',
+            serverUrls: ['https://sourcegraph.example.com'],
+            accessTokens: {},
+            enterpriseUrls: ['https://github.example.com', 'https://phabricator.example.com'],
+            featureFlags: { newTooltips: true, newInject: true },
+            inlineSymbolSearchEnabled: true,
+            openFileOnSourcegraph: true,
+            executeSearchEnabled: true,
+            storageSchemaVersion: syncMigrations.length,
+        })
+    })
+
+    it('keeps the settings users changed from the old defaults', async () => {
+        const area = new FakeStorageArea({ executeSearchEnabled: false, openFileOnSourcegraph: false })
+
+        await runMigrations(area, syncMigrations, () => undefined)
+        const items = await new Promise<Partial<StorageItems>>(resolve => area.get(resolve))
+        expect(items.executeSearchEnabled).to.equal(false)
+        expect(items.openFileOnSourcegraph).to.equal(false)
+    })
+})
@@ -0,0 +1,84 @@
+import { without } from 'lodash'
+import { Migration } from '../browser/migrations'
+import { AccessTokens } from '../browser/types'
+import { DEFAULT_SOURCEGRAPH_URL } from '../shared/util/context'
+
+/**
+ * The migrations of sync storage. Add new migrations to the end, with the next
+ * version, and never change ones that have been released.
+ */
+export const syncMigrations: Migration[] = [
+    {
+        version: 1,
+        description: 'Store access tokens as objects with an ID',
+        migrate: ({ accessTokens = {} }) => {
+            const migrated: AccessTokens = {}
+            for (const url of Object.keys(accessTokens)) {
+                const token = accessTokens[url]
+                if (typeof token !== 'string' && token.id && token.token) {
+                    migrated[url] = token
+                }
+            }
+
+            return { set: { accessTokens: migrated } }
+        },
+    },
+    {
+        version: 2,
+        description: 'Move the Phabricator URL to the enterprise URLs',
+        migrate: ({ phabricatorURL, enterpriseUrls }) => {
+            if (!phabricatorURL) {
+                return {}
+            }
+            if (!enterpriseUrls) {
+                return { set: { enterpriseUrls: [phabricatorURL] }, remove: ['phabricatorURL'] }
+            }
+            if (!enterpriseUrls.includes(phabricatorURL)) {
+                return { set: { enterpriseUrls: [...enterpriseUrls, phabricatorURL] }, remove: ['phabricatorURL'] }
+            }
+            return { remove: ['phabricatorURL'] }
+        },
+    },
+    {
+        version: 3,
+        description: 'Open files on Sourcegraph by default',
+        migrate: ({ openFileOnSourcegraph }) =>
+            openFileOnSourcegraph === undefined ? { set: { openFileOnSourcegraph: true } } : {},
+    },
+    {
+        version: 4,
+        description: 'Enable the new injection',
+        migrate: ({ featureFlags }) =>
+            featureFlags && !featureFlags.newInject
+                ? { set: { featureFlags: { ...featureFlags, newInject: true } } }
+                : {},
+    },
+    {
+        version: 5,
+        description: 'Enable inline symbol search',
+        migrate: ({ inlineSymbolSearchEnabled }) =>
+            inlineSymbolSearchEnabled ? {} : { set: { inlineSymbolSearchEnabled: true } },
+    },
+    {
+        version: 6,
+        description: 'Keep only the Sourcegraph URL in the server URLs',
+        migrate: ({ serverUrls, sourcegraphURL }) => {
+            if (!serverUrls || !sourcegraphURL) {
+                return {}
+            }
+            if (sourcegraphURL !== DEFAULT_SOURCEGRAPH_URL) {
+                return { set: { serverUrls: [sourcegraphURL] } }
+            }
+
+            // Prefer a self-hosted instance over Sourcegraph.com.
+            const urls = without(serverUrls, DEFAULT_SOURCEGRAPH_URL)
+            return urls.length ? { set: { sourcegraphURL: urls[0], serverUrls: [urls[0]] } } : {}
+        },
+    },
+    {
+        version: 7,
+        description: 'Execute searches on GitHub by default',
+        migrate: ({ executeSearchEnabled }) =>
+            executeSearchEnabled === undefined ? { set: { executeSearchEnabled: true } } : {},
+    },
+]
@@ -14,15 +14,19 @@ import * as runtime from '../../browser/runtime'
 import storage, { defaultStorageItems } from '../../browser/storage'
 import * as tabs from '../../browser/tabs'
 import initializeCli from '../../libs/cli'
+import { PersistentCache } from '../../shared/backend/persistentCache'
 import { resolveClientConfiguration } from '../../shared/backend/server'
 import { ExtensionConnectionInfo, onFirstMessage } from '../../shared/messaging'
 import { DEFAULT_SOURCEGRAPH_URL, setSourcegraphUrl } from '../../shared/util/context'
 import { assertEnv } from '../envAssertion'
+import { syncMigrations } from '../migrations'
 
 assertEnv('BACKGROUND')
 
 let customServerOrigins: string[] = []
 
+const persistentCache = new PersistentCache()
+
 const contentScripts = runtime.getContentScripts()
 
 // jsContentScriptOrigins are the required URLs inside of the manifest. When checking for permissions to inject
@@ -161,69 +165,7 @@ permissions.onRemoved(permissions => {
     })
 })
 
-storage.addSyncMigration((items, set, remove) => {
-    if (!items.accessTokens) {
-        set({ accessTokens: {} })
-    }
-
-    if (items.accessTokens) {
-        const accessTokens = {}
-
-        for (const url of Object.keys(items.accessTokens)) {
-            const token = items.accessTokens[url]
-            if (typeof token !== 'string' && token.id && token.token) {
-                accessTokens[url] = token
-            }
-        }
-
-        set({ accessTokens })
-    }
-
-    if (items.phabricatorURL) {
-        remove('phabricatorURL')
-
-        const newItems: {
-            enterpriseUrls?: string[]
-        } = {}
-
-        if (items.enterpriseUrls && !items.enterpriseUrls.find(u => u === items.phabricatorURL)) {
-            newItems.enterpriseUrls = items.enterpriseUrls.concat(items.phabricatorURL)
-        } else if (!items.enterpriseUrls) {
-            newItems.enterpriseUrls = [items.phabricatorURL]
-        }
-
-        set(newItems)
-    }
-
-    if (!items.repoLocations) {
-        set({ repoLocations: {} })
-    }
-
-    if (items.openFileOnSourcegraph === undefined) {
-        set({ openFileOnSourcegraph: true })
-    }
-
-    if (items.featureFlags && !items.featureFlags.newInject) {
-        set({ featureFlags: { ...items.featureFlags, newInject: true } })
-    }
-
-    if (!items.inlineSymbolSearchEnabled) {
-        set({ inlineSymbolSearchEnabled: true })
-    }
-
-    if (items.serverUrls) {
-        if (items.sourcegraphURL) {
-            if (items.sourcegraphURL === DEFAULT_SOURCEGRAPH_URL) {
-                const urls = without(items.serverUrls, DEFAULT_SOURCEGRAPH_URL)
-                if (urls.length) {
-                    set({ sourcegraphURL: urls[0], serverUrls: [urls[0]] })
-                }
-            } else {
-                set({ serverUrls: [items.sourcegraphURL] })
-            }
-        }
-    }
-})
+storage.migrateSync(syncMigrations).catch(err => console.error('could not migrate storage:', err))
 
 tabs.onUpdated((tabId, changeInfo, tab) => {
     if (changeInfo.status === 'complete') {
@@ -280,6 +222,19 @@ runtime.onMessage((message, _, cb) => {
         case 'openOptionsPage':
             runtime.openOptionsPage()
             return true
+
+        case 'getCachedValue':
+            persistentCache.get(message.payload.key).then(cb, err => {
+                console.error('Error reading from cache', err)
+                cb(undefined)
+            })
+            return true
+
+        case 'setCachedValue':
+            persistentCache
+                .set(message.payload.key, message.payload.value)
+                .catch(err => console.error('Error writing to cache', err))
+            return
     }
 
     return
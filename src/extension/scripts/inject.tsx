@@ -16,8 +16,11 @@ import {
 } from '../../shared/util/context'
 import { featureFlags } from '../../shared/util/featureFlags'
 
+import { checkIsBitbucket } from '../../libs/bitbucket/code_intelligence'
 import { injectBitbucketServer } from '../../libs/bitbucket/inject'
 import { injectCodeIntelligence } from '../../libs/code_intelligence'
+import { checkIsGerritPage } from '../../libs/gerrit/code_intelligence'
+import { checkIsGiteaPage } from '../../libs/gitea/code_intelligence'
 import { injectGitHubApplication } from '../../libs/github/inject'
 import { checkIsGitlab } from '../../libs/gitlab/code_intelligence'
 import { injectPhabricatorApplication } from '../../libs/phabricator/app'
@@ -54,10 +57,11 @@ function injectApplication(): void {
         const isGitHub = /^https?:\/\/(www.)?github.com/.test(href)
         const ogSiteName = document.head.querySelector(`meta[property='og:site_name']`) as HTMLMetaElement
         const isGitHubEnterprise = ogSiteName ? ogSiteName.content === 'GitHub Enterprise' : false
-        const isBitbucket =
-            document.querySelector('.bitbucket-header-logo') ||
-            document.querySelector('.aui-header-logo.aui-header-logo-bitbucket')
+        const isBitbucket = checkIsBitbucket()
         const isGitlab = checkIsGitlab()
+        const isGitea = checkIsGiteaPage() && Boolean(items.enterpriseUrls.find(url => url === window.location.origin))
+        const isGerrit =
+            checkIsGerritPage() && Boolean(items.enterpriseUrls.find(url => url === window.location.origin))
 
         if (!isSourcegraphServer && !document.getElementById('ext-style-sheet')) {
             if (window.safari) {
@@ -65,7 +69,15 @@ function injectApplication(): void {
                     type: 'insertCSS',
                     payload: { file: 'css/style.bundle.css', origin: window.location.origin },
                 })
-            } else if (isPhabricator || isGitHub || isGitHubEnterprise || isBitbucket || isGitlab) {
+            } else if (
+                isPhabricator ||
+                isGitHub ||
+                isGitHubEnterprise ||
+                isBitbucket ||
+                isGitlab ||
+                isGitea ||
+                isGerrit
+            ) {
                 const styleSheet = document.createElement('link') as HTMLLinkElement
                 styleSheet.id = 'ext-style-sheet'
                 styleSheet.rel = 'stylesheet'
@@ -77,16 +89,10 @@ function injectApplication(): void {
 
         if (isGitHub || isGitHubEnterprise) {
             setSourcegraphUrl(sourcegraphServerUrl)
-            setRenderMermaidGraphsEnabled(
-                items.renderMermaidGraphsEnabled === undefined ? false : items.renderMermaidGraphsEnabled
-            )
-            setInlineSymbolSearchEnabled(
-                items.inlineSymbolSearchEnabled === undefined ? false : items.inlineSymbolSearchEnabled
-            )
-            setRepositoryFileTreeEnabled(
-                items.repositoryFileTreeEnabled === undefined ? true : items.repositoryFileTreeEnabled
-            )
-            setExecuteSearchEnabled(items.executeSearchEnabled === undefined ? true : items.executeSearchEnabled)
+            setRenderMermaidGraphsEnabled(items.renderMermaidGraphsEnabled)
+            setInlineSymbolSearchEnabled(items.inlineSymbolSearchEnabled)
+            setRepositoryFileTreeEnabled(items.repositoryFileTreeEnabled)
+            setExecuteSearchEnabled(items.executeSearchEnabled)
             injectGitHubApplication(extensionMarker)
         } else if (isSourcegraphServer || /^https?:\/\/(www.)?sourcegraph.com/.test(href)) {
             setSourcegraphUrl(sourcegraphServerUrl)
@@ -95,22 +101,21 @@ function injectApplication(): void {
             window.SOURCEGRAPH_PHABRICATOR_EXTENSION = true
             setSourcegraphUrl(sourcegraphServerUrl)
             injectPhabricatorApplication()
-        } else if (
-            document.querySelector('.bitbucket-header-logo') ||
-            document.querySelector('.aui-header-logo.aui-header-logo-bitbucket')
-        ) {
+        } else if (isBitbucket) {
             setSourcegraphUrl(sourcegraphServerUrl)
             injectBitbucketServer()
+        } else if (isGitea || isGerrit) {
+            setSourcegraphUrl(sourcegraphServerUrl)
         }
 
-        if (isGitHub || isPhabricator || isGitlab) {
-            if (isGitlab || (await featureFlags.isEnabled('newInject'))) {
+        if (isGitHub || isPhabricator || isGitlab || isBitbucket || isGitea || isGerrit) {
+            if (isGitlab || isBitbucket || isGitea || isGerrit || (await featureFlags.isEnabled('newInject'))) {
                 const subscriptions = await injectCodeIntelligence()
                 window.addEventListener('unload', () => subscriptions.unsubscribe())
             }
         }
 
-        setUseExtensions(items.useExtensions === undefined ? false : items.useExtensions)
+        setUseExtensions(items.useExtensions)
     }
 
     storage.getSync(handleGetStorage)
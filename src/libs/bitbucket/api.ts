@@ -0,0 +1,65 @@
+import { first } from 'lodash'
+import { Observable } from 'rxjs'
+import { ajax } from 'rxjs/ajax'
+import { map } from 'rxjs/operators'
+
+import { memoizeObservable } from '../../shared/util/memoize'
+import { BitbucketInfo } from './scrape'
+
+/**
+ * A ref as returned by the Bitbucket Server API. Note that there is more
+ * information returned but we are not using it.
+ */
+interface RefResponse {
+    latestCommit: string
+}
+
+/**
+ * Response from the Bitbucket Server API for fetching a pull request. Note
+ * that there is more information returned but we are not using it.
+ */
+interface PullRequestResponse {
+    fromRef: RefResponse
+    toRef: RefResponse
+}
+
+/**
+ * Response from the Bitbucket Server API for fetching a commit. Note that
+ * there is more information returned but we are not using it.
+ */
+interface CommitResponse {
+    parents: { id: string }[]
+}
+
+type RepoInput = Pick<BitbucketInfo, 'projectKey' | 'repoSlug'>
+
+const buildURL = (projectKey: string, repoSlug: string, path: string) =>
+    `${window.location.origin}/rest/api/1.0/projects/${encodeURIComponent(projectKey)}/repos/${repoSlug}${path}`
+
+const get = <T>(url: string): Observable<T> => ajax.get(url).pipe(map(({ response }) => response as T))
+
+/**
+ * Get the head and base commit IDs for a pull request.
+ */
+export const getCommitsForPullRequest: (
+    info: RepoInput & { pullRequestID: string }
+) => Observable<{ baseCommitID: string; headCommitID: string }> = memoizeObservable(
+    ({ projectKey, repoSlug, pullRequestID }) =>
+        get<PullRequestResponse>(buildURL(projectKey, repoSlug, `/pull-requests/${pullRequestID}`)).pipe(
+            map(({ fromRef, toRef }) => ({ baseCommitID: toRef.latestCommit, headCommitID: fromRef.latestCommit }))
+        ),
+    ({ projectKey, repoSlug, pullRequestID }) => `${projectKey}/${repoSlug}/${pullRequestID}`
+)
+
+/**
+ * Get the base commit ID for a commit.
+ */
+export const getBaseCommitIDForCommit: (
+    info: RepoInput & { commitID: string }
+) => Observable<string> = memoizeObservable(
+    ({ projectKey, repoSlug, commitID }) =>
+        get<CommitResponse>(buildURL(projectKey, repoSlug, `/commits/${commitID}`)).pipe(
+            map(({ parents }) => first(parents)!.id) // ! because it'll always have a parent if we are looking at the commit page.
+        ),
+    ({ projectKey, repoSlug, commitID }) => `${projectKey}/${repoSlug}/${commitID}`
+)
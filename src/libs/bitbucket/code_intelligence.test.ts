@@ -0,0 +1,148 @@
+import { expect } from 'chai'
+import { afterEach, beforeEach, describe, it } from 'mocha'
+import { findCodeViewsOnPage, resolveRevToItself } from '../../testing/code_intelligence'
+import { loadFixture } from '../../testing/dom'
+import { stubNetwork } from '../../testing/network'
+import { getContentOfCodeView } from '../code_intelligence/code_views'
+import { bitbucketServerCodeHost } from './code_intelligence'
+
+const BASE_COMMIT_ID = '5f8a3c1e7b9d2f4a6c8e0b1d3f5a7c9e1b3d5f7a'
+const HEAD_COMMIT_ID = 'e3702bed27f0d39777b0b37b664b6280e8ef8fbf'
+
+const DIFF_HEAD_CONTENT = '\n'.repeat(9) + '\t"net/http"\n\t"path"\n\t"regexp"\n\t"strings"\n)\n'
+const DIFF_BASE_CONTENT = '\n'.repeat(9) + '\t"net/http"\n\t"path"\n\t"strings"\n)\n'
+
+describe('Bitbucket Server code host', () => {
+    let restoreNetwork: () => void
+
+    beforeEach(() => {
+        restoreNetwork = stubNetwork({
+            '/.api/graphql?ResolveRev': request =>
+                request.body.variables.rev === 'master'
+                    ? resolveRevToItself({ body: { variables: { rev: HEAD_COMMIT_ID } } })
+                    : resolveRevToItself(request),
+            [`/rest/api/1.0/projects/GORILLA/repos/mux/commits/${HEAD_COMMIT_ID}`]: () => ({
+                parents: [{ id: BASE_COMMIT_ID }],
+            }),
+            '/rest/api/1.0/projects/GORILLA/repos/mux/pull-requests/7': () => ({
+                fromRef: { latestCommit: HEAD_COMMIT_ID },
+                toRef: { latestCommit: BASE_COMMIT_ID },
+            }),
+        })
+    })
+
+    afterEach(() => restoreNetwork())
+
+    describe('source page', () => {
+        beforeEach(() =>
+            loadFixture(
+                'bitbucket/browse',
+                'https://bitbucket.example.com/projects/GORILLA/repos/mux/browse/mux.go?at=refs%2Fheads%2Fmaster'
+            ))
+
+        it('finds the file', async () => {
+            const codeViews = await findCodeViewsOnPage(bitbucketServerCodeHost)
+            expect(codeViews).to.have.length(1)
+
+            const [{ codeView, resolveFileInfo, getLineRanges, dom, isDiff }] = codeViews
+            expect(isDiff).to.equal(false)
+            expect(await resolveFileInfo(codeView).toPromise()).to.deep.equal({
+                repoPath: 'bitbucket.example.com/GORILLA/mux',
+                filePath: 'mux.go',
+                commitID: HEAD_COMMIT_ID,
+                rev: 'master',
+            })
+            expect(getLineRanges(codeView)).to.deep.equal([{ start: 1, end: 5 }])
+
+            const packageLine = dom.getCodeElementFromLineNumber(codeView, 5)!
+            expect(packageLine.textContent).to.equal('package mux')
+            expect(dom.getLineNumberFromCodeElement(packageLine)).to.equal(5)
+            expect(getContentOfCodeView(codeView, { dom, isDiff, getLineRanges })).to.deep.equal({
+                content:
+                    '// Copyright 2012 The Gorilla Authors. All rights reserved.\n' +
+                    '// Use of this source code is governed by a BSD-style\n' +
+                    '// license that can be found in the LICENSE file.\n' +
+                    '\n' +
+                    'package mux\n',
+                baseContent: undefined,
+            })
+        })
+    })
+
+    describe('commit page', () => {
+        beforeEach(() =>
+            loadFixture(
+                'bitbucket/commit',
+                `https://bitbucket.example.com/projects/GORILLA/repos/mux/commits/${HEAD_COMMIT_ID}`
+            ))
+
+        it('finds both sides of the changed file in the unified diff', async () => {
+            const codeViews = await findCodeViewsOnPage(bitbucketServerCodeHost)
+            expect(codeViews).to.have.length(1)
+
+            const [{ codeView, resolveFileInfo, getLineRanges, dom, isDiff }] = codeViews
+            expect(isDiff).to.equal(true)
+            expect(await resolveFileInfo(codeView).toPromise()).to.deep.equal({
+                repoPath: 'bitbucket.example.com/GORILLA/mux',
+                filePath: 'mux.go',
+                commitID: HEAD_COMMIT_ID,
+                rev: HEAD_COMMIT_ID,
+                baseCommitID: BASE_COMMIT_ID,
+                baseRev: BASE_COMMIT_ID,
+                headHasFileContents: true,
+                baseHasFileContents: true,
+            })
+            // The lines between the hunks aren't rendered.
+            expect(getLineRanges(codeView, 'head')).to.deep.equal([{ start: 10, end: 14 }, { start: 31, end: 31 }])
+            expect(getLineRanges(codeView, 'base')).to.deep.equal([{ start: 10, end: 13 }, { start: 30, end: 30 }])
+
+            const added = dom.getCodeElementFromLineNumber(codeView, 12, 'head')!
+            expect(added.textContent).to.equal('\t"regexp"')
+            expect(dom.getDiffCodePart!(added)).to.equal('head')
+            expect(dom.getLineNumberFromCodeElement(added)).to.equal(12)
+
+            const removed = dom.getCodeElementFromLineNumber(codeView, 30, 'base')!
+            expect(removed.textContent).to.equal('// NewRouter returns a new router instance.')
+            expect(dom.getDiffCodePart!(removed)).to.equal('base')
+            expect(dom.getLineNumberFromCodeElement(removed)).to.equal(30)
+        })
+    })
+
+    describe('pull request page', () => {
+        beforeEach(() =>
+            loadFixture(
+                'bitbucket/pull-request',
+                'https://bitbucket.example.com/projects/GORILLA/repos/mux/pull-requests/7/diff'
+            ))
+
+        it('finds both sides of the changed file in the side-by-side diff', async () => {
+            const codeViews = await findCodeViewsOnPage(bitbucketServerCodeHost)
+            expect(codeViews).to.have.length(1)
+
+            const [{ codeView, resolveFileInfo, getLineRanges, dom, isDiff }] = codeViews
+            expect(isDiff).to.equal(true)
+            expect(await resolveFileInfo(codeView).toPromise()).to.deep.equal({
+                repoPath: 'bitbucket.example.com/GORILLA/mux',
+                filePath: 'routing/mux.go',
+                commitID: HEAD_COMMIT_ID,
+                rev: HEAD_COMMIT_ID,
+                baseCommitID: BASE_COMMIT_ID,
+                baseRev: BASE_COMMIT_ID,
+                headHasFileContents: true,
+                baseHasFileContents: true,
+            })
+            expect(getLineRanges(codeView, 'head')).to.deep.equal([{ start: 10, end: 14 }])
+            expect(getLineRanges(codeView, 'base')).to.deep.equal([{ start: 10, end: 13 }])
+
+            const strings = dom.getCodeElementFromLineNumber(codeView, 12, 'base')!
+            expect(strings.textContent).to.equal('\t"strings"')
+            expect(dom.getDiffCodePart!(strings)).to.equal('base')
+            expect(dom.getLineNumberFromCodeElement(strings)).to.equal(12)
+            expect(dom.getCodeElementFromLineNumber(codeView, 12, 'head')!.textContent).to.equal('\t"regexp"')
+            expect(getContentOfCodeView(codeView, { dom, isDiff, getLineRanges })).to.deep.equal({
+                content: DIFF_HEAD_CONTENT,
+                baseContent: DIFF_BASE_CONTENT,
+            })
+        })
+    })
+})
@@ -0,0 +1,127 @@
+import { AdjustmentDirection, DOMFunctions, PositionAdjuster } from '@sourcegraph/codeintellify'
+import { of } from 'rxjs'
+import { CodeHost, CodeViewResolver, CodeViewWithOutSelector } from '../code_intelligence'
+import { getGlobalDebugMount } from '../code_intelligence/extensions'
+import { diffDOMFunctions, diffGetLineRanges, singleFileDOMFunctions, singleFileGetLineRanges } from './dom_functions'
+import { getCommandPaletteMount } from './extensions'
+import { resolveCommitFileInfo, resolveFileInfo, resolvePullRequestFileInfo } from './file_info'
+import { BitbucketPageKind, getPageInfo } from './scrape'
+
+const toolbarButtonProps = {
+    className: 'aui-button',
+    style: { marginLeft: '10px' },
+}
+
+export function checkIsBitbucket(): boolean {
+    return (
+        !!document.querySelector('.bitbucket-header-logo') ||
+        !!document.querySelector('.aui-header-logo.aui-header-logo-bitbucket')
+    )
+}
+
+const createToolbarMount = (codeView: HTMLElement) => {
+    const existingMount = codeView.querySelector<HTMLElement>('.sg-toolbar-mount')
+    if (existingMount) {
+        // Make this function idempotent; no need to create a mount twice.
+        return existingMount
+    }
+
+    const fileActions = codeView.querySelector('.file-toolbar .secondary')
+    if (!fileActions) {
+        throw new Error('Unable to find mount location')
+    }
+
+    const mount = document.createElement('div')
+    mount.classList.add('aui-buttons')
+    mount.classList.add('sg-toolbar-mount')
+    mount.classList.add('sg-toolbar-mount-bitbucket-server')
+
+    fileActions.insertAdjacentElement('afterbegin', mount)
+
+    return mount
+}
+
+/**
+ * CodeMirror renders tabs as spaces. The rendered elements keep the actual
+ * text in the `cm-text` attribute, so we can adjust based on that.
+ */
+const createPositionAdjuster = (dom: DOMFunctions): PositionAdjuster => ({ direction, codeView, position }) => {
+    const codeElement = dom.getCodeElementFromLineNumber(codeView, position.line, position.part)
+    if (!codeElement) {
+        throw new Error('(adjustPosition) could not find code element for line provided')
+    }
+
+    let delta = 0
+    for (const modifiedTextElement of codeElement.querySelectorAll('[cm-text]')) {
+        const actualText = modifiedTextElement.getAttribute('cm-text') || ''
+        if (actualText === modifiedTextElement.textContent) {
+            continue
+        }
+
+        delta += actualText.length - (modifiedTextElement.textContent || '').length
+    }
+
+    const modifier = direction === AdjustmentDirection.ActualToCodeView ? -1 : 1
+
+    return of({
+        line: position.line,
+        character: position.character + delta * modifier,
+    })
+}
+
+const singleFileCodeView: CodeViewWithOutSelector = {
+    dom: singleFileDOMFunctions,
+    isDiff: false,
+    getToolbarMount: createToolbarMount,
+    resolveFileInfo,
+    adjustPosition: createPositionAdjuster(singleFileDOMFunctions),
+    toolbarButtonProps,
+    getLineRanges: singleFileGetLineRanges,
+}
+
+const commitCodeView: CodeViewWithOutSelector = {
+    dom: diffDOMFunctions,
+    isDiff: true,
+    getToolbarMount: createToolbarMount,
+    resolveFileInfo: resolveCommitFileInfo,
+    adjustPosition: createPositionAdjuster(diffDOMFunctions),
+    toolbarButtonProps,
+    getLineRanges: diffGetLineRanges,
+}
+
+const pullRequestCodeView: CodeViewWithOutSelector = {
+    dom: diffDOMFunctions,
+    isDiff: true,
+    getToolbarMount: createToolbarMount,
+    resolveFileInfo: resolvePullRequestFileInfo,
+    adjustPosition: createPositionAdjuster(diffDOMFunctions),
+    toolbarButtonProps,
+    getLineRanges: diffGetLineRanges,
+}
+
+const resolveCodeView = (codeView: HTMLElement): CodeViewWithOutSelector => {
+    const { pageKind } = getPageInfo()
+
+    if (pageKind === BitbucketPageKind.PullRequest) {
+        return pullRequestCodeView
+    }
+
+    if (pageKind === BitbucketPageKind.Commit) {
+        return commitCodeView
+    }
+
+    return singleFileCodeView
+}
+
+const codeViewResolver: CodeViewResolver = {
+    selector: '.file-content',
+    resolveCodeView,
+}
+
+export const bitbucketServerCodeHost: CodeHost = {
+    name: 'bitbucket-server',
+    check: checkIsBitbucket,
+    codeViewResolver,
+    getCommandPaletteMount,
+    getGlobalDebugMount,
+}
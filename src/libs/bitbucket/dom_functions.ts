@@ -0,0 +1,142 @@
+import { DiffPart, DOMFunctions } from '@sourcegraph/codeintellify'
+import { CodeView } from '../code_intelligence'
+
+/**
+ * Bitbucket Server renders code with CodeMirror. Each line is a `<pre class="CodeMirror-line">`
+ * wrapped in a `<div>` that also contains the gutter with the line number(s).
+ */
+const getLineWrapper = (codeElement: HTMLElement): HTMLElement => {
+    const line = codeElement.closest('.CodeMirror-line')
+    if (!line || !line.parentElement) {
+        throw new Error('Unable to find line wrapper for code element')
+    }
+
+    return line.parentElement
+}
+
+const getLineWrappers = (codeView: HTMLElement): HTMLElement[] =>
+    Array.from(codeView.querySelectorAll<HTMLElement>('.CodeMirror-code > div')).filter(
+        wrapper => !!wrapper.querySelector('.CodeMirror-line')
+    )
+
+const parseLineNumber = (element: HTMLElement | null): number | null => {
+    if (!element) {
+        return null
+    }
+
+    const lineNumber = parseInt(element.dataset.lineNumber || (element.textContent || '').trim(), 10)
+
+    return isNaN(lineNumber) ? null : lineNumber
+}
+
+const getCodeElementFromTarget: DOMFunctions['getCodeElementFromTarget'] = target =>
+    target.closest('.CodeMirror-line') as HTMLElement | null
+
+/**
+ * Gets the gutter element holding the line number for the given part of the diff.
+ */
+const getDiffLineNumberElement = (wrapper: HTMLElement, part?: DiffPart): HTMLElement | null =>
+    wrapper.querySelector<HTMLElement>(part === 'base' ? '.line-number-from' : '.line-number-to')
+
+export const singleFileDOMFunctions: DOMFunctions = {
+    getCodeElementFromTarget,
+    getLineNumberFromCodeElement: codeElement => {
+        const lineNumber = parseLineNumber(getLineWrapper(codeElement).querySelector<HTMLElement>('.line-locator'))
+        if (lineNumber === null) {
+            throw new Error('Unable to determine line number for code element')
+        }
+
+        return lineNumber
+    },
+    getCodeElementFromLineNumber: (codeView, line) => {
+        const lineLocator = codeView.querySelector(`.line-locator[data-line-number="${line}"]`)
+        if (!lineLocator) {
+            return null
+        }
+
+        const wrapper = lineLocator.closest('.CodeMirror-code > div')
+
+        return wrapper && wrapper.querySelector<HTMLElement>('.CodeMirror-line')
+    },
+    isFirstCharacterDiffIndicator: () => false,
+}
+
+const getDiffCodePart: DOMFunctions['getDiffCodePart'] = codeElement => {
+    // Side-by-side diffs render each side in its own editor.
+    if (codeElement.closest('.side-by-side-diff')) {
+        return codeElement.closest('.diff-editor.editor-from') ? 'base' : 'head'
+    }
+
+    // Unified diffs mark removed lines on the line wrapper. Added and context lines belong to the head.
+    return getLineWrapper(codeElement).classList.contains('removed') ? 'base' : 'head'
+}
+
+export const diffDOMFunctions: DOMFunctions = {
+    getCodeElementFromTarget,
+    getLineNumberFromCodeElement: codeElement => {
+        const part = getDiffCodePart(codeElement)
+
+        const lineNumber = parseLineNumber(getDiffLineNumberElement(getLineWrapper(codeElement), part))
+        if (lineNumber === null) {
+            throw new Error('Unable to determine line number for diff code element')
+        }
+
+        return lineNumber
+    },
+    getCodeElementFromLineNumber: (codeView, line, part) => {
+        for (const wrapper of getLineWrappers(codeView)) {
+            if (parseLineNumber(getDiffLineNumberElement(wrapper, part)) === line) {
+                return wrapper.querySelector<HTMLElement>('.CodeMirror-line')
+            }
+        }
+
+        return null
+    },
+    getDiffCodePart,
+    // Bitbucket Server renders the diff indicator in the gutter, not in the code.
+    isFirstCharacterDiffIndicator: () => false,
+}
+
+const createGetLineRanges = (getLineNumber: (wrapper: HTMLElement, part?: DiffPart) => number | null) => (
+    codeView: HTMLElement,
+    part?: DiffPart
+) => {
+    const ranges: { start: number; end: number }[] = []
+
+    let start: number | null = null
+    let end: number | null = null
+
+    // CodeMirror only renders the lines that are in (or close to) the viewport
+    // so the lines can be split into several ranges.
+    for (const wrapper of getLineWrappers(codeView)) {
+        const num = getLineNumber(wrapper, part)
+        if (num === null) {
+            // Line does not exist on this side of the diff.
+            continue
+        }
+
+        if (start !== null && end !== null && num !== end + 1) {
+            ranges.push({ start, end })
+            start = null
+        }
+
+        if (start === null) {
+            start = num
+        }
+        end = num
+    }
+
+    if (start !== null && end !== null) {
+        ranges.push({ start, end })
+    }
+
+    return ranges
+}
+
+export const singleFileGetLineRanges: CodeView['getLineRanges'] = createGetLineRanges(wrapper =>
+    parseLineNumber(wrapper.querySelector<HTMLElement>('.line-locator'))
+)
+
+export const diffGetLineRanges: CodeView['getLineRanges'] = createGetLineRanges((wrapper, part) =>
+    parseLineNumber(getDiffLineNumberElement(wrapper, part))
+)
@@ -0,0 +1,18 @@
+export function getCommandPaletteMount(): HTMLElement {
+    const headerElem = document.querySelector('.aui-header-secondary .aui-nav')
+    if (!headerElem) {
+        throw new Error('Unable to find command pallete mount')
+    }
+
+    const commandListClass = 'command-palette-button'
+
+    const createCommandList = (): HTMLElement => {
+        const commandListElem = document.createElement('li')
+        commandListElem.className = commandListClass
+        headerElem.insertAdjacentElement('afterbegin', commandListElem)
+
+        return commandListElem
+    }
+
+    return document.querySelector<HTMLElement>('.' + commandListClass) || createCommandList()
+}
@@ -0,0 +1,101 @@
+import { Observable, of, zip } from 'rxjs'
+import { map, switchMap } from 'rxjs/operators'
+
+import { resolveRev, retryWhenCloneInProgressError } from '../../shared/repo/backend'
+import { FileInfo } from '../code_intelligence'
+import { getBaseCommitIDForCommit, getCommitsForPullRequest } from './api'
+import { getCommitPageInfo, getFilePageInfo, getFilePathFromCodeView, getPullRequestPageInfo } from './scrape'
+
+const ensureRevisionsAreCloned = (files: Observable<FileInfo>): Observable<FileInfo> =>
+    files.pipe(
+        switchMap(({ repoPath, rev, baseRev, ...rest }) => {
+            // Although we get the commit SHA's from elesewhere, we still need to
+            // use `resolveRev` otherwise we can't guarantee Sourcegraph has the
+            // revision cloned.
+            const resolvingHeadRev = resolveRev({ repoPath, rev }).pipe(retryWhenCloneInProgressError())
+            const resolvingBaseRev = resolveRev({ repoPath, rev: baseRev }).pipe(retryWhenCloneInProgressError())
+
+            return zip(resolvingHeadRev, resolvingBaseRev).pipe(map(() => ({ repoPath, rev, baseRev, ...rest })))
+        })
+    )
+
+/**
+ * Resolves file information for the source view of a single file.
+ */
+export const resolveFileInfo = (): Observable<FileInfo> =>
+    of(undefined).pipe(
+        map(getFilePageInfo),
+        // The `at` query parameter is a branch or tag name (or missing, for the default branch)
+        // so the commit ID has to be resolved by Sourcegraph.
+        switchMap(({ repoPath, filePath, rev }) =>
+            resolveRev({ repoPath, rev }).pipe(
+                retryWhenCloneInProgressError(),
+                map(commitID => ({ repoPath, filePath, commitID, rev: rev || commitID }))
+            )
+        )
+    )
+
+/**
+ * Resolves file information for commit pages.
+ */
+export const resolveCommitFileInfo = (codeView: HTMLElement): Observable<FileInfo> =>
+    of(undefined).pipe(
+        map(getCommitPageInfo),
+        // Resolve base commit ID.
+        switchMap(({ projectKey, repoSlug, commitID, repoPath }) =>
+            getBaseCommitIDForCommit({ projectKey, repoSlug, commitID }).pipe(
+                map(baseCommitID => ({ repoPath, commitID, baseCommitID }))
+            )
+        ),
+        map(info => ({ ...info, rev: info.commitID, baseRev: info.baseCommitID })),
+        map(info => ({
+            ...info,
+            filePath: getFilePathFromCodeView(codeView),
+        })),
+        map(info => ({
+            ...info,
+
+            // https://github.com/sourcegraph/browser-extensions/issues/185
+            headHasFileContents: true,
+            baseHasFileContents: true,
+        })),
+        ensureRevisionsAreCloned
+    )
+
+/**
+ * Resolves file information for pull request diffs.
+ */
+export const resolvePullRequestFileInfo = (codeView: HTMLElement): Observable<FileInfo> =>
+    of(undefined).pipe(
+        map(getPullRequestPageInfo),
+        // Resolve the head and base commit IDs.
+        switchMap(({ projectKey, repoSlug, pullRequestID, baseCommitID, headCommitID, repoPath }) => {
+            const gettingCommitIDs =
+                baseCommitID && headCommitID
+                    ? // Commits were found in the URL.
+                      of({ baseCommitID, headCommitID })
+                    : // Commits need to be fetched from the API.
+                      getCommitsForPullRequest({ projectKey, repoSlug, pullRequestID })
+
+            return gettingCommitIDs.pipe(map(commitIDs => ({ repoPath, ...commitIDs })))
+        }),
+        map(({ repoPath, baseCommitID, headCommitID }) => ({
+            repoPath,
+            commitID: headCommitID,
+            rev: headCommitID,
+            baseCommitID,
+            baseRev: baseCommitID,
+        })),
+        map(info => ({
+            ...info,
+            filePath: getFilePathFromCodeView(codeView),
+        })),
+        map(info => ({
+            ...info,
+
+            // https://github.com/sourcegraph/browser-extensions/issues/185
+            headHasFileContents: true,
+            baseHasFileContents: true,
+        })),
+        ensureRevisionsAreCloned
+    )
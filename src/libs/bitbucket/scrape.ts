@@ -0,0 +1,161 @@
+import { FileInfo } from '../code_intelligence'
+
+export enum BitbucketPageKind {
+    File,
+    Commit,
+    PullRequest,
+}
+
+/**
+ * General information that can be found on any Bitbucket Server page that we care about. (i.e. has code)
+ */
+export interface BitbucketInfo {
+    pageKind: BitbucketPageKind
+
+    /** The project key. Personal repositories use the `~USERNAME` form. */
+    projectKey: string
+    repoSlug: string
+
+    repoPath: string
+}
+
+const createErrorBuilder = (message: string) => (kind: string) => new Error(`${message} (${kind})`)
+
+const buildPageError = createErrorBuilder('Unable to determine page information')
+
+/**
+ * Gets information about the page from the URL.
+ */
+export function getPageInfo(): BitbucketInfo {
+    const matches = window.location.pathname.match(/\/(projects|users)\/(.*?)\/repos\/(.*?)(\/|$)/)
+    if (!matches) {
+        throw buildPageError('no-repository')
+    }
+
+    const [, ownerKind, owner, repoSlug] = matches
+    const projectKey = ownerKind === 'users' ? `~${owner.toUpperCase()}` : owner
+
+    let pageKind: BitbucketPageKind
+    if (/\/commits\/[0-9a-f]{40}/.test(window.location.pathname)) {
+        pageKind = BitbucketPageKind.Commit
+    } else if (/\/pull-requests\/\d+/.test(window.location.pathname)) {
+        pageKind = BitbucketPageKind.PullRequest
+    } else {
+        pageKind = BitbucketPageKind.File
+    }
+
+    return {
+        pageKind,
+        projectKey,
+        repoSlug,
+        repoPath: [window.location.hostname, projectKey, repoSlug].join('/'),
+    }
+}
+
+/**
+ * Information about single file pages.
+ */
+export interface BitbucketFileInfo extends Pick<BitbucketInfo, 'repoPath'> {
+    filePath: string
+    rev?: string
+}
+
+/**
+ * Gets information about a file view page.
+ */
+export function getFilePageInfo(): BitbucketFileInfo {
+    const { repoPath } = getPageInfo()
+
+    const matches = window.location.pathname.match(/\/browse\/(.*)/)
+    if (!matches) {
+        throw buildPageError('no-file-path')
+    }
+
+    const at = new URLSearchParams(window.location.search).get('at')
+
+    return {
+        repoPath,
+        filePath: decodeURIComponent(matches[1]),
+        rev: at ? at.replace(/^refs\/(heads|tags)\//, '') : undefined,
+    }
+}
+
+/**
+ * Information specific to commit pages.
+ */
+export interface BitbucketCommitPageInfo extends Pick<BitbucketInfo, 'repoPath' | 'projectKey' | 'repoSlug'> {
+    commitID: string
+}
+
+/**
+ * Gets the commit from the URL.
+ */
+export function getCommitPageInfo(): BitbucketCommitPageInfo {
+    const { repoPath, projectKey, repoSlug } = getPageInfo()
+
+    const matches = window.location.pathname.match(/\/commits\/([0-9a-f]{40})/)
+    if (!matches) {
+        throw buildPageError('no-commit-id')
+    }
+
+    return {
+        repoPath,
+        projectKey,
+        repoSlug,
+        commitID: matches[1],
+    }
+}
+
+/**
+ * Information specific to pull request pages.
+ */
+export interface BitbucketPullRequestPageInfo extends Pick<BitbucketInfo, 'repoPath' | 'projectKey' | 'repoSlug'> {
+    pullRequestID: string
+
+    /** Set when the user is viewing a range of commits (`?since=...&until=...`). */
+    baseCommitID?: string
+    headCommitID?: string
+}
+
+/**
+ * Gets the pull request ID and, if present, the commit range from the URL.
+ */
+export function getPullRequestPageInfo(): BitbucketPullRequestPageInfo {
+    const { repoPath, projectKey, repoSlug } = getPageInfo()
+
+    const matches = window.location.pathname.match(/\/pull-requests\/(\d+)/)
+    if (!matches) {
+        throw buildPageError('no-pull-request-id')
+    }
+
+    const query = new URLSearchParams(window.location.search)
+
+    return {
+        repoPath,
+        projectKey,
+        repoSlug,
+        pullRequestID: matches[1],
+        baseCommitID: query.get('since') || undefined,
+        headCommitID: query.get('until') || undefined,
+    }
+}
+
+const buildFileError = createErrorBuilder('Unable to determine file information')
+
+/**
+ * Finds the file path from the breadcrumbs in the toolbar of the code view.
+ */
+export function getFilePathFromCodeView(codeView: HTMLElement): FileInfo['filePath'] {
+    const breadcrumbs = codeView.querySelector<HTMLElement>('.file-toolbar .breadcrumbs')
+    if (!breadcrumbs) {
+        throw buildFileError('no-breadcrumbs')
+    }
+
+    // The breadcrumbs render each path component separately, so collapse the whitespace around the separators.
+    const filePath = (breadcrumbs.textContent || '').trim().replace(/\s*\/\s*/g, '/')
+    if (!filePath) {
+        throw buildFileError('empty-breadcrumbs')
+    }
+
+    return filePath
+}
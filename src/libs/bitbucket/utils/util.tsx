@@ -139,7 +139,6 @@ export interface BitbucketRepository {
 }
 
 const BITBUCKET_STATE_ELEMENT_ID = 'BITBUCKET_STATE_ID'
-const BITBUCKET_LINE_SCROLL_ID = 'BITBUCKET_LINE_SCROLL_ID'
 
 export function configureBitbucketHandlers(): void {
     bitbucketPierce(getBitbucketStateHandler, BITBUCKET_STATE_ELEMENT_ID)
@@ -163,22 +162,6 @@ function getBitbucketStateHandler(): void {
     })
 }
 
-export function scrollToLine(lineNumber: number): void {
-    let s = document.getElementById(BITBUCKET_LINE_SCROLL_ID) as HTMLScriptElement
-    if (s) {
-        s.remove()
-    }
-    s = document.createElement('script') as HTMLScriptElement
-    s.id = BITBUCKET_LINE_SCROLL_ID
-    s.setAttribute('type', 'text/javascript')
-    const scrollFunc = `function handleScroll() {
-        var editor = AJS.$('.CodeMirror')[0].CodeMirror;
-        window.scrollTo(null, editor.heightAtLine(${lineNumber}) - 100);
-    }`
-    s.textContent = scrollFunc + ';' + `handleScroll();`
-    document.body.appendChild(s)
-}
-
 /**
  * This injects code as a script tag into a web page body.
  * Needed to reference the Bitbucket Internal AJS code.
@@ -0,0 +1,84 @@
+import { maxBy } from 'lodash'
+import * as OmniCLI from 'omnicli'
+
+import storage from '../../browser/storage'
+
+const getBookmarks = () =>
+    new Promise<string[]>(resolve => storage.getSync(({ omniboxBookmarks }) => resolve(omniboxBookmarks)))
+
+/** Returns the most recently visited omnibox input, if any. */
+const getLastInput = () =>
+    new Promise<string | undefined>(resolve =>
+        storage.getLocal(({ omniboxHistory }) => {
+            const last = maxBy(omniboxHistory, ({ visits }) => visits[visits.length - 1])
+            resolve(last && last.input)
+        })
+    )
+
+const matching = (bookmarks: string[], query: string) =>
+    bookmarks.filter(input => input.toLowerCase().includes(query.toLowerCase()))
+
+async function getBookmarkSuggestions([subcommand = '', ...rest]: string[]): Promise<OmniCLI.Suggestion[]> {
+    const query = rest.join(' ')
+    switch (subcommand) {
+        case 'add': {
+            const input = query || (await getLastInput())
+            return input ? [{ content: `add ${input}`, description: `Bookmark ${input}` }] : []
+        }
+        case 'rm':
+            return matching(await getBookmarks(), query).map(input => ({
+                content: `rm ${input}`,
+                description: `Remove the bookmark ${input}`,
+            }))
+        case 'ls':
+            return matching(await getBookmarks(), query).map(input => ({ content: `ls ${input}`, description: input }))
+    }
+    return [
+        { content: 'add', description: 'Bookmark an input, or the last one entered' },
+        { content: 'rm', description: 'Remove a bookmark' },
+        { content: 'ls', description: 'List the bookmarks' },
+    ]
+}
+
+async function bookmark(
+    [subcommand, ...rest]: string[],
+    disposition: string | undefined,
+    execute: (input: string, disposition?: string) => void
+): Promise<void> {
+    const input = rest.join(' ')
+    const bookmarks = await getBookmarks()
+    switch (subcommand) {
+        case 'add': {
+            const added = input || (await getLastInput())
+            if (added && !bookmarks.includes(added)) {
+                storage.setSync({ omniboxBookmarks: [...bookmarks, added] })
+            }
+            return
+        }
+        case 'rm':
+            storage.setSync({ omniboxBookmarks: bookmarks.filter(bookmark => bookmark !== input) })
+            return
+        case 'ls':
+            if (input) {
+                execute(input, disposition)
+            }
+            return
+    }
+    console.error(`src :bookmark - unknown subcommand ${subcommand}, expected add, rm or ls`)
+}
+
+/**
+ * Creates the command that saves omnibox inputs as bookmarks. Bookmarks
+ * selected from `:bookmark ls` are entered with execute.
+ */
+export function createBookmarkCommand(execute: (input: string, disposition?: string) => void): OmniCLI.Command {
+    return {
+        name: 'bookmark',
+        alias: ['b'],
+        action: (args: string[], disposition?: string) => {
+            bookmark(args, disposition, execute).catch(err => console.error('error updating bookmarks', err))
+        },
+        getSuggestions: getBookmarkSuggestions,
+        description: 'Add, remove or list bookmarked inputs',
+    }
+}
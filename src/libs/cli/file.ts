@@ -1,4 +1,4 @@
-import { first } from 'lodash'
+import { first, flatten } from 'lodash'
 import * as OmniCLI from 'omnicli'
 import score from 'string-score'
 
@@ -6,32 +6,18 @@ import * as runtime from '../../browser/runtime'
 import storage from '../../browser/storage'
 import * as tabs from '../../browser/tabs'
 
+import { searchFilePaths } from '../../shared/repo/backend'
 import { buildSearchURLQuery, toBlobURL } from '../../shared/util/url'
-
-function executeEnter(props: chrome.tabs.CreateProperties, disposition?: string): void {
-    switch (disposition) {
-        case 'newForegroundTab':
-            tabs.create(props)
-            break
-        case 'newBackgroundTab':
-            tabs.create({ ...props, active: false })
-            break
-        case 'currentTab':
-        default:
-            tabs.update(props)
-            break
-    }
-}
+import { executeEnter } from './util'
 
 interface Repo {
     name: string
     rev: string
-    files: string[]
+    commitID: string
 }
 
-interface FileSuggestion extends OmniCLI.Suggestion {
-    score: number
-}
+/** The number of matching files suggested per open repository. */
+const MAX_FILE_SUGGESTIONS = 10
 
 class FileCommand implements OmniCLI.Command {
     public name = 'file'
@@ -52,7 +38,7 @@ class FileCommand implements OmniCLI.Command {
         this.repos.delete(repo.name)
     }
 
-    public getSuggestions = ([queryPath]: string[]): OmniCLI.Suggestion[] => {
+    public getSuggestions = async (args: string[]): Promise<OmniCLI.Suggestion[]> => {
         if (this.repos.size === 0) {
             return [
                 {
@@ -62,19 +48,37 @@ class FileCommand implements OmniCLI.Command {
             ]
         }
 
-        const suggestions: FileSuggestion[] = []
+        const queryPath = args.join(' ').trim()
+        if (!queryPath) {
+            return []
+        }
 
-        for (const repo of this.repos.values()) {
-            suggestions.push(
-                ...repo.files.map(path => ({
-                    content: this.buildUrl(path, repo),
-                    description: `${repo.name}@${repo.rev} - ${path}`,
-                    score: queryPath ? score(path.toLowerCase(), queryPath.toLowerCase()) : 0,
-                }))
+        // The files of the open repositories are searched on the Sourcegraph
+        // instance, because listing all of them is too slow for large repositories.
+        const suggestions = await Promise.all(
+            Array.from(this.repos.values()).map(repo =>
+                searchFilePaths({
+                    repoPath: repo.name,
+                    commitID: repo.commitID,
+                    query: queryPath,
+                    first: MAX_FILE_SUGGESTIONS,
+                })
+                    .toPromise()
+                    .then(paths =>
+                        paths.map(path => ({
+                            content: this.buildUrl(path, repo),
+                            description: `${repo.name}@${repo.rev} - ${path}`,
+                            score: score(path.toLowerCase(), queryPath.toLowerCase()),
+                        }))
+                    )
+                    .catch(err => {
+                        console.error('error searching files', err)
+                        return []
+                    })
             )
-        }
+        )
 
-        return suggestions
+        return flatten(suggestions)
             .sort((a, b) => b.score - a.score)
             .map(({ content, description }) => ({ content, description }))
     }
@@ -128,7 +132,7 @@ tabs.query({ url: 'https://github.com/*' }, res => {
 
 runtime.onMessage(message => {
     const repo = message.payload as Repo
-    if (message.type === 'fetched-files') {
+    if (message.type === 'repo-opened') {
         cmd.setRepo(repo)
     } else if (message.type === 'repo-closed') {
         cmd.removeRepo(repo)
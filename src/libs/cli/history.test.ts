@@ -0,0 +1,63 @@
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import { OmniboxHistoryEntry } from '../../browser/types'
+import { addVisit, frecency, getSuggestingCommand, rankHistory, rememberSuggestions } from './history'
+
+const NOW = Date.UTC(2018, 9, 1)
+const DAY = 24 * 60 * 60 * 1000
+
+const entry = (input: string, ...daysAgo: number[]): OmniboxHistoryEntry => ({
+    input,
+    description: input,
+    type: 'search',
+    visits: daysAgo.map(days => NOW - days * DAY),
+})
+
+describe('omnibox history', () => {
+    it('frecency weighs recent visits more than old ones', () => {
+        expect(frecency(entry('a', 1), NOW)).to.equal(100)
+        expect(frecency(entry('a', 1, 20, 365), NOW)).to.equal(160)
+        expect(frecency(entry('a', 1), NOW)).to.be.above(frecency(entry('b', 40, 50), NOW))
+    })
+
+    describe('addVisit', () => {
+        it('adds a visit to an existing entry', () => {
+            const history = addVisit(
+                [entry('a', 2), entry('b', 1)],
+                { input: 'a', description: 'A', type: 'repo' },
+                NOW
+            )
+            expect(history).to.deep.equal([
+                { input: 'a', description: 'A', type: 'repo', visits: [NOW - 2 * DAY, NOW] },
+                entry('b', 1),
+            ])
+        })
+
+        it('keeps only the most recent visits of an entry', () => {
+            const visits = Array.from({ length: 10 }, (_, i) => 10 - i)
+            const [{ visits: kept }] = addVisit(
+                [entry('a', ...visits)],
+                { input: 'a', description: 'a', type: 'search' },
+                NOW
+            )
+            expect(kept).to.have.length(10)
+            expect(kept[kept.length - 1]).to.equal(NOW)
+            expect(kept[0]).to.equal(NOW - 9 * DAY)
+        })
+    })
+
+    it('rankHistory returns the matching entries, most frecent first', () => {
+        const history = [entry('mux router', 100), entry('websocket', 1), entry('mux', 1, 2)]
+        expect(rankHistory(history, 'MUX', NOW).map(({ input }) => input)).to.deep.equal(['mux', 'mux router'])
+    })
+
+    it('getSuggestingCommand returns the command of a selected suggestion', () => {
+        const suggestions = [{ content: 'https://github.com/gorilla/mux', description: 'github.com/gorilla/mux' }]
+        rememberSuggestions(suggestions, 'repo')
+        expect(getSuggestingCommand('https://github.com/gorilla/mux')).to.equal('repo')
+        expect(getSuggestingCommand('gorilla/mux')).to.equal(undefined)
+
+        rememberSuggestions(suggestions)
+        expect(getSuggestingCommand('https://github.com/gorilla/mux')).to.equal(undefined)
+    })
+})
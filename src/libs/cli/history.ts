@@ -0,0 +1,132 @@
+import * as OmniCLI from 'omnicli'
+
+import storage from '../../browser/storage'
+import { OmniboxHistoryEntry } from '../../browser/types'
+
+/** The number of entries kept in the history. */
+const MAX_HISTORY_ENTRIES = 100
+
+/** The number of visits of an entry that count towards its frecency. */
+const MAX_VISITS = 10
+
+const DAY = 24 * 60 * 60 * 1000
+
+/** How much a visit counts towards the frecency of an entry, by age. */
+const VISIT_WEIGHTS = [
+    { days: 4, weight: 100 },
+    { days: 14, weight: 70 },
+    { days: 31, weight: 50 },
+    { days: 90, weight: 30 },
+]
+
+const OLD_VISIT_WEIGHT = 10
+
+/**
+ * Scores how frequently and recently an entry was visited. Recent visits count
+ * more than old ones.
+ */
+export function frecency({ visits }: OmniboxHistoryEntry, now = Date.now()): number {
+    let score = 0
+    for (const visit of visits) {
+        const weight = VISIT_WEIGHTS.find(({ days }) => now - visit < days * DAY)
+        score += weight ? weight.weight : OLD_VISIT_WEIGHT
+    }
+    return score
+}
+
+/**
+ * Returns the history with a visit of entry added. The least frecent entries
+ * are dropped when the history is full.
+ */
+export function addVisit(
+    history: OmniboxHistoryEntry[],
+    { input, description, type }: Pick<OmniboxHistoryEntry, 'input' | 'description' | 'type'>,
+    now = Date.now()
+): OmniboxHistoryEntry[] {
+    const previous = history.find(entry => entry.input === input)
+    const entry = {
+        input,
+        description,
+        type,
+        visits: [...(previous ? previous.visits : []), now].slice(-MAX_VISITS),
+    }
+    return [entry, ...history.filter(entry => entry.input !== input)]
+        .sort((a, b) => frecency(b, now) - frecency(a, now))
+        .slice(0, MAX_HISTORY_ENTRIES)
+}
+
+/** Returns the entries matching query, most frecent first. */
+export function rankHistory(history: OmniboxHistoryEntry[], query: string, now = Date.now()): OmniboxHistoryEntry[] {
+    const lowerQuery = query.trim().toLowerCase()
+    return history
+        .filter(
+            ({ input, description }) =>
+                input.toLowerCase().includes(lowerQuery) || description.toLowerCase().includes(lowerQuery)
+        )
+        .sort((a, b) => frecency(b, now) - frecency(a, now))
+}
+
+/**
+ * The descriptions of the suggestions shown last, keyed by content. They
+ * describe the entries of selected suggestions, whose content is often a URL.
+ */
+let suggestionDescriptions = new Map<string, string>()
+
+/** The name of the command that made the suggestions shown last, if any. */
+let suggestingCommand: string | undefined
+
+/**
+ * Remembers the suggestions shown for an input. command is the name of the
+ * command that made them, or undefined for suggestions of searches and of the
+ * history.
+ */
+export function rememberSuggestions(suggestions: OmniCLI.Suggestion[], command?: string): void {
+    suggestionDescriptions = new Map(
+        suggestions.map(({ content, description }): [string, string] => [content, description])
+    )
+    suggestingCommand = command
+}
+
+/**
+ * Returns the name of the command that suggested input, if input is the
+ * content of one of the suggestions shown last. Selected suggestions are
+ * entered without the command, so they must be handed back to it.
+ */
+export function getSuggestingCommand(input: string): string | undefined {
+    return suggestionDescriptions.has(input) ? suggestingCommand : undefined
+}
+
+/**
+ * Records a visit of input in the history in local storage. args are the
+ * arguments of the command that handled the input, which are described by the
+ * selected suggestion or, when the input is entered again from the history, by
+ * its entry.
+ */
+export function recordVisit(input: string, args: string, type: OmniboxHistoryEntry['type']): void {
+    storage.getLocal(({ omniboxHistory }) => {
+        const previous = omniboxHistory.find(entry => entry.input === input)
+        const description = suggestionDescriptions.get(args) || (previous ? previous.description : args)
+        storage.setLocal({ omniboxHistory: addVisit(omniboxHistory, { input, description, type }) })
+    })
+}
+
+/** Suggests the bookmarks and the history entries matching query. */
+export function getHistorySuggestions(query: string): Promise<OmniCLI.Suggestion[]> {
+    return new Promise(resolve => {
+        storage.getSync(({ omniboxBookmarks }) => {
+            storage.getLocal(({ omniboxHistory }) => {
+                const lowerQuery = query.trim().toLowerCase()
+                resolve([
+                    ...omniboxBookmarks.filter(input => input.toLowerCase().includes(lowerQuery)).map(input => ({
+                        content: input,
+                        description: `Bookmark - ${input}`,
+                    })),
+                    ...rankHistory(omniboxHistory, query).map(({ input, description, type }) => ({
+                        content: input,
+                        description: `Recent ${type} - ${description}`,
+                    })),
+                ])
+            })
+        })
+    })
+}
@@ -1,45 +1,97 @@
 import * as OmniCLI from 'omnicli'
 
+import { OmniboxHistoryEntry } from '../../browser/types'
+import { createBookmarkCommand } from './bookmark'
 import configCommands from './config'
 import { featureFlagsCommand, toggleFeatureFlagsCommand } from './featureFlags'
 import fileCommand from './file'
+import { getHistorySuggestions, getSuggestingCommand, recordVisit, rememberSuggestions } from './history'
+import repoCommand from './repo'
 import searchCommand from './search'
+import symbolCommand from './symbol'
 
-const commands: OmniCLI.Command[] = [...configCommands, fileCommand, featureFlagsCommand, toggleFeatureFlagsCommand]
+const commands: OmniCLI.Command[] = [
+    ...configCommands,
+    fileCommand,
+    repoCommand,
+    symbolCommand,
+    createBookmarkCommand(execute),
+    featureFlagsCommand,
+    toggleFeatureFlagsCommand,
+]
 
 const searchCli = OmniCLI.createCli({ commands: [searchCommand] })
 
+const PREFIX = ':'
+
 const cli = OmniCLI.createCli({
     commands,
-    prefix: ':',
+    prefix: PREFIX,
 })
 
+/** The commands whose inputs are recorded in the history, by name. */
+const historyTypes: { [name: string]: OmniboxHistoryEntry['type'] } = {
+    [fileCommand.name]: 'file',
+    [repoCommand.name]: 'repo',
+    [symbolCommand.name]: 'symbol',
+}
+
+/** Inputs shorter than this are completed from the bookmarks and history. */
+const MIN_SEARCH_LENGTH = 2
+
+/** Splits a prefixed query into its command, if one has the name or alias, and its arguments. */
+function parseQuery(query: string): { command?: OmniCLI.Command; args: string[] } {
+    const [name, ...args] = query
+        .slice(PREFIX.length)
+        .trim()
+        .split(/\s+/)
+    return { command: commands.find(command => command.name === name || (command.alias || []).includes(name)), args }
+}
+
+function execute(input: string, disposition?: string): void {
+    // A selected suggestion of a command, e.g. the URL of a repository, is
+    // handled by that command, so that it is recorded as its type.
+    const suggestingCommand = !cli.hasPrefix(input) && getSuggestingCommand(input)
+    const query = suggestingCommand ? `${PREFIX}${suggestingCommand} ${input}` : input
+
+    if (!cli.hasPrefix(query)) {
+        searchCli.onInputEntered(query, disposition)
+        recordVisit(query, query.trim(), 'search')
+        return
+    }
+
+    cli.onInputEntered(query, disposition)
+    const { command, args } = parseQuery(query)
+    if (command && historyTypes[command.name] && args.length > 0) {
+        recordVisit(query, args.join(' '), historyTypes[command.name])
+    }
+}
+
 interface InitOptions {
     onInputEntered: (fn: (text: string, disposition: string) => void) => void
     onInputChanged: (fn: (text: string, suggest: (suggestions: OmniCLI.Suggestion[]) => void) => void) => void
 }
 
+function getSuggestions(query: string): Promise<OmniCLI.Suggestion[]> {
+    if (cli.hasPrefix(query)) {
+        return cli.onInputChanged(query)
+    }
+    if (query.trim().length < MIN_SEARCH_LENGTH) {
+        return getHistorySuggestions(query)
+    }
+    return searchCli.onInputChanged(query)
+}
+
 export default function initialize({ onInputEntered, onInputChanged }: InitOptions): void {
     onInputChanged((query, suggest) => {
-        if (cli.hasPrefix(query)) {
-            cli.onInputChanged(query)
-                .then(suggest)
-                .catch(err => console.error('error getting suggestions', err))
-            return
-        }
-
-        searchCli
-            .onInputChanged(query)
-            .then(suggest)
+        getSuggestions(query)
+            .then(suggestions => {
+                const command = cli.hasPrefix(query) ? parseQuery(query).command : undefined
+                rememberSuggestions(suggestions, command && command.name)
+                suggest(suggestions)
+            })
             .catch(err => console.error('error getting suggestions', err))
     })
 
-    onInputEntered((query, disposition) => {
-        if (cli.hasPrefix(query)) {
-            cli.onInputEntered(query, disposition)
-            return
-        }
-
-        searchCli.onInputEntered(query, disposition)
-    })
+    onInputEntered(execute)
 }
@@ -0,0 +1,98 @@
+import { expect } from 'chai'
+import { afterEach, beforeEach, describe, it } from 'mocha'
+import { DEFAULT_SOURCEGRAPH_URL } from '../../shared/util/context'
+import { resetStorage } from '../../testing/chrome'
+import { stubNetwork } from '../../testing/network'
+import { MockSourcegraphServer, useSourcegraphURL } from '../../testing/server'
+import repoCommand from './repo'
+
+describe(':repo command', () => {
+    let restoreNetwork: () => void
+    let queries: string[]
+
+    beforeEach(() => {
+        useSourcegraphURL(DEFAULT_SOURCEGRAPH_URL)
+        resetStorage()
+        queries = []
+        const server = new MockSourcegraphServer(DEFAULT_SOURCEGRAPH_URL, {
+            repositories: {
+                'github.com/gorilla/mux': { revisions: {}, files: {} },
+                'github.com/gorilla/websocket': { revisions: {}, files: {} },
+            },
+        })
+        const { handlers } = server
+        const repositories = handlers[`${DEFAULT_SOURCEGRAPH_URL}/.api/graphql?Repositories`]
+        handlers[`${DEFAULT_SOURCEGRAPH_URL}/.api/graphql?Repositories`] = request => {
+            queries.push(request.body.variables.query)
+            return repositories(request)
+        }
+        restoreNetwork = stubNetwork(handlers)
+    })
+
+    afterEach(() => restoreNetwork())
+
+    describe('suggestions', () => {
+        const getSuggestions = (args: string[]) => Promise.resolve(repoCommand.getSuggestions!(args))
+
+        it('suggests the matching repositories on their code host', async () => {
+            resetStorage({ openFileOnSourcegraph: false })
+            expect(await getSuggestions(['gorilla'])).to.deep.equal([
+                { content: 'https://github.com/gorilla/mux', description: 'github.com/gorilla/mux - go to repository' },
+                {
+                    content: 'https://github.com/gorilla/websocket',
+                    description: 'github.com/gorilla/websocket - go to repository',
+                },
+            ])
+            expect(queries).to.deep.equal(['gorilla'])
+        })
+
+        it('suggests the repositories on Sourcegraph when files are opened on Sourcegraph', async () => {
+            resetStorage({ openFileOnSourcegraph: true })
+            expect((await getSuggestions(['mux'])).map(({ content }) => content)).to.deep.equal([
+                `${DEFAULT_SOURCEGRAPH_URL}/github.com/gorilla/mux`,
+            ])
+        })
+
+        it('suggests nothing without a query', async () => {
+            expect(await getSuggestions([])).to.deep.equal([])
+            expect(queries).to.deep.equal([])
+        })
+    })
+
+    describe('action', () => {
+        let opened: Promise<string>
+
+        beforeEach(() => {
+            opened = new Promise(resolve => {
+                Object.assign(chrome, { tabs: { update: ({ url }: chrome.tabs.UpdateProperties) => resolve(url) } })
+            })
+        })
+
+        afterEach(() => {
+            delete (chrome as any).tabs
+        })
+
+        it('opens a selected suggestion', async () => {
+            repoCommand.action(['https://github.com/gorilla/websocket'])
+            expect(await opened).to.equal('https://github.com/gorilla/websocket')
+            expect(queries).to.deep.equal([])
+        })
+
+        it('opens the best matching repository', async () => {
+            resetStorage({ openFileOnSourcegraph: false })
+            repoCommand.action(['mux'])
+            expect(await opened).to.equal('https://github.com/gorilla/mux')
+        })
+
+        it('opens the best matching repository on Sourcegraph when files are opened on Sourcegraph', async () => {
+            resetStorage({ openFileOnSourcegraph: true })
+            repoCommand.action(['mux'])
+            expect(await opened).to.equal(`${DEFAULT_SOURCEGRAPH_URL}/github.com/gorilla/mux`)
+        })
+
+        it('searches the repositories when none matches', async () => {
+            repoCommand.action(['missing'])
+            expect(await opened).to.equal(`${DEFAULT_SOURCEGRAPH_URL}/search?q=repo:missing`)
+        })
+    })
+})
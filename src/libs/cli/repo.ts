@@ -0,0 +1,85 @@
+import * as OmniCLI from 'omnicli'
+
+import storage from '../../browser/storage'
+
+import { fetchRepositories } from '../../shared/backend/search'
+import { sourcegraphUrl } from '../../shared/util/context'
+import { buildSearchURLQuery } from '../../shared/util/url'
+import { GQL } from '../../types/gqlschema'
+import { executeEnter } from './util'
+
+const isURL = /^https?:\/\//
+
+const getOpenOnSourcegraph = () =>
+    new Promise<boolean>(resolve => storage.getSync(({ openFileOnSourcegraph }) => resolve(openFileOnSourcegraph)))
+
+/**
+ * Returns the URL of the repository's page on Sourcegraph or, if it has one,
+ * on its code host.
+ */
+function getRepositoryURL({ url, externalURLs }: GQL.IRepository, openOnSourcegraph: boolean): string {
+    if (!openOnSourcegraph && externalURLs && externalURLs.length > 0) {
+        return externalURLs[0].url
+    }
+    return `${sourcegraphUrl}${url}`
+}
+
+async function getRepoSuggestions([query]: string[]): Promise<OmniCLI.Suggestion[]> {
+    if (!query) {
+        return []
+    }
+
+    try {
+        const [repositories, openOnSourcegraph] = await Promise.all([
+            fetchRepositories(query, 5).toPromise(),
+            getOpenOnSourcegraph(),
+        ])
+        return repositories.map(repository => ({
+            content: getRepositoryURL(repository, openOnSourcegraph),
+            description: `${repository.uri} - go to repository`,
+        }))
+    } catch (err) {
+        console.error('error fetching repositories', err)
+        return []
+    }
+}
+
+/**
+ * Opens the selected repository suggestion or, for typed input, the best
+ * matching repository. Falls back to a repository search on Sourcegraph.
+ */
+async function openRepo([query]: string[], disposition?: string): Promise<void> {
+    if (!query) {
+        return
+    }
+    if (isURL.test(query)) {
+        executeEnter({ url: query }, disposition)
+        return
+    }
+
+    let url = `${sourcegraphUrl}/search?${buildSearchURLQuery(`repo:${query}`)}`
+    try {
+        const [[repository], openOnSourcegraph] = await Promise.all([
+            fetchRepositories(query, 1).toPromise(),
+            getOpenOnSourcegraph(),
+        ])
+        if (repository) {
+            url = getRepositoryURL(repository, openOnSourcegraph)
+        }
+    } catch (err) {
+        console.error('error fetching repositories', err)
+    }
+    executeEnter({ url }, disposition)
+}
+
+const repoCommand: OmniCLI.Command = {
+    name: 'repo',
+    alias: ['r'],
+    action: (args: string[], disposition?: string) => {
+        openRepo(args, disposition).catch(err => console.error('error opening repository', err))
+    },
+    getSuggestions: getRepoSuggestions,
+    description: 'Go to a repository',
+}
+
+export default repoCommand
@@ -2,11 +2,11 @@ import { first } from 'lodash'
 import * as OmniCLI from 'omnicli'
 
 import storage from '../../browser/storage'
-import * as tabs from '../../browser/tabs'
 
 import { createSuggestionFetcher } from '../../shared/backend/search'
 import { sourcegraphUrl } from '../../shared/util/context'
 import { buildSearchURLQuery } from '../../shared/util/url'
+import { executeEnter } from './util'
 
 const isURL = /^https?:\/\//
 
@@ -55,18 +55,7 @@ class SearchCommand implements OmniCLI.Command {
                 url: isURL.test(query) ? query : `${url}/search?${buildSearchURLQuery(query)}&utm_source=omnibox`,
             }
 
-            switch (disposition) {
-                case 'newForegroundTab':
-                    tabs.create(props)
-                    break
-                case 'newBackgroundTab':
-                    tabs.create({ ...props, active: false })
-                    break
-                case 'currentTab':
-                default:
-                    tabs.update(props)
-                    break
-            }
+            executeEnter(props, disposition)
         })
     }
 }
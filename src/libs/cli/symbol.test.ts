@@ -0,0 +1,113 @@
+import { expect } from 'chai'
+import { afterEach, beforeEach, describe, it } from 'mocha'
+import { DEFAULT_SOURCEGRAPH_URL, repoUrlCache } from '../../shared/util/context'
+import { stubNetwork } from '../../testing/network'
+import { MockSourcegraphServer, useSourcegraphURL } from '../../testing/server'
+import symbolCommand, { getSymbolURL, parseSymbolQuery } from './symbol'
+
+const symbol = (externalURLs: { url: string; serviceType: string }[], name = 'NewRouter', kind = 'FUNCTION'): any => ({
+    name,
+    kind,
+    location: {
+        resource: { path: 'mux.go', repository: { uri: 'github.com/gorilla/mux' }, externalURLs },
+        range: { start: { line: 24 } },
+        url: '/github.com/gorilla/mux/-/blob/mux.go#L25:6',
+    },
+})
+
+describe(':symbol command', () => {
+    describe('parseSymbolQuery', () => {
+        it('separates kind filters from the query', () => {
+            expect(parseSymbolQuery(['kind:Function', 'repo:gorilla/mux', 'NewRouter', 'kind:method'])).to.deep.equal({
+                query: 'repo:gorilla/mux NewRouter',
+                kinds: ['function', 'method'],
+            })
+        })
+    })
+
+    describe('getSymbolURL', () => {
+        it('links to the line of the definition on the code host', () => {
+            expect(
+                getSymbolURL(
+                    symbol([{ url: 'https://github.com/gorilla/mux/blob/master/mux.go', serviceType: 'github' }])
+                )
+            ).to.equal('https://github.com/gorilla/mux/blob/master/mux.go#L25')
+        })
+
+        it('links to the file on code hosts without line anchors', () => {
+            expect(
+                getSymbolURL(symbol([{ url: 'https://git.example.com/mux/mux.go', serviceType: 'gitolite' }]))
+            ).to.equal('https://git.example.com/mux/mux.go')
+        })
+
+        it('links to Sourcegraph when the code host is unknown', () => {
+            useSourcegraphURL('https://sourcegraph.example.com')
+            repoUrlCache['github.com/gorilla/mux'] = 'https://sourcegraph.com'
+            expect(getSymbolURL(symbol([]))).to.equal(
+                'https://sourcegraph.com/github.com/gorilla/mux/-/blob/mux.go#L25:6'
+            )
+        })
+    })
+
+    describe('suggestions', () => {
+        let restoreNetwork: () => void
+        let queries: string[]
+
+        beforeEach(() => {
+            useSourcegraphURL(DEFAULT_SOURCEGRAPH_URL)
+            queries = []
+            const github = [{ url: 'https://github.com/gorilla/mux/blob/master/mux.go', serviceType: 'github' }]
+            const server = new MockSourcegraphServer(DEFAULT_SOURCEGRAPH_URL, {
+                graphQL: {
+                    SearchResults: ({ query }) => {
+                        queries.push(query)
+                        return {
+                            data: {
+                                search: {
+                                    results: {
+                                        results: [
+                                            {
+                                                symbols: [
+                                                    symbol(github, 'Router', 'STRUCT'),
+                                                    symbol(github, 'NewRouter', 'FUNCTION'),
+                                                ],
+                                            },
+                                        ],
+                                    },
+                                },
+                            },
+                        }
+                    },
+                },
+            })
+            restoreNetwork = stubNetwork(server.handlers)
+        })
+
+        afterEach(() => restoreNetwork())
+
+        const getSuggestions = (args: string[]) =>
+            Promise.resolve(symbolCommand.getSuggestions!(args)).then(suggestions =>
+                suggestions.map(({ description }) => description)
+            )
+
+        it('suggests the matching symbols', async () => {
+            expect(await getSuggestions(['repo:gorilla/mux', 'Router'])).to.deep.equal([
+                '[struct] Router - mux.go - github.com/gorilla/mux',
+                '[function] NewRouter - mux.go - github.com/gorilla/mux',
+            ])
+            expect(queries).to.deep.equal(['type:symbol repo:gorilla/mux Router'])
+        })
+
+        it('fetches more symbols to keep those of the kinds asked for', async () => {
+            expect(await getSuggestions(['kind:function', 'repo:gorilla/mux', 'Router'])).to.deep.equal([
+                '[function] NewRouter - mux.go - github.com/gorilla/mux',
+            ])
+            expect(queries).to.deep.equal(['type:symbol count:200 repo:gorilla/mux Router'])
+        })
+
+        it('keeps the count of the query', async () => {
+            await getSuggestions(['kind:function', 'count:50', 'Router'])
+            expect(queries).to.deep.equal(['type:symbol count:50 Router'])
+        })
+    })
+})
@@ -0,0 +1,135 @@
+import * as OmniCLI from 'omnicli'
+
+import { getContext } from '../../shared/backend/context'
+import { fetchSymbols } from '../../shared/backend/search'
+import { getSymbolKindLabel } from '../../shared/components/symbols/SymbolIcon'
+import { getSourcegraphURLForRepo, sourcegraphUrl } from '../../shared/util/context'
+import { buildSearchURLQuery } from '../../shared/util/url'
+import { GQL } from '../../types/gqlschema'
+import { executeEnter } from './util'
+
+const isURL = /^https?:\/\//
+
+/** A symbol search entered in the omnibox, e.g. `kind:function repo:gorilla/mux NewRouter`. */
+export interface SymbolQuery {
+    /** The search query, with the `repo:` filters and without the `kind:` filters. */
+    query: string
+    /** The symbol kinds (lowercase) to keep. All kinds are kept if empty. */
+    kinds: string[]
+}
+
+export function parseSymbolQuery(args: string[]): SymbolQuery {
+    const terms: string[] = []
+    const kinds: string[] = []
+    for (const arg of args) {
+        if (arg.startsWith('kind:')) {
+            kinds.push(arg.slice('kind:'.length).toLowerCase())
+        } else if (arg) {
+            terms.push(arg)
+        }
+    }
+    return { query: terms.join(' '), kinds }
+}
+
+/** Formats a line number as the anchor of a file URL on a code host, by service type. */
+const lineAnchors: { [serviceType: string]: (line: number) => string } = {
+    github: line => `#L${line}`,
+    gitlab: line => `#L${line}`,
+    bitbucketServer: line => `#${line}`,
+    phabricator: line => `$${line}`,
+}
+
+/**
+ * Returns the URL of the symbol's definition on the code host of its
+ * repository or, if Sourcegraph doesn't know its code host, on Sourcegraph.
+ */
+export function getSymbolURL({ location }: GQL.ISymbol): string {
+    const { externalURLs } = location.resource
+    const externalURL = externalURLs && externalURLs[0]
+    if (externalURL) {
+        const lineAnchor = lineAnchors[externalURL.serviceType || '']
+        return location.range && lineAnchor
+            ? `${externalURL.url}${lineAnchor(location.range.start.line + 1)}`
+            : externalURL.url
+    }
+
+    const repoPath = location.resource.repository.uri
+    return `${getSourcegraphURLForRepo(repoPath)}${location.url}`
+}
+
+/** The number of symbol suggestions shown. */
+const MAX_SUGGESTIONS = 10
+
+/**
+ * The number of symbols to fetch for queries with `kind:` filters. Sourcegraph
+ * can't filter symbols by kind, so the symbols are filtered after they are
+ * fetched, and more are fetched than for other queries for enough of them to
+ * be of the kinds asked for.
+ */
+const KIND_FILTERED_COUNT = 200
+
+const fetchMatchingSymbols = ({ query, kinds }: SymbolQuery): Promise<GQL.ISymbol[]> => {
+    // Queries that set their own count keep it.
+    const count = kinds.length > 0 && !/(^|\s)count:/.test(query) ? `count:${KIND_FILTERED_COUNT} ` : ''
+    return fetchSymbols({ query: `type:symbol ${count}${query}` }, getContext({ repoKey: '', isRepoSpecific: false }))
+        .toPromise()
+        .then(symbols => symbols.filter(({ kind }) => kinds.length === 0 || kinds.includes(getSymbolKindLabel(kind))))
+}
+
+async function getSymbolSuggestions(args: string[]): Promise<OmniCLI.Suggestion[]> {
+    const symbolQuery = parseSymbolQuery(args)
+    if (symbolQuery.query.length < 2) {
+        return []
+    }
+
+    try {
+        const symbols = await fetchMatchingSymbols(symbolQuery)
+        return symbols.slice(0, MAX_SUGGESTIONS).map(symbol => ({
+            content: getSymbolURL(symbol),
+            description: `[${getSymbolKindLabel(symbol.kind)}] ${symbol.name} - ${symbol.containerName ||
+                symbol.location.resource.path} - ${symbol.location.resource.repository.uri}`,
+        }))
+    } catch (err) {
+        console.error('error fetching symbols', err)
+        return []
+    }
+}
+
+/**
+ * Opens the selected symbol suggestion or, for typed input, the definition of
+ * the first matching symbol. Falls back to a symbol search on Sourcegraph.
+ */
+async function openSymbol(args: string[], disposition?: string): Promise<void> {
+    if (args.length === 1 && isURL.test(args[0])) {
+        executeEnter({ url: args[0] }, disposition)
+        return
+    }
+
+    const symbolQuery = parseSymbolQuery(args)
+    if (!symbolQuery.query) {
+        return
+    }
+
+    let url = `${sourcegraphUrl}/search?${buildSearchURLQuery(`type:symbol ${symbolQuery.query}`)}`
+    try {
+        const [symbol] = await fetchMatchingSymbols(symbolQuery)
+        if (symbol) {
+            url = getSymbolURL(symbol)
+        }
+    } catch (err) {
+        console.error('error fetching symbols', err)
+    }
+    executeEnter({ url }, disposition)
+}
+
+const symbolCommand: OmniCLI.Command = {
+    name: 'symbol',
+    alias: ['s'],
+    action: (args: string[], disposition?: string) => {
+        openSymbol(args, disposition).catch(err => console.error('error opening symbol', err))
+    },
+    getSuggestions: getSymbolSuggestions,
+    description: 'Go to the definition of a symbol, e.g. kind:function repo:gorilla/mux NewRouter',
+}
+
+export default symbolCommand
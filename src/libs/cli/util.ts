@@ -0,0 +1,17 @@
+import * as tabs from '../../browser/tabs'
+
+/** Opens props in a tab, as the disposition of the omnibox input asks. */
+export function executeEnter(props: chrome.tabs.CreateProperties, disposition?: string): void {
+    switch (disposition) {
+        case 'newForegroundTab':
+            tabs.create(props)
+            break
+        case 'newBackgroundTab':
+            tabs.create({ ...props, active: false })
+            break
+        case 'currentTab':
+        default:
+            tabs.update(props)
+            break
+    }
+}
@@ -14,22 +14,48 @@ import { propertyIsDefined } from '@sourcegraph/codeintellify/lib/helpers'
 import { HoverMerged } from '@sourcegraph/codeintellify/lib/types'
 import { toPrettyBlobURL } from '@sourcegraph/codeintellify/lib/url'
 import * as React from 'react'
-import { render } from 'react-dom'
-import { animationFrameScheduler, BehaviorSubject, Observable, of, Subject, Subscription } from 'rxjs'
-import { filter, map, mergeMap, observeOn, withLatestFrom } from 'rxjs/operators'
+import { createPortal, render, unmountComponentAtNode } from 'react-dom'
+import { animationFrameScheduler, BehaviorSubject, merge, Observable, of, Subject, Subscription } from 'rxjs'
+import {
+    catchError,
+    filter,
+    map,
+    mergeMap,
+    observeOn,
+    share,
+    startWith,
+    switchMap,
+    takeUntil,
+    tap,
+    withLatestFrom,
+} from 'rxjs/operators'
 
 import { TextDocumentItem } from 'sourcegraph/module/client/types/textDocument'
 import { Disposable } from 'vscode-jsonrpc'
-import { createJumpURLFetcher, createLSPFromExtensions, JumpURLLocation } from '../../shared/backend/lsp'
+import { asError } from '../../shared/backend/errors'
+import {
+    createDefinitionsFetcher,
+    createLSPFromExtensions,
+    JumpURLLocation,
+    toJumpURLFetcher,
+} from '../../shared/backend/lsp'
 import { lspViaAPIXlang, toTextDocumentIdentifier } from '../../shared/backend/lsp'
 import { ButtonProps, CodeViewToolbar } from '../../shared/components/CodeViewToolbar'
+import { HoverDefinitionPicker } from '../../shared/components/DefinitionPicker'
+import { ReferencesPanel, toReference } from '../../shared/components/ReferencesPanel'
 import { AbsoluteRepoFile } from '../../shared/repo'
 import { eventLogger, getModeFromPath, sourcegraphUrl, useExtensions } from '../../shared/util/context'
+import { navigationEvents } from '../../shared/util/navigation'
+import { bitbucketServerCodeHost } from '../bitbucket/code_intelligence'
+import { gerritCodeHost } from '../gerrit/code_intelligence'
+import { giteaCodeHost } from '../gitea/code_intelligence'
 import { githubCodeHost } from '../github/code_intelligence'
 import { gitlabCodeHost } from '../gitlab/code_intelligence'
 import { phabricatorCodeHost } from '../phabricator/code_intelligence'
-import { findCodeViews, getContentOfCodeView } from './code_views'
+import { AddedCodeViewEvent, findCodeViews, getContentOfCodeView, RemovedCodeViewEvent } from './code_views'
 import { applyDecoration, Controllers, initializeExtensions } from './extensions'
+import { FileFinderFeature, initFileFinder } from './file_finder'
+import { FileTreeFeature, initFileTree } from './file_tree'
 import { initSearch, SearchFeature } from './search'
 
 /**
@@ -117,6 +143,14 @@ export interface CodeHost {
      */
     codeViewResolver?: CodeViewResolver
 
+    /**
+     * Emits the DOM nodes to search for code views in. Defaults to
+     * `document.body`. Code hosts that render code views inside of shadow DOM
+     * need to provide the shadow roots, since they can't be reached from the
+     * document.
+     */
+    getCodeViewContainers?: () => Observable<ParentNode & Node>
+
     /**
      * Adjust the position of the hover overlay. Useful for fixed headers or other
      * elements that throw off the position of the tooltip within the relative
@@ -129,6 +163,25 @@ export interface CodeHost {
      */
     search?: SearchFeature
 
+    /**
+     * Implementation of the file finder feature for a code host.
+     */
+    fileFinder?: FileFinderFeature
+
+    /**
+     * Implementation of the file tree sidebar feature for a code host.
+     */
+    fileTree?: FileTreeFeature
+
+    /**
+     * Called when the page navigates to a new URL without a full page reload
+     * (see `navigationEvents`), after the code views of the previous URL were
+     * cleaned up and before the code views of the new page are looked for.
+     * Code hosts should remove anything they added to the page for the
+     * previous URL outside of code views.
+     */
+    reset?: () => void
+
     // Extensions related input
 
     /**
@@ -187,9 +240,13 @@ export interface FileInfo {
     baseHasFileContents?: boolean
 }
 
+/** The hovered token, along with the file it is in. */
+type HoveredTokenWithContext = NonNullable<NonNullable<HoverState['hoverOverlayProps']>['hoveredToken']>
+
 /**
  * Prepares the page for code intelligence. It creates the hoverifier, injects
- * and mounts the hover overlay and then returns the hoverifier.
+ * and mounts the hover overlay and then returns the hoverifier, along with the
+ * subscription of the references panel.
  *
  * @param codeHost
  */
@@ -199,10 +256,12 @@ function initCodeIntelligence(
 ): {
     hoverifier: Hoverifier
     controllers: Partial<Controllers>
+    subscription: Subscription
 } {
+    const { getCommandPaletteMount, getGlobalDebugMount } = codeHost
     const { extensionsContextController, extensionsController }: Partial<Controllers> =
-        useExtensions && codeHost.getCommandPaletteMount
-            ? initializeExtensions(codeHost.getCommandPaletteMount, documents)
+        useExtensions && getCommandPaletteMount
+            ? initializeExtensions({ getCommandPaletteMount, getGlobalDebugMount }, documents)
             : {}
     const simpleProviderFns = extensionsController ? createLSPFromExtensions(extensionsController) : lspViaAPIXlang
 
@@ -218,26 +277,65 @@ function initCodeIntelligence(
     const hoverOverlayElements = new Subject<HTMLElement | null>()
     const nextOverlayElement = (element: HTMLElement | null) => hoverOverlayElements.next(element)
 
+    /** Emits the token to find references for when the find references button was clicked, `null` closes the panel */
+    const findReferencesRequests = new Subject<HoveredTokenWithContext | null>()
+
     const classNames = ['hover-overlay-mount', `hover-overlay-mount__${codeHost.name}`]
 
-    const createMount = () => {
-        const overlayMount = document.createElement('div')
-        overlayMount.style.height = '0px'
-        for (const className of classNames) {
-            overlayMount.classList.add(className)
+    const createMount = (mountClassNames: string[]) => {
+        const mount = document.createElement('div')
+        mount.style.height = '0px'
+        for (const className of mountClassNames) {
+            mount.classList.add(className)
         }
-        document.body.appendChild(overlayMount)
-        return overlayMount
+        document.body.appendChild(mount)
+        return mount
     }
 
-    const overlayMount = document.querySelector(`.${classNames.join('.')}`) || createMount()
+    const overlayMount = document.querySelector(`.${classNames.join('.')}`) || createMount(classNames)
 
     const relativeElement = document.body
 
-    const fetchJumpURL = createJumpURLFetcher(
-        simpleProviderFns.fetchDefinition,
-        codeHost.buildJumpURLLocation || toPrettyBlobURL
-    )
+    const buildJumpURLLocation = codeHost.buildJumpURLLocation || toPrettyBlobURL
+
+    const fetchDefinitions = createDefinitionsFetcher(simpleProviderFns.fetchDefinition, buildJumpURLLocation)
+
+    const fetchJumpURL = toJumpURLFetcher(fetchDefinitions)
+
+    const referencesPanelMount =
+        document.querySelector(`.references-panel-mount__${codeHost.name}`) ||
+        createMount([`references-panel-mount__${codeHost.name}`])
+
+    const closeReferencesPanel = () => findReferencesRequests.next(null)
+
+    const subscription = findReferencesRequests
+        .pipe(
+            switchMap(token => {
+                if (!token) {
+                    return of(null)
+                }
+
+                const { line, character, part, ...rest } = token
+                return simpleProviderFns.fetchReferences({ ...rest, position: { line, character } }).pipe(
+                    map(locations => locations.map(location => toReference(location, token, buildJumpURLLocation))),
+                    catchError(err => [asError(err)]),
+                    map((referencesOrError): ReferencesPanel['props']['referencesOrError'] => referencesOrError),
+                    startWith(undefined)
+                )
+            })
+        )
+        .subscribe(referencesOrError => {
+            if (referencesOrError === null) {
+                unmountComponentAtNode(referencesPanelMount)
+                return
+            }
+
+            render(
+                <ReferencesPanel referencesOrError={referencesOrError} onClose={closeReferencesPanel} />,
+                referencesPanelMount
+            )
+        })
+    subscription.add(() => unmountComponentAtNode(referencesPanelMount))
 
     const containerComponentUpdates = new Subject<void>()
 
@@ -267,7 +365,15 @@ function initCodeIntelligence(
         </a>
     )
 
-    class HoverOverlayContainer extends React.Component<{}, HoverState> {
+    type HoverOverlayContainerState = HoverState & {
+        /** The element in the hover overlay that holds the actions, e.g. "Go to definition". */
+        actionsElement?: HTMLElement | null
+    }
+
+    class HoverOverlayContainer extends React.Component<{}, HoverOverlayContainerState> {
+        private hoverOverlayElement: HTMLElement | null = null
+        private definitionPicker: HoverDefinitionPicker | null = null
+
         constructor(props: {}) {
             super(props)
             this.state = hoverifier.hoverState
@@ -278,20 +384,67 @@ function initCodeIntelligence(
         }
         public componentDidUpdate(): void {
             containerComponentUpdates.next()
+
+            // The actions are rendered by `HoverOverlay`, so we only know where
+            // to put the find references button after it was rendered.
+            const actionsElement =
+                this.hoverOverlayElement &&
+                this.hoverOverlayElement.querySelector<HTMLElement>('.hover-overlay__actions')
+            if (actionsElement !== this.state.actionsElement) {
+                this.setState({ actionsElement })
+            }
         }
         public render(): JSX.Element | null {
             const hoverOverlayProps = this.getHoverOverlayProps()
             return hoverOverlayProps ? (
-                <HoverOverlay
-                    {...hoverOverlayProps}
-                    linkComponent={Link}
-                    logTelemetryEvent={this.log}
-                    hoverRef={nextOverlayElement}
-                    onGoToDefinitionClick={nextGoToDefinitionClick}
-                    onCloseButtonClick={nextCloseButtonClick}
-                />
+                <>
+                    <HoverOverlay
+                        {...hoverOverlayProps}
+                        linkComponent={Link}
+                        logTelemetryEvent={this.log}
+                        hoverRef={this.nextOverlayElement}
+                        onGoToDefinitionClick={this.onGoToDefinitionClick}
+                        onCloseButtonClick={nextCloseButtonClick}
+                    />
+                    {this.state.actionsElement &&
+                        hoverOverlayProps.hoveredToken &&
+                        createPortal(
+                            <button
+                                className="btn btn-secondary hover-overlay__action e2e-tooltip-find-references"
+                                onClick={this.findReferences}
+                            >
+                                Find references
+                            </button>,
+                            this.state.actionsElement
+                        )}
+                    <HoverDefinitionPicker
+                        hoveredToken={hoverOverlayProps.hoveredToken}
+                        fetchDefinitions={fetchDefinitions}
+                        hoverOverlayElement={this.hoverOverlayElement}
+                        ref={this.setDefinitionPicker}
+                    />
+                </>
             ) : null
         }
+        private nextOverlayElement = (element: HTMLElement | null) => {
+            this.hoverOverlayElement = element
+            nextOverlayElement(element)
+        }
+        private setDefinitionPicker = (definitionPicker: HoverDefinitionPicker | null) => {
+            this.definitionPicker = definitionPicker
+        }
+        private onGoToDefinitionClick = (event: MouseEvent) => {
+            // Let the user pick one of the definitions instead of jumping to the first one.
+            if (!this.definitionPicker || !this.definitionPicker.onGoToDefinitionClick(event)) {
+                nextGoToDefinitionClick(event)
+            }
+        }
+        private findReferences = () => {
+            const hoverOverlayProps = this.getHoverOverlayProps()
+            if (hoverOverlayProps && hoverOverlayProps.hoveredToken) {
+                findReferencesRequests.next(hoverOverlayProps.hoveredToken)
+            }
+        }
         private log = () => eventLogger.logCodeIntelligenceEvent()
         private getHoverOverlayProps(): HoverState['hoverOverlayProps'] {
             if (!this.state.hoverOverlayProps) {
@@ -312,7 +465,7 @@ function initCodeIntelligence(
 
     render(<HoverOverlayContainer />, overlayMount)
 
-    return { hoverifier, controllers: { extensionsContextController, extensionsController } }
+    return { hoverifier, controllers: { extensionsContextController, extensionsController }, subscription }
 }
 
 /**
@@ -325,31 +478,99 @@ export interface ResolvedCodeView extends CodeViewWithOutSelector {
 }
 
 function handleCodeHost(codeHost: CodeHost): Subscription {
+    const subscriptions = new Subscription()
+
     if (codeHost.search) {
         initSearch(codeHost.search)
     }
 
+    if (codeHost.fileFinder) {
+        subscriptions.add(initFileFinder(codeHost.fileFinder, codeHost.name))
+    }
+
+    if (codeHost.fileTree) {
+        subscriptions.add(initFileTree(codeHost.fileTree))
+    }
+
     const documentsSubject = new BehaviorSubject<TextDocumentItem[] | null>([])
     const {
         hoverifier,
         controllers: { extensionsContextController, extensionsController },
+        subscription,
     } = initCodeIntelligence(codeHost, documentsSubject)
 
-    const subscriptions = new Subscription()
-
     subscriptions.add(hoverifier)
+    subscriptions.add(subscription)
 
     // Keeps track of all documents on the page since calling this function (should be once per page).
     let documents: TextDocumentItem[] = []
 
+    // Subscriptions for each code view on the page, unsubscribed from when the code view is removed.
+    const codeViewSubscriptions = new Map<HTMLElement, Subscription>()
+
+    const unsubscribeFromCodeView = (codeView: HTMLElement) => {
+        const codeViewSubscription = codeViewSubscriptions.get(codeView)
+        if (codeViewSubscription) {
+            codeViewSubscriptions.delete(codeView)
+            subscriptions.remove(codeViewSubscription)
+            codeViewSubscription.unsubscribe()
+        }
+    }
+
+    const containers = codeHost.getCodeViewContainers ? codeHost.getCodeViewContainers() : of(document.body)
+
+    const navigations = navigationEvents.pipe(
+        tap(() => {
+            // Code views that are still on the page get found again with the
+            // file info for the new URL.
+            for (const [codeView, codeViewSubscription] of codeViewSubscriptions) {
+                subscriptions.remove(codeViewSubscription)
+                codeViewSubscription.unsubscribe()
+                codeView.classList.remove('sg-mounted')
+            }
+            codeViewSubscriptions.clear()
+
+            if (codeHost.reset) {
+                codeHost.reset()
+            }
+
+            if (codeHost.search) {
+                initSearch(codeHost.search)
+            }
+        }),
+        share()
+    )
+
+    const codeViewEvents = merge(containers, navigations.pipe(mergeMap(() => containers))).pipe(
+        findCodeViews(codeHost),
+        share()
+    )
+
+    const removedCodeViews = codeViewEvents.pipe(
+        filter((event): event is RemovedCodeViewEvent => event.type === 'removed'),
+        map(({ codeView }) => codeView)
+    )
+
+    subscriptions.add(removedCodeViews.subscribe(unsubscribeFromCodeView))
+
     subscriptions.add(
-        of(document.body)
+        codeViewEvents
             .pipe(
-                findCodeViews(codeHost),
+                filter((event): event is AddedCodeViewEvent => event.type === 'added'),
                 mergeMap(({ codeView, resolveFileInfo, ...rest }) =>
-                    resolveFileInfo(codeView).pipe(map(info => ({ info, codeView, ...rest })))
+                    resolveFileInfo(codeView).pipe(
+                        map(info => ({ info, codeView, ...rest })),
+                        takeUntil(
+                            merge(
+                                removedCodeViews.pipe(filter(removedCodeView => removedCodeView === codeView)),
+                                navigations
+                            )
+                        )
+                    )
                 ),
-                observeOn(animationFrameScheduler)
+                observeOn(animationFrameScheduler),
+                // The code view could have been removed while waiting for the animation frame.
+                filter(({ codeView }) => codeView.isConnected)
             )
             .subscribe(
                 ({
@@ -362,6 +583,13 @@ function handleCodeHost(codeHost: CodeHost): Subscription {
                     getToolbarMount,
                     toolbarButtonProps,
                 }) => {
+                    // resolveFileInfo can emit more than once for a code view,
+                    // which then replaces what was done for the previous file info.
+                    unsubscribeFromCodeView(codeView)
+                    const codeViewSubscription = new Subscription()
+                    codeViewSubscriptions.set(codeView, codeViewSubscription)
+                    subscriptions.add(codeViewSubscription)
+
                     const toURIWithPath = (ctx: AbsoluteRepoFile) =>
                         `git://${ctx.repoPath}?${ctx.commitID}#${ctx.filePath}`
 
@@ -381,9 +609,17 @@ function handleCodeHost(codeHost: CodeHost): Subscription {
                     if (extensionsController) {
                         const { content, baseContent } = getContentOfCodeView(codeView, { isDiff, getLineRanges, dom })
 
-                        documents = [
-                            // All the currently open documents
-                            ...documents,
+                        // The BASE side of a diff, if the code view is one.
+                        const baseFile: AbsoluteRepoFile | undefined =
+                            baseContent && info.baseCommitID
+                                ? {
+                                      repoPath: info.baseRepoPath || info.repoPath,
+                                      commitID: info.baseCommitID,
+                                      filePath: info.baseFilePath || info.filePath,
+                                  }
+                                : undefined
+
+                        const codeViewDocuments: TextDocumentItem[] = [
                             // Either a normal file, or HEAD when codeView is a diff
                             {
                                 uri: toURIWithPath(info),
@@ -391,44 +627,69 @@ function handleCodeHost(codeHost: CodeHost): Subscription {
                                 text: content,
                             },
                             // When codeView is a diff, add BASE too
-                            ...(baseContent && info.baseRepoPath && info.baseCommitID && info.baseFilePath
+                            ...(baseFile && baseContent
                                 ? [
                                       {
-                                          uri: toURIWithPath({
-                                              repoPath: info.baseRepoPath,
-                                              commitID: info.baseCommitID,
-                                              filePath: info.baseFilePath,
-                                          }),
-                                          languageId: getModeFromPath(info.filePath) || 'could not determine mode',
+                                          uri: toURIWithPath(baseFile),
+                                          languageId: getModeFromPath(baseFile.filePath) || 'could not determine mode',
                                           text: baseContent,
                                       },
                                   ]
                                 : []),
                         ]
 
-                        if (extensionsController && !info.baseCommitID) {
+                        documents = [
+                            // All the currently open documents
+                            ...documents,
+                            ...codeViewDocuments,
+                        ]
+                        codeViewSubscription.add(() => {
+                            documents = documents.filter(textDocument => !codeViewDocuments.includes(textDocument))
+                            documentsSubject.next(documents)
+                        })
+
+                        const { textDocumentDecoration } = extensionsController.registries
+                        const decorate = (file: AbsoluteRepoFile, part?: DiffPart) => {
                             let oldDecorations: Disposable[] = []
 
-                            extensionsController.registries.textDocumentDecoration
-                                .getDecorations(toTextDocumentIdentifier(info))
-                                .subscribe(decorations => {
-                                    for (const old of oldDecorations) {
-                                        old.dispose()
-                                    }
-                                    oldDecorations = []
-                                    for (const decoration of decorations || []) {
-                                        try {
-                                            oldDecorations.push(
-                                                applyDecoration(dom, {
-                                                    codeView,
-                                                    decoration,
-                                                })
-                                            )
-                                        } catch (e) {
-                                            console.warn(e)
+                            codeViewSubscription.add(
+                                textDocumentDecoration
+                                    .getDecorations(toTextDocumentIdentifier(file))
+                                    .subscribe(decorations => {
+                                        for (const old of oldDecorations) {
+                                            old.dispose()
                                         }
-                                    }
-                                })
+                                        oldDecorations = []
+                                        for (const decoration of decorations || []) {
+                                            try {
+                                                oldDecorations.push(
+                                                    applyDecoration(dom, {
+                                                        codeView,
+                                                        decoration,
+                                                        part,
+                                                    })
+                                                )
+                                            } catch (e) {
+                                                console.warn(e)
+                                            }
+                                        }
+                                    })
+                            )
+                            // The code view can stay on the page, e.g. after navigating.
+                            codeViewSubscription.add(() => {
+                                for (const old of oldDecorations) {
+                                    old.dispose()
+                                }
+                            })
+                        }
+
+                        if (isDiff) {
+                            decorate(info, 'head')
+                            if (baseFile) {
+                                decorate(baseFile, 'base')
+                            }
+                        } else {
+                            decorate(info)
                         }
 
                         documentsSubject.next(documents)
@@ -441,7 +702,7 @@ function handleCodeHost(codeHost: CodeHost): Subscription {
                         rev: part === 'base' ? info.baseRev || info.baseCommitID! : info.rev || info.commitID,
                     })
 
-                    subscriptions.add(
+                    codeViewSubscription.add(
                         hoverifier.hoverify({
                             dom,
                             positionEvents: of(codeView).pipe(findPositionsFromEvents(dom)),
@@ -475,6 +736,7 @@ function handleCodeHost(codeHost: CodeHost): Subscription {
                         />,
                         mount
                     )
+                    codeViewSubscription.add(() => unmountComponentAtNode(mount))
                 }
             )
     )
@@ -503,7 +765,14 @@ async function injectCodeIntelligenceToCodeHosts(codeHosts: CodeHost[]): Promise
  * incomplete setup requests.
  */
 export async function injectCodeIntelligence(): Promise<Subscription> {
-    const codeHosts: CodeHost[] = [githubCodeHost, gitlabCodeHost, phabricatorCodeHost]
+    const codeHosts: CodeHost[] = [
+        githubCodeHost,
+        gitlabCodeHost,
+        phabricatorCodeHost,
+        bitbucketServerCodeHost,
+        giteaCodeHost,
+        gerritCodeHost,
+    ]
 
     return await injectCodeIntelligenceToCodeHosts(codeHosts)
 }
@@ -1,6 +1,6 @@
 import { last, range } from 'lodash'
 import { from, merge, Observable, of, Subject } from 'rxjs'
-import { filter, map, mergeMap } from 'rxjs/operators'
+import { filter, map, mergeMap, tap } from 'rxjs/operators'
 
 import { DiffPart } from '@sourcegraph/codeintellify'
 import { CodeHost, CodeView, ResolvedCodeView } from './code_intelligence'
@@ -41,7 +41,13 @@ const emitWhenIntersecting = (margin: number) => {
 
             intersectingElements
                 .pipe(
-                    map(element => codeViewStash.get(element)),
+                    map(element => {
+                        const codeView = codeViewStash.get(element)
+                        // Only emit once, the code view can be observed again if it is found again.
+                        intersectionObserver.unobserve(element)
+                        codeViewStash.delete(element)
+                        return codeView
+                    }),
                     filter(codeView => !!codeView)
                 )
                 .subscribe(observer)
@@ -49,12 +55,12 @@ const emitWhenIntersecting = (margin: number) => {
 }
 
 /**
- * findCodeViews finds all the code views on a page given a CodeHost. It emits code views
+ * Finds all the code views on a page given a CodeHost. It emits code views
  * that are lazily loaded as well.
  */
-export const findCodeViews = (codeHost: CodeHost, watchChildrenModifications = true) => (
-    containers: Observable<Element>
-) => {
+const findAddedCodeViews = (codeHost: CodeHost, watchChildrenModifications = true) => (
+    containers: Observable<ParentNode & Node>
+): Observable<ResolvedCodeView> => {
     const codeViewsFromList: Observable<ResolvedCodeView> = containers.pipe(
         filter(() => !!codeHost.codeViews),
         mergeMap(container =>
@@ -113,7 +119,7 @@ export const findCodeViews = (codeHost: CodeHost, watchChildrenModifications = t
             })
         )
 
-        const lazilyLoadedCodeViews = possibleLazilyLoadedContainers.pipe(findCodeViews(codeHost, false))
+        const lazilyLoadedCodeViews = possibleLazilyLoadedContainers.pipe(findAddedCodeViews(codeHost, false))
 
         obs.push(lazilyLoadedCodeViews)
     }
@@ -124,6 +130,75 @@ export const findCodeViews = (codeHost: CodeHost, watchChildrenModifications = t
     )
 }
 
+/**
+ * Emits every time nodes are removed from one of the containers.
+ */
+const observeRemovedNodes = (containers: Observable<ParentNode & Node>): Observable<void> =>
+    new Observable<void>(observer => {
+        const mutationObserver = new MutationObserver(mutations => {
+            if (mutations.some(mutation => mutation.removedNodes.length > 0)) {
+                observer.next()
+            }
+        })
+
+        const subscription = containers.subscribe(container =>
+            mutationObserver.observe(container, {
+                childList: true,
+                subtree: true,
+            })
+        )
+
+        return () => {
+            subscription.unsubscribe()
+            mutationObserver.disconnect()
+        }
+    })
+
+/** Emitted by `findCodeViews` when a code view is found. */
+export interface AddedCodeViewEvent extends ResolvedCodeView {
+    type: 'added'
+}
+
+/** Emitted by `findCodeViews` when a previously found code view leaves the page. */
+export interface RemovedCodeViewEvent {
+    type: 'removed'
+    codeView: HTMLElement
+}
+
+export type CodeViewEvent = AddedCodeViewEvent | RemovedCodeViewEvent
+
+/**
+ * findCodeViews finds all the code views on a page given a CodeHost. It emits
+ * code views that are lazily loaded as well, and emits a removal for every
+ * code view it found once it is no longer attached to the page.
+ */
+export const findCodeViews = (codeHost: CodeHost) => (
+    containers: Observable<ParentNode & Node>
+): Observable<CodeViewEvent> => {
+    const foundCodeViews = new Set<HTMLElement>()
+
+    const addedCodeViews = containers.pipe(
+        findAddedCodeViews(codeHost),
+        tap(({ codeView }) => foundCodeViews.add(codeView)),
+        map(codeView => ({ type: 'added' as 'added', ...codeView }))
+    )
+
+    const removedCodeViews = containers.pipe(
+        observeRemovedNodes,
+        // A removed node can be an ancestor of code views, or the host of a
+        // shadow root containing them, so check all of them.
+        mergeMap(() => from([...foundCodeViews].filter(codeView => !codeView.isConnected))),
+        tap(codeView => {
+            foundCodeViews.delete(codeView)
+            // Let the code view be found again if it is put back on the page.
+            codeView.classList.remove('sg-mounted')
+        }),
+        map(codeView => ({ type: 'removed' as 'removed', codeView }))
+    )
+
+    return merge(addedCodeViews, removedCodeViews)
+}
+
 export interface CodeViewContent {
     content: string
     baseContent?: string
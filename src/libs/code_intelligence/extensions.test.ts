@@ -0,0 +1,175 @@
+import { expect } from 'chai'
+import { afterEach, beforeEach, describe, it } from 'mocha'
+import { findCodeViewsOnPage, resolveRevToItself } from '../../testing/code_intelligence'
+import { loadFixture } from '../../testing/dom'
+import { stubNetwork } from '../../testing/network'
+import { githubCodeHost } from '../github/code_intelligence'
+import { ResolvedCodeView } from './code_intelligence'
+import { applyDecoration, Decoration } from './extensions'
+
+const range = (startLine: number, startCharacter: number, endLine: number, endCharacter: number) => ({
+    start: { line: startLine, character: startCharacter },
+    end: { line: endLine, character: endCharacter },
+})
+
+describe('applyDecoration', () => {
+    let restoreNetwork: () => void
+    let codeView: HTMLElement
+    let dom: ResolvedCodeView['dom']
+
+    beforeEach(() => {
+        restoreNetwork = stubNetwork({ '/.api/graphql?ResolveRev': resolveRevToItself })
+    })
+
+    afterEach(() => restoreNetwork())
+
+    /** Loads the fixture and finds its only code view. */
+    const loadCodeView = async (fixture: string, url: string) => {
+        loadFixture(fixture, url)
+        const [resolved] = await findCodeViewsOnPage(githubCodeHost)
+        codeView = resolved.codeView
+        dom = resolved.dom
+    }
+
+    const getHighlights = () =>
+        Array.from(codeView.querySelectorAll<HTMLElement>('.sourcegraph-extension-highlight')).map(span => [
+            span.textContent,
+            span.style.backgroundColor,
+        ])
+    const getGutterMarkers = () =>
+        Array.from(codeView.querySelectorAll<HTMLElement>('.sourcegraph-extension-gutter-marker')).map(marker => ({
+            tagName: marker.tagName,
+            lineNumber: marker.parentElement!.getAttribute('data-line-number'),
+            color: marker.style.backgroundColor,
+            src: marker.getAttribute('src'),
+            title: marker.title,
+        }))
+
+    describe('blob', () => {
+        beforeEach(() => loadCodeView('github/blob', 'https://github.com/gorilla/mux/blob/master/mux.go'))
+
+        it('highlights the characters in the range, and removes the highlight when disposed', () => {
+            const html = codeView.innerHTML
+            const decoration: Decoration = { range: range(4, 0, 4, 7), backgroundColor: 'red' }
+
+            const disposable = applyDecoration(dom, { codeView, decoration })
+            expect(getHighlights()).to.deep.equal([['package', 'red']])
+            expect(dom.getCodeElementFromLineNumber(codeView, 5)!.textContent).to.equal('package mux')
+
+            disposable.dispose()
+            expect(codeView.innerHTML).to.equal(html)
+        })
+
+        it('highlights ranges across lines and highlighting tokens', () => {
+            applyDecoration(dom, { codeView, decoration: { range: range(0, 3, 1, 6), backgroundColor: 'red' } })
+            expect(getHighlights().map(([text]) => text)).to.deep.equal([
+                'Copyright 2012 The Gorilla Authors. All rights reserved.',
+                '//',
+                ' Use',
+            ])
+        })
+
+        it('highlights whole lines', () => {
+            const decoration: Decoration = { range: range(4, 0, 4, 0), backgroundColor: 'red' }
+            const codeElement = dom.getCodeElementFromLineNumber(codeView, 5)!
+
+            const disposable = applyDecoration(dom, { codeView, decoration })
+            expect(codeElement.style.backgroundColor).to.equal('red')
+            expect(getHighlights()).to.deep.equal([])
+
+            disposable.dispose()
+            expect(codeElement.style.backgroundColor).to.equal('')
+        })
+
+        it('shows gutter markers next to the line number of the first line', () => {
+            const disposable = applyDecoration(dom, {
+                codeView,
+                decoration: { range: range(4, 0, 6, 0), gutterColor: 'blue', gutterHoverMessage: 'Covered' },
+            })
+            applyDecoration(dom, {
+                codeView,
+                decoration: { range: range(7, 0, 7, 0), gutterIconURL: 'https://example.com/icon.svg' },
+            })
+            expect(getGutterMarkers()).to.deep.equal([
+                { tagName: 'SPAN', lineNumber: '5', color: 'blue', src: null, title: 'Covered' },
+                { tagName: 'IMG', lineNumber: '8', color: '', src: 'https://example.com/icon.svg', title: '' },
+            ])
+
+            disposable.dispose()
+            expect(getGutterMarkers().map(({ lineNumber }) => lineNumber)).to.deep.equal(['8'])
+        })
+
+        it('attaches content after the last line', () => {
+            applyDecoration(dom, {
+                codeView,
+                decoration: {
+                    range: range(4, 0, 6, 0),
+                    after: { contentText: 'blame', linkURL: 'https://example.com/blame' },
+                },
+            })
+            const link = codeView.querySelector<HTMLAnchorElement>('a.sourcegraph-extension-element')!
+            expect(link.textContent).to.equal('blame')
+            expect(link.getAttribute('target')).to.equal('_blank')
+            expect(link.parentElement).to.equal(dom.getCodeElementFromLineNumber(codeView, 7))
+        })
+
+        it('throws for lines the blob does not have', () => {
+            const html = codeView.innerHTML
+            expect(() =>
+                applyDecoration(dom, { codeView, decoration: { range: range(6, 0, 8, 1), backgroundColor: 'red' } })
+            ).to.throw('Unable to find code element for line 9')
+            expect(codeView.innerHTML).to.equal(html)
+        })
+    })
+
+    describe('diff', () => {
+        beforeEach(() => loadCodeView('github/pull-request-unified', 'https://github.com/gorilla/mux/pull/328/files'))
+
+        it('highlights the characters on the side of the diff the document is on', () => {
+            const decoration: Decoration = { range: range(11, 2, 11, 8), backgroundColor: 'red' }
+            applyDecoration(dom, { codeView, decoration, part: 'head' })
+            applyDecoration(dom, { codeView, decoration: { ...decoration, backgroundColor: 'blue' }, part: 'base' })
+            expect(getHighlights()).to.deep.equal([['string', 'blue'], ['regexp', 'red']])
+        })
+
+        it('skips the diff indicator on GitHub Enterprise versions that render it as text', () => {
+            const codeElement = dom.getCodeElementFromLineNumber(codeView, 12, 'head')!
+            codeElement.classList.remove('blob-code-marker-addition')
+            codeElement.insertBefore(document.createTextNode('+'), codeElement.firstChild)
+
+            applyDecoration(dom, {
+                codeView,
+                decoration: { range: range(11, 2, 11, 8), backgroundColor: 'red' },
+                part: 'head',
+            })
+            expect(getHighlights()).to.deep.equal([['regexp', 'red']])
+        })
+
+        it('shows gutter markers next to the line number of the side of the diff', () => {
+            applyDecoration(dom, {
+                codeView,
+                decoration: { range: range(11, 0, 11, 0), gutterColor: 'blue' },
+                part: 'head',
+            })
+            const [marker] = getGutterMarkers()
+            expect(marker.lineNumber).to.equal('12')
+            expect(
+                codeView
+                    .querySelector('.sourcegraph-extension-gutter-marker')!
+                    .parentElement!.classList.contains('blob-num-addition')
+            ).to.equal(true)
+        })
+
+        it('skips the lines the diff does not show', () => {
+            applyDecoration(dom, {
+                codeView,
+                decoration: { range: range(0, 0, 11, 0), backgroundColor: 'red', isWholeLine: true },
+                part: 'head',
+            })
+            const highlighted = Array.from(codeView.querySelectorAll<HTMLElement>('.blob-code-inner'))
+                .filter(codeElement => codeElement.style.backgroundColor === 'red')
+                .map(codeElement => codeElement.textContent)
+            expect(highlighted).to.deep.equal(['\t"net/http"', '\t"path"', '\t"regexp"'])
+        })
+    })
+})
@@ -21,15 +21,14 @@ import { ContributableMenu } from 'sourcegraph/module/protocol'
 import { TextDocumentDecoration } from 'sourcegraph/module/protocol/plainTypes'
 import { Disposable } from 'vscode-languageserver'
 
-import { DOMFunctions } from '@sourcegraph/codeintellify'
+import { DiffPart, DOMFunctions } from '@sourcegraph/codeintellify'
 import * as H from 'history'
 import { isErrorLike } from '../../shared/backend/errors'
 import { createExtensionsContextController, createMessageTransports } from '../../shared/backend/extensions'
 import { GlobalDebug } from '../../shared/components/GlobalDebug'
 import { ShortcutProvider } from '../../shared/components/ShortcutProvider'
 import { sourcegraphUrl } from '../../shared/util/context'
-import { getGlobalDebugMount } from '../github/extensions'
-import { MountGetter } from './code_intelligence'
+import { CodeHost, MountGetter } from './code_intelligence'
 
 // This is rather specific to extensions-client-common
 // and could be moved to that package in the future.
@@ -104,10 +103,33 @@ function createControllers(documents: Observable<TextDocumentItem[] | null>): Co
 }
 
 /**
- * Initializes extensions for a page. It creates the controllers and injects the command palette.
+ * Returns the element to render the global debug menu in, creating it at the
+ * end of the body if it doesn't exist yet. Code hosts have no place for the
+ * menu in their own layout.
+ */
+export function getGlobalDebugMount(): HTMLElement {
+    const globalDebugClass = 'global-debug'
+
+    const createGlobalDebugMount = (): HTMLElement => {
+        const globalDebugElem = document.createElement('div')
+        globalDebugElem.className = globalDebugClass
+        document.body.appendChild(globalDebugElem)
+
+        return globalDebugElem
+    }
+
+    return document.querySelector<HTMLElement>('.' + globalDebugClass) || createGlobalDebugMount()
+}
+
+/**
+ * Initializes extensions for a page. It creates the controllers and injects the command palette and, if the code
+ * host provides a mount for it, the global debug menu.
  */
 export function initializeExtensions(
-    getCommandPaletteMount: MountGetter,
+    {
+        getCommandPaletteMount,
+        getGlobalDebugMount,
+    }: Pick<CodeHost, 'getGlobalDebugMount'> & { getCommandPaletteMount: MountGetter },
     documents: Observable<TextDocumentItem[] | null>
 ): Controllers {
     const { extensionsContextController, extensionsController } = createControllers(documents)
@@ -124,11 +146,13 @@ export function initializeExtensions(
         getCommandPaletteMount()
     )
 
-    const history = H.createBrowserHistory()
-    render(
-        <GlobalDebug extensionsController={extensionsController} location={history.location} />,
-        getGlobalDebugMount()
-    )
+    if (getGlobalDebugMount) {
+        const history = H.createBrowserHistory()
+        render(
+            <GlobalDebug extensionsController={extensionsController} location={history.location} />,
+            getGlobalDebugMount()
+        )
+    }
 
     return { extensionsContextController, extensionsController }
 }
@@ -142,67 +166,224 @@ const mergeDisposables = (...disposables: Disposable[]): Disposable => ({
 })
 
 /**
- * Applies a decoration to a code view. This doesn't work with diff views yet.
+ * Options for showing a decoration in the gutter, next to the line number.
+ * These are not part of `TextDocumentDecoration` yet, so extensions set them
+ * alongside the other decoration properties.
+ */
+export interface GutterDecorationOptions {
+    /** The URL of an icon to show in the gutter. */
+    gutterIconURL?: string
+    /** The color of a marker to show in the gutter, if there is no icon. */
+    gutterColor?: string
+    /** The tooltip of the icon or marker. */
+    gutterHoverMessage?: string
+}
+
+export type Decoration = TextDocumentDecoration & GutterDecorationOptions
+
+/**
+ * Wraps the text between the `start` and `end` character of a code element in
+ * spans. Text added by extensions is not counted. Leaving out `end` wraps the
+ * rest of the line.
+ */
+const wrapCharacters = (codeElement: HTMLElement, start: number, end?: number): HTMLElement[] => {
+    const textNodes: Text[] = []
+    const walker = document.createTreeWalker(codeElement, NodeFilter.SHOW_TEXT)
+    while (walker.nextNode()) {
+        const node = walker.currentNode as Text
+        if (!node.parentElement || !node.parentElement.closest('.sourcegraph-extension-element')) {
+            textNodes.push(node)
+        }
+    }
+
+    const spans: HTMLElement[] = []
+
+    let offset = 0
+    for (const node of textNodes) {
+        const nodeStart = offset
+        const nodeEnd = offset + node.data.length
+        offset = nodeEnd
+
+        const wrapStart = Math.max(start, nodeStart)
+        const wrapEnd = end === undefined ? nodeEnd : Math.min(end, nodeEnd)
+        if (wrapStart >= wrapEnd) {
+            continue
+        }
+
+        let text = node
+        if (wrapStart > nodeStart) {
+            text = text.splitText(wrapStart - nodeStart)
+        }
+        if (wrapEnd < nodeEnd) {
+            text.splitText(wrapEnd - wrapStart)
+        }
+
+        const span = document.createElement('span')
+        span.className = 'sourcegraph-extension-highlight'
+        text.parentNode!.insertBefore(span, text)
+        span.appendChild(text)
+        spans.push(span)
+    }
+
+    return spans
+}
+
+/**
+ * Removes the spans created by `wrapCharacters`, keeping their text.
+ */
+const unwrapCharacters = (spans: HTMLElement[]): void => {
+    for (const span of spans) {
+        const parent = span.parentNode
+        if (!parent) {
+            continue
+        }
+
+        while (span.firstChild) {
+            parent.insertBefore(span.firstChild, span)
+        }
+        span.remove()
+        parent.normalize()
+    }
+}
+
+/**
+ * Finds the cell that shows the line number of a code element. Code views
+ * that are tables have it right before the cell with the code. Otherwise the
+ * code element itself is used.
+ */
+const getGutterElement = (codeElement: HTMLElement): HTMLElement => {
+    const cell = codeElement.closest('td')
+    return (cell && (cell.previousElementSibling as HTMLElement | null)) || codeElement
+}
+
+const addGutterMarker = (codeElement: HTMLElement, decoration: Decoration): Disposable => {
+    const marker = document.createElement(decoration.gutterIconURL ? 'img' : 'span')
+    marker.className = 'sourcegraph-extension-element sourcegraph-extension-gutter-marker'
+    if (decoration.gutterIconURL) {
+        marker.setAttribute('src', decoration.gutterIconURL)
+    } else {
+        marker.style.backgroundColor = decoration.gutterColor || null
+    }
+    marker.title = decoration.gutterHoverMessage || ''
+
+    const gutterElement = getGutterElement(codeElement)
+    gutterElement.insertBefore(marker, gutterElement.firstChild)
+
+    return {
+        dispose: () => {
+            marker.remove()
+        },
+    }
+}
+
+const attachAfter = (codeElement: HTMLElement, after: NonNullable<Decoration['after']>): Disposable => {
+    const linkTo = (url: string) => (e: HTMLElement): HTMLElement => {
+        const link = document.createElement('a')
+        link.className = 'sourcegraph-extension-element'
+        link.setAttribute('href', url)
+
+        // External URLs should open in a new tab, whereas relative URLs
+        // should not.
+        link.setAttribute('target', /^https?:\/\//.test(url) ? '_blank' : '')
+
+        // Avoid leaking referrer URLs (which contain repository and path names, etc.) to external sites.
+        link.setAttribute('rel', 'noreferrer noopener')
+
+        link.style.color = after.color || null
+        link.appendChild(e)
+        return link
+    }
+
+    const element = document.createElement('span')
+    element.className = 'sourcegraph-extension-element'
+    element.style.backgroundColor = after.backgroundColor || null
+    element.textContent = after.contentText || null
+    element.title = after.hoverMessage || ''
+
+    const annotation = after.linkURL ? linkTo(after.linkURL)(element) : element
+    codeElement.appendChild(annotation)
+
+    return {
+        dispose: () => {
+            annotation.remove()
+        },
+    }
+}
+
+/**
+ * Applies a decoration to a code view. For diff views, `part` is the side of
+ * the diff the decorated document is on.
+ *
+ * The background color covers every line of the decoration's range. Unless the
+ * decoration is for whole lines or its range is empty, only the characters in
+ * the range are highlighted. Gutter markers are shown on the first line and
+ * `after` attachments on the last line of the range.
  */
 export const applyDecoration = (
     dom: DOMFunctions,
     {
         codeView,
         decoration,
+        part,
     }: {
         codeView: HTMLElement
-        decoration: TextDocumentDecoration
+        decoration: Decoration
+        part?: DiffPart
     }
 ): Disposable => {
     const disposables: Disposable[] = []
 
-    const lineNumber = decoration.range.start.line + 1
-    const codeElement = dom.getCodeElementFromLineNumber(codeView, lineNumber)
-    if (!codeElement) {
-        throw new Error(`Unable to find code element for line ${lineNumber}`)
-    }
-
-    if (decoration.backgroundColor) {
-        codeElement.style.backgroundColor = decoration.backgroundColor
-        disposables.push({
-            dispose: () => {
-                codeElement.style.backgroundColor = null
-            },
-        })
-    }
-
-    if (decoration.after) {
-        const linkTo = (url: string) => (e: HTMLElement): HTMLElement => {
-            const link = document.createElement('a')
-            link.className = 'sourcegraph-extension-element'
-            link.setAttribute('href', url)
-
-            // External URLs should open in a new tab, whereas relative URLs
-            // should not.
-            link.setAttribute('target', /^https?:\/\//.test(url) ? '_blank' : '')
+    const { start, end } = decoration.range
+    const isWholeLine = decoration.isWholeLine || (start.line === end.line && start.character === end.character)
 
-            // Avoid leaking referrer URLs (which contain repository and path names, etc.) to external sites.
-            link.setAttribute('rel', 'noreferrer noopener')
+    for (let line = start.line; line <= end.line; line++) {
+        const lineNumber = line + 1
+        const codeElement = dom.getCodeElementFromLineNumber(codeView, lineNumber, part)
+        if (!codeElement) {
+            if (part) {
+                // Diffs only show the lines around the changes.
+                continue
+            }
 
-            link.style.color = decoration.after!.color || null
-            link.appendChild(e)
-            return link
+            mergeDisposables(...disposables).dispose()
+            throw new Error(`Unable to find code element for line ${lineNumber}`)
         }
 
-        const after = document.createElement('span')
-        after.className = 'sourcegraph-extension-element'
-        after.style.backgroundColor = decoration.after.backgroundColor || null
-        after.textContent = decoration.after.contentText || null
-        after.title = decoration.after.hoverMessage || ''
+        if (decoration.backgroundColor) {
+            if (isWholeLine) {
+                codeElement.style.backgroundColor = decoration.backgroundColor
+                disposables.push({
+                    dispose: () => {
+                        codeElement.style.backgroundColor = null
+                    },
+                })
+            } else {
+                // Skip the diff indicator, it isn't part of the document. Code views
+                // of single files don't implement the check.
+                const offset =
+                    dom.isFirstCharacterDiffIndicator && dom.isFirstCharacterDiffIndicator(codeElement) ? 1 : 0
+                const spans = wrapCharacters(
+                    codeElement,
+                    (line === start.line ? start.character : 0) + offset,
+                    line === end.line ? end.character + offset : undefined
+                )
+                for (const span of spans) {
+                    span.style.backgroundColor = decoration.backgroundColor
+                }
+                disposables.push({
+                    dispose: () => unwrapCharacters(spans),
+                })
+            }
+        }
 
-        const annotation = decoration.after.linkURL ? linkTo(decoration.after.linkURL)(after) : after
-        codeElement.appendChild(annotation)
+        if (line === start.line && (decoration.gutterIconURL || decoration.gutterColor)) {
+            disposables.push(addGutterMarker(codeElement, decoration))
+        }
 
-        disposables.push({
-            dispose: () => {
-                annotation.remove()
-            },
-        })
+        if (line === end.line && decoration.after) {
+            disposables.push(attachAfter(codeElement, decoration.after))
+        }
     }
+
     return mergeDisposables(...disposables)
 }
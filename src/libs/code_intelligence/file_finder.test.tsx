@@ -0,0 +1,160 @@
+import { expect } from 'chai'
+import { afterEach, beforeEach, describe, it } from 'mocha'
+import { unmountComponentAtNode } from 'react-dom'
+import { Simulate } from 'react-dom/test-utils'
+import { of, Subscription, timer } from 'rxjs'
+import { DEFAULT_SOURCEGRAPH_URL } from '../../shared/util/context'
+import { stubNetwork } from '../../testing/network'
+import { MockSourcegraphServer, useSourcegraphURL } from '../../testing/server'
+import { FileFinderFeature, FileFinderRepo, initFileFinder } from './file_finder'
+
+const COMMIT_ID = '6'.repeat(40)
+
+/** Waits for the mock server to answer and the file finder to render the response. */
+const settle = () => timer(20).toPromise()
+
+describe('initFileFinder', () => {
+    let restoreNetwork: () => void
+    let subscription: Subscription
+    /** The repository of the page, `null` for pages outside of repositories. */
+    let repo: FileFinderRepo | null
+
+    const fileFinder: FileFinderFeature = {
+        getRepo: () => of(repo),
+        buildFileURL: ({ repoPath, rev, filePath }) => `https://${repoPath}/blob/${rev}/${filePath}`,
+    }
+
+    beforeEach(() => {
+        useSourcegraphURL(DEFAULT_SOURCEGRAPH_URL)
+        const server = new MockSourcegraphServer(DEFAULT_SOURCEGRAPH_URL, {
+            repositories: {
+                'github.com/gorilla/schema': {
+                    revisions: { HEAD: COMMIT_ID, master: COMMIT_ID },
+                    files: { 'mux.go': '', 'route.go': '', 'doc/README.md': '' },
+                },
+                'github.com/gorilla/huge': { revisions: { HEAD: COMMIT_ID }, files: {} },
+            },
+        })
+        const { handlers } = server
+        const fileTree = handlers[`${DEFAULT_SOURCEGRAPH_URL}/.api/graphql?FileTree`]
+        handlers[`${DEFAULT_SOURCEGRAPH_URL}/.api/graphql?FileTree`] = request =>
+            request.body.variables.repoPath === 'github.com/gorilla/huge'
+                ? {
+                      data: { repository: { commit: { tree: null } } },
+                      errors: [{ message: 'tree too large', path: [] }],
+                  }
+                : fileTree(request)
+        restoreNetwork = stubNetwork(handlers)
+        repo = { repoPath: 'github.com/gorilla/schema', rev: 'master' }
+        subscription = initFileFinder(fileFinder, 'test')
+    })
+
+    afterEach(() => {
+        subscription.unsubscribe()
+        const mount = document.querySelector('.file-finder-mount__test')!
+        unmountComponentAtNode(mount)
+        mount.remove()
+        restoreNetwork()
+    })
+
+    const pressKey = (key: string, target: EventTarget = document.body) =>
+        target.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true }))
+    const getFinder = () => document.querySelector('.file-finder')
+    const getInput = () => document.querySelector<HTMLInputElement>('.file-finder__input')!
+    const getMatches = () =>
+        Array.from(document.querySelectorAll('.file-finder__match')).map(match => ({
+            path: match.textContent,
+            href: match.getAttribute('href'),
+            selected: match.classList.contains('file-finder__match--selected'),
+        }))
+
+    it('opens with the t shortcut and lists the files of the repository', async () => {
+        expect(getFinder()).to.equal(null)
+
+        pressKey('t')
+        expect(getFinder()).to.not.equal(null)
+
+        await settle()
+        expect(getMatches()).to.deep.equal([
+            { path: 'mux.go', href: 'https://github.com/gorilla/schema/blob/master/mux.go', selected: true },
+            { path: 'route.go', href: 'https://github.com/gorilla/schema/blob/master/route.go', selected: false },
+            {
+                path: 'doc/README.md',
+                href: 'https://github.com/gorilla/schema/blob/master/doc/README.md',
+                selected: false,
+            },
+        ])
+    })
+
+    it('does not pass the t shortcut on to the shortcuts of the code host', () => {
+        let codeHostShortcuts = 0
+        const countShortcut = () => codeHostShortcuts++
+        document.addEventListener('keydown', countShortcut)
+        try {
+            expect(pressKey('t')).to.equal(false)
+            expect(codeHostShortcuts).to.equal(0)
+        } finally {
+            document.removeEventListener('keydown', countShortcut)
+        }
+    })
+
+    for (const tagName of ['input', 'textarea']) {
+        it(`does not open when t is typed in ${tagName} elements`, async () => {
+            const field = document.createElement(tagName)
+            document.body.appendChild(field)
+            try {
+                expect(pressKey('t', field)).to.equal(true)
+                await settle()
+                expect(getFinder()).to.equal(null)
+            } finally {
+                field.remove()
+            }
+        })
+    }
+
+    it('links to the commit of the default branch on pages without a revision', async () => {
+        repo = { repoPath: 'github.com/gorilla/schema' }
+        pressKey('t')
+        await settle()
+        expect(getMatches()[0].href).to.equal(`https://github.com/gorilla/schema/blob/${COMMIT_ID}/mux.go`)
+    })
+
+    it('finds the files matching the query and moves the selection with the arrow keys', async () => {
+        pressKey('t')
+        await settle()
+
+        const input = getInput()
+        input.value = 'go'
+        Simulate.change(input)
+        expect(getMatches().map(({ path }) => path)).to.deep.equal(['mux.go', 'route.go'])
+
+        Simulate.keyDown(input, { key: 'ArrowDown' })
+        expect(getMatches().map(({ selected }) => selected)).to.deep.equal([false, true])
+
+        input.value = 'missing'
+        Simulate.change(input)
+        expect(document.querySelector('.file-finder__message')!.textContent).to.equal('No matching files')
+    })
+
+    it('closes on escape', async () => {
+        pressKey('t')
+        await settle()
+
+        Simulate.keyDown(getInput(), { key: 'Escape' })
+        expect(getFinder()).to.equal(null)
+    })
+
+    it('shows the error fetching the files', async () => {
+        repo = { repoPath: 'github.com/gorilla/huge' }
+        pressKey('t')
+        await settle()
+        expect(document.querySelector('.file-finder__message')!.textContent).to.equal('tree too large')
+    })
+
+    it('does not open on pages outside of repositories', async () => {
+        repo = null
+        pressKey('t')
+        await settle()
+        expect(getFinder()).to.equal(null)
+    })
+})
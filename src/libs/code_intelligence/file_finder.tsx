@@ -0,0 +1,121 @@
+import * as React from 'react'
+import { render, unmountComponentAtNode } from 'react-dom'
+import { fromEvent, merge, Observable, of, Subject, Subscription } from 'rxjs'
+import { catchError, filter, map, mapTo, startWith, switchMap, tap } from 'rxjs/operators'
+import { asError } from '../../shared/backend/errors'
+import { FileFinder } from '../../shared/components/FileFinder'
+import { fetchTree, resolveRev } from '../../shared/repo/backend'
+
+export interface FileFinderRepo {
+    repoPath: string
+    /** The revision of the page. Defaults to the default branch of the repository. */
+    rev?: string
+}
+
+/**
+ * Interface containing information needed for the file finder feature.
+ */
+export interface FileFinderFeature {
+    /**
+     * Emits the repository and revision of the current page, or `null` if the
+     * page doesn't belong to a repository.
+     */
+    getRepo: () => Observable<FileFinderRepo | null>
+    /**
+     * Builds the URL of a file on the code host.
+     */
+    buildFileURL: (file: { repoPath: string; rev: string; filePath: string }) => string
+}
+
+interface OpenFileFinder {
+    filesOrError: FileFinder['props']['filesOrError']
+    buildFileURL: (filePath: string) => string
+}
+
+/** The URL builder of the file finder before there are files to link to. */
+const noFileURL = () => ''
+
+const createMount = (className: string) => {
+    const mount = document.createElement('div')
+    mount.classList.add(className)
+    document.body.appendChild(mount)
+    return mount
+}
+
+/** Whether typing in target enters text, e.g. in an input or a textarea. */
+const isTextInput = (target: EventTarget | null): boolean =>
+    target instanceof HTMLElement &&
+    (['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName) || target.isContentEditable)
+
+/**
+ * Emits the `t` key presses that open the file finder. They are handled before
+ * the code host's own shortcuts and not passed on, because code hosts like
+ * GitHub open their own file finder with `t` too.
+ */
+const shortcuts = (): Observable<KeyboardEvent> =>
+    fromEvent<KeyboardEvent>(document, 'keydown', { capture: true }).pipe(
+        filter(
+            event =>
+                event.key === 't' && !event.ctrlKey && !event.metaKey && !event.altKey && !isTextInput(event.target)
+        ),
+        tap(event => {
+            event.preventDefault()
+            event.stopPropagation()
+        })
+    )
+
+/** Fetches the files of repo, emitting `undefined` files while they are being fetched. */
+const fetchFiles = (
+    repo: FileFinderRepo,
+    buildFileURL: FileFinderFeature['buildFileURL']
+): Observable<OpenFileFinder> =>
+    resolveRev(repo).pipe(
+        switchMap(commitID =>
+            fetchTree({ repoPath: repo.repoPath, commitID }).pipe(
+                map(
+                    (files): OpenFileFinder => ({
+                        filesOrError: files,
+                        buildFileURL: filePath =>
+                            buildFileURL({ repoPath: repo.repoPath, rev: repo.rev || commitID, filePath }),
+                    })
+                )
+            )
+        ),
+        catchError((err): OpenFileFinder[] => [{ filesOrError: asError(err), buildFileURL: noFileURL }]),
+        startWith<OpenFileFinder>({ filesOrError: undefined, buildFileURL: noFileURL })
+    )
+
+/**
+ * Mounts the file finder, which is opened with the `t` shortcut on pages that
+ * belong to a repository.
+ */
+export function initFileFinder({ getRepo, buildFileURL }: FileFinderFeature, codeHostName: string): Subscription {
+    const className = `file-finder-mount__${codeHostName}`
+    const mount = document.querySelector<HTMLElement>(`.${className}`) || createMount(className)
+
+    const closeRequests = new Subject<void>()
+    const close = () => closeRequests.next()
+
+    const renderFileFinder = (fileFinder: OpenFileFinder | null) => {
+        if (!fileFinder) {
+            unmountComponentAtNode(mount)
+            return
+        }
+        render(
+            <FileFinder
+                filesOrError={fileFinder.filesOrError}
+                buildFileURL={fileFinder.buildFileURL}
+                onClose={close}
+            />,
+            mount
+        )
+    }
+
+    // The file finder is opened by the shortcut and closed by itself.
+    return merge(shortcuts().pipe(mapTo(true)), closeRequests.pipe(mapTo(false)))
+        .pipe(
+            switchMap(isOpen => (isOpen ? getRepo() : of(null))),
+            switchMap(repo => (repo ? fetchFiles(repo, buildFileURL) : of(null)))
+        )
+        .subscribe(renderFileFinder)
+}
@@ -0,0 +1,97 @@
+import * as React from 'react'
+import { render, unmountComponentAtNode } from 'react-dom'
+import { combineLatest, Observable, of, Subscription } from 'rxjs'
+import { startWith, switchMap } from 'rxjs/operators'
+import storage from '../../browser/storage'
+import { WithResolvedRev } from '../../shared/components/WithResolvedRev'
+import { RepoRevSidebar } from '../../shared/tree/RepoRevSidebar'
+import { TreeURLBuilder } from '../../shared/tree/Tree'
+import { navigationEvents } from '../../shared/util/navigation'
+
+export interface FileTreeLocation {
+    repoPath: string
+    /** The revision of the page. Defaults to the default branch of the repository. */
+    rev?: string
+    /** The path of the file or directory of the page, which is selected in the tree. */
+    filePath?: string
+}
+
+/**
+ * Interface containing information needed for the file tree sidebar feature.
+ */
+export interface FileTreeFeature {
+    /**
+     * Emits the repository, revision and path of the current page, or `null`
+     * if the page doesn't belong to a repository.
+     */
+    getLocation: () => Observable<FileTreeLocation | null>
+    /**
+     * Get the DOM element where we'll mount the sidebar, or `null` if the page
+     * has no place for it. Use `getFileTreeMount` to create it.
+     */
+    getMount: () => HTMLElement | null
+    /**
+     * Builds the URL of a directory or a file on the code host.
+     */
+    buildURL: TreeURLBuilder
+}
+
+/**
+ * Returns the element to render the sidebar in, creating it as the first child
+ * of parent if it doesn't exist yet.
+ */
+export function getFileTreeMount(parent: HTMLElement): HTMLElement {
+    const existing = document.getElementById('sourcegraph-file-tree-container')
+    if (existing && parent.contains(existing)) {
+        return existing
+    }
+
+    const mount = document.createElement('div')
+    mount.id = 'sourcegraph-file-tree'
+    mount.className = 'tree-mount'
+    mount.setAttribute('data-pjax', 'true')
+    const container = document.createElement('div')
+    container.id = 'sourcegraph-file-tree-container'
+    container.className = 'repo-rev-container'
+    mount.appendChild(container)
+    parent.insertBefore(mount, parent.firstElementChild)
+    return container
+}
+
+/**
+ * Renders the file tree sidebar on pages that belong to a repository while the
+ * file tree is enabled, and keeps it up to date when the page navigates.
+ */
+export function initFileTree({ getLocation, getMount, buildURL }: FileTreeFeature): Subscription {
+    let mount: HTMLElement | null = null
+
+    return combineLatest(
+        storage.observeSync('repositoryFileTreeEnabled'),
+        navigationEvents.pipe(startWith(window.location.href))
+    )
+        .pipe(switchMap(([enabled]) => (enabled ? getLocation() : of(null))))
+        .subscribe(location => {
+            const nextMount = location && getMount()
+            if (mount && mount !== nextMount) {
+                unmountComponentAtNode(mount)
+            }
+            mount = nextMount
+            if (!location || !mount) {
+                return
+            }
+
+            render(
+                <WithResolvedRev
+                    component={RepoRevSidebar}
+                    className="repo-rev-container__sidebar"
+                    repoPath={location.repoPath}
+                    rev={location.rev}
+                    selectedPath={location.filePath || ''}
+                    filePath={location.filePath || ''}
+                    defaultBranch="HEAD"
+                    buildURL={buildURL}
+                />,
+                mount
+            )
+        })
+}
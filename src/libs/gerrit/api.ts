@@ -0,0 +1,77 @@
+import { Observable } from 'rxjs'
+import { ajax } from 'rxjs/ajax'
+import { map } from 'rxjs/operators'
+
+import { memoizeObservable } from '../../shared/util/memoize'
+import { GerritChangeInfo } from './scrape'
+
+/**
+ * A revision (patchset) as returned by the Gerrit API. Note that there is
+ * more information returned but we are not using it.
+ */
+interface RevisionInfo {
+    /** The patchset number. */
+    _number: number
+    commit: {
+        parents: { commit: string }[]
+    }
+}
+
+/**
+ * Response from the Gerrit API for fetching a change. Note that there is more
+ * information returned but we are not using it.
+ */
+interface ChangeResponse {
+    project: string
+    current_revision: string
+    /** Revisions keyed by their commit ID. */
+    revisions: { [commitID: string]: RevisionInfo }
+}
+
+type GetChangeInput = Pick<GerritChangeInfo, 'baseURL' | 'project' | 'changeNumber' | 'patchset' | 'basePatchset'>
+
+interface ChangeCommits {
+    project: string
+    headCommitID: string
+    baseCommitID: string
+}
+
+/**
+ * Gerrit prefixes every JSON response with this to prevent XSSI.
+ */
+const xssiPrefix = ")]}'"
+
+const buildURL = ({ baseURL, project, changeNumber }: GetChangeInput, path: string) =>
+    `${baseURL}/changes/${project ? `${encodeURIComponent(project)}~` : ''}${changeNumber}${path}`
+
+const get = <T>(url: string): Observable<T> =>
+    ajax({ url, method: 'GET', responseType: 'text' }).pipe(
+        map(({ response }) => JSON.parse((response as string).replace(xssiPrefix, '')) as T)
+    )
+
+const findRevision = ({ revisions }: ChangeResponse, patchset: number): string | undefined =>
+    Object.keys(revisions).find(commitID => revisions[commitID]._number === patchset)
+
+/**
+ * Get the project and the head and base commit IDs for a change.
+ */
+export const getCommitsForChange: (info: GetChangeInput) => Observable<ChangeCommits> = memoizeObservable(
+    (info: GetChangeInput) =>
+        get<ChangeResponse>(buildURL(info, '?o=ALL_REVISIONS&o=ALL_COMMITS')).pipe(
+            map(change => {
+                const headCommitID =
+                    (info.patchset !== undefined && findRevision(change, info.patchset)) || change.current_revision
+                if (!change.revisions[headCommitID]) {
+                    throw new Error(`Unable to find revision ${headCommitID} of change ${info.changeNumber}`)
+                }
+
+                // Without a base patchset, Gerrit diffs against the parent commit.
+                const baseCommitID =
+                    (info.basePatchset !== undefined && findRevision(change, info.basePatchset)) ||
+                    change.revisions[headCommitID].commit.parents[0].commit
+
+                return { project: change.project, headCommitID, baseCommitID }
+            })
+        ),
+    ({ baseURL, changeNumber, patchset, basePatchset }) => `${baseURL}/${changeNumber}/${basePatchset}..${patchset}`
+)
@@ -0,0 +1,107 @@
+import { expect } from 'chai'
+import { afterEach, beforeEach, describe, it } from 'mocha'
+import { findCodeViewsOnPage, resolveRevToItself } from '../../testing/code_intelligence'
+import { loadFixture } from '../../testing/dom'
+import { stubNetwork } from '../../testing/network'
+import { getContentOfCodeView } from '../code_intelligence/code_views'
+import { gerritCodeHost } from './code_intelligence'
+
+const BASE_COMMIT_ID = '7d2c1b0a9f8e7d6c5b4a3f2e1d0c9b8a7f6e5d4c'
+const PATCHSET_1_COMMIT_ID = '2b9e4f6a8c0d1e3f5a7b9c1d3e5f7a9b1c3d5e7f'
+const PATCHSET_2_COMMIT_ID = 'c4a8e2f6b0d4a8e2f6b0d4a8e2f6b0d4a8e2f6b0'
+
+const revision = (patchset: number) => ({ _number: patchset, commit: { parents: [{ commit: BASE_COMMIT_ID }] } })
+
+describe('Gerrit code host', () => {
+    let restoreNetwork: () => void
+
+    beforeEach(() => {
+        restoreNetwork = stubNetwork({
+            '/.api/graphql?ResolveRev': resolveRevToItself,
+            // Gerrit prefixes its JSON responses to prevent XSSI.
+            '/changes/gorilla%2Fmux~42?o=ALL_REVISIONS&o=ALL_COMMITS': () =>
+                ")]}'\n" +
+                JSON.stringify({
+                    project: 'gorilla/mux',
+                    current_revision: PATCHSET_2_COMMIT_ID,
+                    revisions: {
+                        [PATCHSET_1_COMMIT_ID]: revision(1),
+                        [PATCHSET_2_COMMIT_ID]: revision(2),
+                    },
+                }),
+        })
+    })
+
+    afterEach(() => restoreNetwork())
+
+    describe('change page', () => {
+        beforeEach(() => loadFixture('gerrit/change', 'https://gerrit.example.com/c/gorilla/mux/+/42'))
+
+        it('finds the diffs in the shadow roots of the file list', async () => {
+            const codeViews = await findCodeViewsOnPage(gerritCodeHost)
+            expect(codeViews).to.have.length(2)
+
+            const fileInfos = await Promise.all(
+                codeViews.map(({ codeView, resolveFileInfo }) => resolveFileInfo(codeView).toPromise())
+            )
+            expect(fileInfos).to.deep.equal(
+                ['mux.go', 'regexp.go'].map(filePath => ({
+                    repoPath: 'gerrit.example.com/gorilla/mux',
+                    filePath,
+                    commitID: PATCHSET_2_COMMIT_ID,
+                    rev: PATCHSET_2_COMMIT_ID,
+                    baseCommitID: BASE_COMMIT_ID,
+                    baseRev: BASE_COMMIT_ID,
+                    headHasFileContents: true,
+                    baseHasFileContents: true,
+                }))
+            )
+        })
+
+        it('splits the line ranges where unchanged lines are skipped', async () => {
+            const [{ codeView, getLineRanges, dom }] = await findCodeViewsOnPage(gerritCodeHost)
+
+            expect(getLineRanges(codeView, 'head')).to.deep.equal([{ start: 10, end: 14 }, { start: 31, end: 31 }])
+            expect(getLineRanges(codeView, 'base')).to.deep.equal([{ start: 10, end: 13 }, { start: 30, end: 30 }])
+            expect(dom.getCodeElementFromLineNumber(codeView, 12, 'head')!.textContent).to.equal('\t"regexp"')
+            expect(dom.getCodeElementFromLineNumber(codeView, 12, 'base')!.textContent).to.equal('\t"strings"')
+
+            const removed = dom.getCodeElementFromLineNumber(codeView, 30, 'base')!
+            expect(dom.getDiffCodePart!(removed)).to.equal('base')
+            expect(dom.getLineNumberFromCodeElement(removed)).to.equal(30)
+        })
+    })
+
+    describe('diff page', () => {
+        beforeEach(() => loadFixture('gerrit/diff', 'https://gerrit.example.com/c/gorilla/mux/+/42/1..2/mux.go'))
+
+        it('finds both sides of the file diffed against the base patchset', async () => {
+            const codeViews = await findCodeViewsOnPage(gerritCodeHost)
+            expect(codeViews).to.have.length(1)
+
+            const [{ codeView, resolveFileInfo, getLineRanges, dom, isDiff }] = codeViews
+            expect(isDiff).to.equal(true)
+            expect(await resolveFileInfo(codeView).toPromise()).to.deep.equal({
+                repoPath: 'gerrit.example.com/gorilla/mux',
+                filePath: 'mux.go',
+                commitID: PATCHSET_2_COMMIT_ID,
+                rev: PATCHSET_2_COMMIT_ID,
+                baseCommitID: PATCHSET_1_COMMIT_ID,
+                baseRev: PATCHSET_1_COMMIT_ID,
+                headHasFileContents: true,
+                baseHasFileContents: true,
+            })
+            expect(getLineRanges(codeView, 'head')).to.deep.equal([{ start: 10, end: 14 }])
+            expect(getLineRanges(codeView, 'base')).to.deep.equal([{ start: 10, end: 13 }])
+
+            const strings = dom.getCodeElementFromLineNumber(codeView, 12, 'base')!
+            expect(strings.textContent).to.equal('\t"strings"')
+            expect(dom.getDiffCodePart!(strings)).to.equal('base')
+            expect(dom.getLineNumberFromCodeElement(strings)).to.equal(12)
+            expect(getContentOfCodeView(codeView, { dom, isDiff, getLineRanges })).to.deep.equal({
+                content: '\n'.repeat(9) + '\t"net/http"\n\t"path"\n\t"regexp"\n\t"strings"\n)\n',
+                baseContent: '\n'.repeat(9) + '\t"net/http"\n\t"path"\n\t"strings"\n)\n',
+            })
+        })
+    })
+})
@@ -0,0 +1,49 @@
+import storage from '../../browser/storage'
+import { CodeHost, CodeViewResolver, CodeViewWithOutSelector } from '../code_intelligence'
+import { diffDOMFunctions, diffGetLineRanges } from './dom_functions'
+import { resolveDiffFileInfo } from './file_info'
+import { observeShadowRoots } from './shadow_dom'
+
+/**
+ * Checks for the root element of Gerrit's Polymer UI. This does not take the
+ * enterprise URL list into account, see `checkIsGerrit`.
+ */
+export function checkIsGerritPage(): boolean {
+    return !!document.querySelector('gr-app')
+}
+
+/**
+ * Gerrit is self-hosted so we only run on instances the user added to the
+ * enterprise URL list.
+ */
+function checkIsGerrit(): Promise<boolean> {
+    if (!checkIsGerritPage()) {
+        return Promise.resolve(false)
+    }
+
+    return new Promise<boolean>(resolve =>
+        storage.getSync(items => resolve(!!items.enterpriseUrls.find(url => url === window.location.origin)))
+    )
+}
+
+// The `CodeViewToolbar` isn't rendered on Gerrit: our stylesheet can't reach
+// into the shadow DOM the diffs are rendered in.
+const diffCodeView: CodeViewWithOutSelector = {
+    dom: diffDOMFunctions,
+    isDiff: true,
+    resolveFileInfo: resolveDiffFileInfo,
+    getLineRanges: diffGetLineRanges,
+}
+
+const codeViewResolver: CodeViewResolver = {
+    // Both the side-by-side and the unified diff render a `#diffTable` inside of `gr-diff`'s shadow root.
+    selector: '#diffTable',
+    resolveCodeView: () => diffCodeView,
+}
+
+export const gerritCodeHost: CodeHost = {
+    name: 'gerrit',
+    check: checkIsGerrit,
+    codeViewResolver,
+    getCodeViewContainers: () => observeShadowRoots(document.body),
+}
@@ -0,0 +1,90 @@
+import { DiffPart, DOMFunctions } from '@sourcegraph/codeintellify'
+import { CodeView } from '../code_intelligence'
+
+const lineNumberSide = (part?: DiffPart) => (part === 'base' ? 'left' : 'right')
+
+const getDiffCodePart: DOMFunctions['getDiffCodePart'] = codeElement => {
+    const contentCell = codeElement.closest('td.content')!
+
+    // Side-by-side diff: each row has a content cell for either side.
+    if (contentCell.closest('tr')!.classList.contains('side-by-side')) {
+        return contentCell.classList.contains('left') ? 'base' : 'head'
+    }
+
+    // Unified diff: removed lines belong to the base, added and unchanged lines to the head.
+    return contentCell.classList.contains('remove') ? 'base' : 'head'
+}
+
+const getLineNumber = (lineNumberCell: Element | null): number | null => {
+    const value = lineNumberCell && lineNumberCell.getAttribute('data-value')
+    if (!value || !/^\d+$/.test(value)) {
+        return null
+    }
+
+    return parseInt(value, 10)
+}
+
+export const diffDOMFunctions: DOMFunctions = {
+    getCodeElementFromTarget: target => {
+        const contentCell = target.closest('td.content')
+        return contentCell && contentCell.querySelector<HTMLElement>('.contentText')
+    },
+    getLineNumberFromCodeElement: codeElement => {
+        const row = codeElement.closest('tr')!
+        const line = getLineNumber(row.querySelector(`td.lineNum.${lineNumberSide(getDiffCodePart(codeElement))}`))
+        if (line === null) {
+            throw new Error('Unable to determine line number for diff code element')
+        }
+
+        return line
+    },
+    getCodeElementFromLineNumber: (codeView, line, part) => {
+        const side = lineNumberSide(part)
+        const lineNumberCell = codeView.querySelector(`td.lineNum.${side}[data-value="${line}"]`)
+        if (!lineNumberCell) {
+            return null
+        }
+
+        const row = lineNumberCell.closest('tr')!
+        // Side-by-side rows have a content cell per side, unified rows only one.
+        const contentCell = row.querySelector(`td.content.${side}`) || row.querySelector('td.content')
+
+        return contentCell && contentCell.querySelector<HTMLElement>('.contentText')
+    },
+    getDiffCodePart,
+    // Gerrit doesn't render diff indicators.
+    isFirstCharacterDiffIndicator: () => false,
+}
+
+export const diffGetLineRanges: CodeView['getLineRanges'] = (codeView, part) => {
+    const ranges: { start: number; end: number }[] = []
+
+    let start: number | null = null
+    let end: number | null = null
+
+    for (const row of codeView.querySelectorAll<HTMLTableRowElement>('tr.diff-row')) {
+        const line = getLineNumber(row.querySelector(`td.lineNum.${lineNumberSide(part)}`))
+        if (line === null) {
+            // Either a line that only exists on the other side or a file level row.
+            continue
+        }
+
+        // Skipped sections of unchanged lines don't get rendered, so a gap
+        // in the line numbers starts a new range.
+        if (start !== null && end !== null && line !== end + 1) {
+            ranges.push({ start, end })
+            start = null
+        }
+
+        if (start === null) {
+            start = line
+        }
+        end = line
+    }
+
+    if (start !== null && end !== null) {
+        ranges.push({ start, end })
+    }
+
+    return ranges
+}
@@ -0,0 +1,53 @@
+import { Observable, of, zip } from 'rxjs'
+import { map, switchMap } from 'rxjs/operators'
+
+import { resolveRev, retryWhenCloneInProgressError } from '../../shared/repo/backend'
+import { FileInfo } from '../code_intelligence'
+import { getCommitsForChange } from './api'
+import { getChangeInfo, getFilePathFromCodeView } from './scrape'
+
+const ensureRevisionsAreCloned = (files: Observable<FileInfo>): Observable<FileInfo> =>
+    files.pipe(
+        switchMap(({ repoPath, rev, baseRev, ...rest }) => {
+            // Although we get the commit SHA's from elesewhere, we still need to
+            // use `resolveRev` otherwise we can't guarantee Sourcegraph has the
+            // revision cloned.
+            const resolvingHeadRev = resolveRev({ repoPath, rev }).pipe(retryWhenCloneInProgressError())
+            const resolvingBaseRev = resolveRev({ repoPath, rev: baseRev }).pipe(retryWhenCloneInProgressError())
+
+            return zip(resolvingHeadRev, resolvingBaseRev).pipe(map(() => ({ repoPath, rev, baseRev, ...rest })))
+        })
+    )
+
+/**
+ * Gets `FileInfo` for a diff in a change. Both the change view and the diff
+ * view of a single file show the same kind of diff.
+ */
+export const resolveDiffFileInfo = (codeView: HTMLElement): Observable<FileInfo> =>
+    of(undefined).pipe(
+        map(getChangeInfo),
+        // Resolve the project and commit IDs.
+        switchMap(info =>
+            getCommitsForChange(info).pipe(
+                map(({ project, headCommitID, baseCommitID }) => ({
+                    repoPath: `${window.location.hostname}/${project}`,
+                    commitID: headCommitID,
+                    rev: headCommitID,
+                    baseCommitID,
+                    baseRev: baseCommitID,
+                }))
+            )
+        ),
+        map(info => ({
+            ...info,
+            filePath: getFilePathFromCodeView(codeView),
+        })),
+        map(info => ({
+            ...info,
+
+            // https://github.com/sourcegraph/browser-extensions/issues/185
+            headHasFileContents: true,
+            baseHasFileContents: true,
+        })),
+        ensureRevisionsAreCloned
+    )
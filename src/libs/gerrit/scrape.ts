@@ -0,0 +1,84 @@
+import { getParentElement } from './shadow_dom'
+
+/**
+ * Information about a Gerrit change that can be found in the URL.
+ */
+export interface GerritChangeInfo {
+    /**
+     * The project name. Older URLs (`/c/<change>/...`) don't include it, in
+     * which case it is taken from the REST API.
+     */
+    project?: string
+    changeNumber: string
+
+    /** The patchset shown on the head side of the diff. Defaults to the current patchset. */
+    patchset?: number
+    /** The patchset shown on the base side of the diff. Defaults to the parent commit of `patchset`. */
+    basePatchset?: number
+
+    /** Only set on the diff view of a single file. */
+    filePath?: string
+
+    /**
+     * The URL Gerrit is served from. Gerrit can be served from a path, e.g.
+     * `https://example.com/r/`.
+     */
+    baseURL: string
+}
+
+const createErrorBuilder = (message: string) => (kind: string) => new Error(`${message} (${kind})`)
+
+const buildPageError = createErrorBuilder('Unable to determine change information')
+
+/**
+ * Matches `/c/<project>/+/<change>`, `/c/<change>` and the optional
+ * `/<base>..<patchset>` and `/<file path>` that follow.
+ */
+const changeURLRegex = /^(.*?)\/c\/(?:(.+?)\/\+\/)?(\d+)(?:\/(?:(-?\d+)\.\.)?(\d+))?(?:\/(.+))?$/
+
+/**
+ * Gets information about the change from the URL.
+ */
+export function getChangeInfo(): GerritChangeInfo {
+    const matches = window.location.pathname.replace(/\/$/, '').match(changeURLRegex)
+    if (!matches) {
+        throw buildPageError('no-change')
+    }
+
+    const [, pathPrefix, project, changeNumber, basePatchset, patchset, filePath] = matches
+
+    return {
+        project: project ? decodeURIComponent(project) : undefined,
+        changeNumber,
+        patchset: patchset ? parseInt(patchset, 10) : undefined,
+        // Negative numbers refer to the parents of a merge commit, treat them like the default base.
+        basePatchset: basePatchset && parseInt(basePatchset, 10) > 0 ? parseInt(basePatchset, 10) : undefined,
+        filePath: filePath ? decodeURIComponent(filePath) : undefined,
+        baseURL: window.location.origin + pathPrefix,
+    }
+}
+
+const buildFileError = createErrorBuilder('Unable to determine file information')
+
+/**
+ * Finds the file path of a code view. The diff view of a single file has it
+ * in the URL. On the change view, each expanded diff follows the file list
+ * row that has the path in its `data-path` attribute.
+ */
+export function getFilePathFromCodeView(codeView: HTMLElement): string {
+    const { filePath } = getChangeInfo()
+    if (filePath) {
+        return filePath
+    }
+
+    for (let element: Element | null = codeView; element; element = getParentElement(element)) {
+        for (let sibling = element.previousElementSibling; sibling; sibling = sibling.previousElementSibling) {
+            const path = sibling.getAttribute('data-path')
+            if (path) {
+                return path
+            }
+        }
+    }
+
+    throw buildFileError('no-file-row')
+}
@@ -0,0 +1,71 @@
+import { Observable } from 'rxjs'
+import { publishReplay, refCount } from 'rxjs/operators'
+
+/**
+ * Gets the parent element of an element, crossing shadow DOM boundaries.
+ */
+export function getParentElement(element: Element): Element | null {
+    if (element.parentElement) {
+        return element.parentElement
+    }
+
+    // The parent of the top level elements in a shadow tree is the shadow root.
+    const { parentNode } = element
+    return parentNode && parentNode.nodeType === Node.DOCUMENT_FRAGMENT_NODE ? (parentNode as ShadowRoot).host : null
+}
+
+/**
+ * Emits the given root and every open shadow root nested inside of it,
+ * including the ones that get attached after subscribing. Neither
+ * `querySelectorAll` nor a `MutationObserver` on the document can see into
+ * shadow trees, so each shadow root has to be searched and observed
+ * separately.
+ */
+export const observeShadowRoots = (root: ParentNode & Node): Observable<ParentNode & Node> =>
+    new Observable<ParentNode & Node>(observer => {
+        const seen = new Set<ParentNode & Node>()
+
+        const mutationObserver = new MutationObserver(mutations => {
+            for (const mutation of mutations) {
+                for (const node of mutation.addedNodes) {
+                    if (node instanceof Element) {
+                        visitElement(node)
+                        visitDescendants(node)
+                    }
+                }
+            }
+        })
+
+        function visitContainer(container: ParentNode & Node): void {
+            if (seen.has(container)) {
+                return
+            }
+
+            seen.add(container)
+            observer.next(container)
+
+            mutationObserver.observe(container, { childList: true, subtree: true })
+            visitDescendants(container)
+        }
+
+        function visitElement(element: Element): void {
+            if (element.shadowRoot) {
+                visitContainer(element.shadowRoot)
+            }
+        }
+
+        function visitDescendants(container: ParentNode): void {
+            for (const element of container.querySelectorAll('*')) {
+                visitElement(element)
+            }
+        }
+
+        visitContainer(root)
+
+        return () => mutationObserver.disconnect()
+    }).pipe(
+        // The containers get subscribed to multiple times by `findCodeViews`,
+        // so only walk the DOM once.
+        publishReplay(),
+        refCount()
+    )
@@ -0,0 +1,44 @@
+import { Observable } from 'rxjs'
+import { ajax } from 'rxjs/ajax'
+import { map } from 'rxjs/operators'
+
+import { memoizeObservable } from '../../shared/util/memoize'
+import { GiteaPullRequestPageInfo } from './scrape'
+
+/**
+ * A branch as returned by the Gitea API. Note that there is more information
+ * returned but we are not using it.
+ */
+interface PullRequestBranch {
+    sha: string
+}
+
+/**
+ * Response from the Gitea API for fetching a pull request. Note that there is
+ * more information returned but we are not using it.
+ */
+interface PullRequestResponse {
+    base: PullRequestBranch
+    head: PullRequestBranch
+    /** Only returned by newer versions of Gitea. */
+    merge_base?: string
+}
+
+type GetCommitIDsInput = Pick<GiteaPullRequestPageInfo, 'owner' | 'repoName' | 'pullRequestID'>
+
+const buildURL = (owner: string, repoName: string, path: string) =>
+    `${window.location.origin}/api/v1/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repoName)}${path}`
+
+const get = <T>(url: string): Observable<T> => ajax.get(url).pipe(map(({ response }) => response as T))
+
+/**
+ * Get the base commit ID for a pull request.
+ */
+export const getBaseCommitIDForPullRequest: (info: GetCommitIDsInput) => Observable<string> = memoizeObservable(
+    ({ owner, repoName, pullRequestID }: GetCommitIDsInput) =>
+        get<PullRequestResponse>(buildURL(owner, repoName, `/pulls/${pullRequestID}`)).pipe(
+            // The diff is computed against the merge base so prefer it if it is available.
+            map(({ base, merge_base }) => merge_base || base.sha)
+        ),
+    ({ owner, repoName, pullRequestID }) => `${owner}/${repoName}/${pullRequestID}`
+)
@@ -0,0 +1,128 @@
+import { expect } from 'chai'
+import { afterEach, beforeEach, describe, it } from 'mocha'
+import { findCodeViewsOnPage, resolveRevToItself } from '../../testing/code_intelligence'
+import { loadFixture } from '../../testing/dom'
+import { stubNetwork } from '../../testing/network'
+import { getContentOfCodeView } from '../code_intelligence/code_views'
+import { giteaCodeHost } from './code_intelligence'
+
+const BASE_COMMIT_ID = '0c6b6ecf9ab5a4d5b4a3c2e1f0d9c8b7a6f5e4d3'
+const HEAD_COMMIT_ID = 'e3702bed27f0d39777b0b37b664b6280e8ef8fbf'
+
+describe('Gitea code host', () => {
+    let restoreNetwork: () => void
+
+    beforeEach(() => {
+        restoreNetwork = stubNetwork({
+            '/.api/graphql?ResolveRev': request =>
+                request.body.variables.rev === 'master'
+                    ? resolveRevToItself({ body: { variables: { rev: HEAD_COMMIT_ID } } })
+                    : resolveRevToItself(request),
+            '/.api/graphql?ResolveParentRev': () => ({
+                data: {
+                    repository: {
+                        mirrorInfo: { cloneInProgress: false },
+                        commit: { parents: [{ oid: BASE_COMMIT_ID }] },
+                    },
+                },
+            }),
+            'https://gitea.example.com/api/v1/repos/gorilla/mux/pulls/3': () => ({
+                base: { sha: '1'.repeat(40) },
+                head: { sha: HEAD_COMMIT_ID },
+                merge_base: BASE_COMMIT_ID,
+            }),
+        })
+    })
+
+    afterEach(() => restoreNetwork())
+
+    describe('file page', () => {
+        beforeEach(() => loadFixture('gitea/file', 'https://gitea.example.com/gorilla/mux/src/branch/master/mux.go'))
+
+        it('finds the file', async () => {
+            const codeViews = await findCodeViewsOnPage(giteaCodeHost)
+            expect(codeViews).to.have.length(1)
+
+            const [{ codeView, resolveFileInfo, getLineRanges, dom, isDiff }] = codeViews
+            expect(isDiff).to.equal(false)
+            expect(await resolveFileInfo(codeView).toPromise()).to.deep.equal({
+                repoPath: 'gitea.example.com/gorilla/mux',
+                filePath: 'mux.go',
+                commitID: HEAD_COMMIT_ID,
+                rev: 'master',
+            })
+            expect(getLineRanges(codeView)).to.deep.equal([{ start: 1, end: 5 }])
+            expect(dom.getCodeElementFromLineNumber(codeView, 5)!.textContent).to.equal('package mux')
+            expect(getContentOfCodeView(codeView, { dom, isDiff, getLineRanges })).to.deep.equal({
+                content:
+                    '// Copyright 2012 The Gorilla Authors. All rights reserved.\n' +
+                    '// Use of this source code is governed by a BSD-style\n' +
+                    '// license that can be found in the LICENSE file.\n' +
+                    '\n' +
+                    'package mux\n',
+                baseContent: undefined,
+            })
+        })
+    })
+
+    describe('commit page', () => {
+        beforeEach(() => loadFixture('gitea/commit', `https://gitea.example.com/gorilla/mux/commit/${HEAD_COMMIT_ID}`))
+
+        it('finds both sides of the renamed file', async () => {
+            const codeViews = await findCodeViewsOnPage(giteaCodeHost)
+            expect(codeViews).to.have.length(1)
+
+            const [{ codeView, resolveFileInfo, getLineRanges, dom, isDiff }] = codeViews
+            expect(isDiff).to.equal(true)
+            expect(await resolveFileInfo(codeView).toPromise()).to.deep.equal({
+                repoPath: 'gitea.example.com/gorilla/mux',
+                filePath: 'mux.go',
+                commitID: HEAD_COMMIT_ID,
+                rev: HEAD_COMMIT_ID,
+                baseFilePath: 'router.go',
+                baseCommitID: BASE_COMMIT_ID,
+                baseRev: BASE_COMMIT_ID,
+                headHasFileContents: true,
+                baseHasFileContents: true,
+            })
+            expect(getLineRanges(codeView, 'head')).to.deep.equal([{ start: 10, end: 14 }])
+            expect(getLineRanges(codeView, 'base')).to.deep.equal([{ start: 10, end: 13 }])
+            expect(dom.getCodeElementFromLineNumber(codeView, 12, 'head')!.textContent).to.equal('\t"regexp"')
+            expect(dom.getCodeElementFromLineNumber(codeView, 12, 'base')!.textContent).to.equal('\t"strings"')
+            expect(getContentOfCodeView(codeView, { dom, isDiff, getLineRanges })).to.deep.equal({
+                content: '\n'.repeat(9) + '\t"net/http"\n\t"path"\n\t"regexp"\n\t"strings"\n)\n',
+                baseContent: '\n'.repeat(9) + '\t"net/http"\n\t"path"\n\t"strings"\n)\n',
+            })
+        })
+    })
+
+    describe('pull request page', () => {
+        beforeEach(() => loadFixture('gitea/pull-request', 'https://gitea.example.com/gorilla/mux/pulls/3/files'))
+
+        it('finds both sides of the changed file against the merge base', async () => {
+            const codeViews = await findCodeViewsOnPage(giteaCodeHost)
+            expect(codeViews).to.have.length(1)
+
+            const [{ codeView, resolveFileInfo, getLineRanges, dom, isDiff }] = codeViews
+            expect(isDiff).to.equal(true)
+            expect(await resolveFileInfo(codeView).toPromise()).to.deep.equal({
+                repoPath: 'gitea.example.com/gorilla/mux',
+                filePath: 'mux.go',
+                commitID: HEAD_COMMIT_ID,
+                rev: HEAD_COMMIT_ID,
+                baseCommitID: BASE_COMMIT_ID,
+                baseRev: BASE_COMMIT_ID,
+                headHasFileContents: true,
+                baseHasFileContents: true,
+            })
+            expect(getLineRanges(codeView, 'head')).to.deep.equal([{ start: 10, end: 13 }])
+            expect(getLineRanges(codeView, 'base')).to.deep.equal([{ start: 10, end: 13 }])
+            expect(dom.getCodeElementFromLineNumber(codeView, 12, 'head')!.textContent).to.equal('\t"regexp"')
+            expect(dom.getCodeElementFromLineNumber(codeView, 12, 'base')!.textContent).to.equal('\t"strings"')
+
+            const baseCell = dom.getCodeElementFromLineNumber(codeView, 12, 'base')!
+            expect(dom.getDiffCodePart!(baseCell)).to.equal('base')
+            expect(dom.getLineNumberFromCodeElement(baseCell)).to.equal(12)
+        })
+    })
+})
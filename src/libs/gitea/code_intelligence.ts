@@ -0,0 +1,108 @@
+import storage from '../../browser/storage'
+import { CodeHost, CodeViewResolver, CodeViewWithOutSelector } from '../code_intelligence'
+import { diffDOMFunctions, diffGetLineRanges, singleFileDOMFunctions, singleFileGetLineRanges } from './dom_functions'
+import { resolveCommitFileInfo, resolveFileInfo, resolvePullRequestFileInfo } from './file_info'
+import { getPageInfo, GiteaPageKind } from './scrape'
+
+const toolbarButtonProps = {
+    className: 'ui basic tiny button',
+    style: { textDecoration: 'none', color: 'inherit' },
+}
+
+/**
+ * Checks the meta tags Gitea and Gogs add to every page. This does not take
+ * the enterprise URL list into account, see `checkIsGitea`.
+ */
+export function checkIsGiteaPage(): boolean {
+    const keywords = document.head.querySelector<HTMLMetaElement>('meta[name="keywords"]')
+
+    return !!keywords && /\b(gitea|gogs)\b/.test(keywords.content)
+}
+
+/**
+ * Gitea and Gogs are self-hosted so we only run on instances the user added
+ * to the enterprise URL list.
+ */
+function checkIsGitea(): Promise<boolean> {
+    if (!checkIsGiteaPage()) {
+        return Promise.resolve(false)
+    }
+
+    return new Promise<boolean>(resolve =>
+        storage.getSync(items => resolve(!!items.enterpriseUrls.find(url => url === window.location.origin)))
+    )
+}
+
+const createToolbarMount = (codeView: HTMLElement) => {
+    const existingMount = codeView.querySelector<HTMLElement>('.sg-toolbar-mount')
+    if (existingMount) {
+        // Make this function idempotent; no need to create a mount twice.
+        return existingMount
+    }
+
+    const fileActions = codeView.querySelector('.header .file-actions, .header .ui.right')
+    if (!fileActions) {
+        throw new Error('Unable to find mount location')
+    }
+
+    const mount = document.createElement('div')
+    mount.classList.add('sg-toolbar-mount')
+    mount.classList.add('sg-toolbar-mount-gitea')
+
+    fileActions.insertAdjacentElement('afterbegin', mount)
+
+    return mount
+}
+
+const singleFileCodeView: CodeViewWithOutSelector = {
+    dom: singleFileDOMFunctions,
+    isDiff: false,
+    getToolbarMount: createToolbarMount,
+    resolveFileInfo,
+    toolbarButtonProps,
+    getLineRanges: singleFileGetLineRanges,
+}
+
+const commitCodeView: CodeViewWithOutSelector = {
+    dom: diffDOMFunctions,
+    isDiff: true,
+    getToolbarMount: createToolbarMount,
+    resolveFileInfo: resolveCommitFileInfo,
+    toolbarButtonProps,
+    getLineRanges: diffGetLineRanges,
+}
+
+const pullRequestCodeView: CodeViewWithOutSelector = {
+    dom: diffDOMFunctions,
+    isDiff: true,
+    getToolbarMount: createToolbarMount,
+    resolveFileInfo: resolvePullRequestFileInfo,
+    toolbarButtonProps,
+    getLineRanges: diffGetLineRanges,
+}
+
+const resolveCodeView = (codeView: HTMLElement): CodeViewWithOutSelector => {
+    const { pageKind } = getPageInfo()
+
+    if (pageKind === GiteaPageKind.PullRequest) {
+        return pullRequestCodeView
+    }
+
+    if (pageKind === GiteaPageKind.Commit) {
+        return commitCodeView
+    }
+
+    return singleFileCodeView
+}
+
+const codeViewResolver: CodeViewResolver = {
+    // File views have a single `#file-content`, diffs wrap every file in a `.diff-file-box`.
+    selector: '#file-content, .diff-file-box',
+    resolveCodeView,
+}
+
+export const giteaCodeHost: CodeHost = {
+    name: 'gitea',
+    check: checkIsGitea,
+    codeViewResolver,
+}
@@ -0,0 +1,124 @@
+import { DiffPart, DOMFunctions } from '@sourcegraph/codeintellify'
+import { CodeView } from '../code_intelligence'
+
+export const singleFileDOMFunctions: DOMFunctions = {
+    getCodeElementFromTarget: target => target.closest('td.lines-code') as HTMLElement | null,
+    getLineNumberFromCodeElement: codeElement => {
+        // The code cell references its line number cell with `rel="L<line>"`.
+        const line = (codeElement.getAttribute('rel') || '').replace(/^L/, '')
+        return parseInt(line, 10)
+    },
+    getCodeElementFromLineNumber: (codeView, line) =>
+        codeView.querySelector<HTMLElement>(`td.lines-code[rel="L${line}"]`),
+    isFirstCharacterDiffIndicator: () => false,
+}
+
+const lineNumberCellClass = (part?: DiffPart) => (part === 'base' ? 'lines-num-old' : 'lines-num-new')
+
+const getDiffCodePart: DOMFunctions['getDiffCodePart'] = codeElement => {
+    const row = codeElement.closest('tr')!
+
+    // Split diff: the line number cell for each side sits directly before its code cell.
+    if (codeElement.closest('.code-diff-split')) {
+        const lineNumberCell = codeElement.previousElementSibling
+        return lineNumberCell && lineNumberCell.classList.contains('lines-num-old') ? 'base' : 'head'
+    }
+
+    // Unified diff: deleted lines belong to the base, added and unchanged lines to the head.
+    return row.classList.contains('del-code') ? 'base' : 'head'
+}
+
+export const diffDOMFunctions: DOMFunctions = {
+    getCodeElementFromTarget: target => {
+        const codeCell = target.closest('td.lines-code') as HTMLElement | null
+        // Ignore the rows that separate sections of the diff.
+        if (!codeCell || codeCell.closest('tr')!.classList.contains('tag-code')) {
+            return null
+        }
+
+        return codeCell
+    },
+    getLineNumberFromCodeElement: codeElement => {
+        const part = getDiffCodePart(codeElement)
+
+        let cell = codeElement.previousElementSibling as HTMLElement | null
+        while (cell && !cell.classList.contains(lineNumberCellClass(part))) {
+            cell = cell.previousElementSibling as HTMLElement | null
+        }
+
+        if (!cell || !cell.dataset.lineNumber) {
+            throw new Error('Unable to determine line number for diff code element')
+        }
+
+        return parseInt(cell.dataset.lineNumber, 10)
+    },
+    getCodeElementFromLineNumber: (codeView, line, part) => {
+        const lineNumberCell = codeView.querySelector(`td.${lineNumberCellClass(part)}[data-line-number="${line}"]`)
+        if (!lineNumberCell) {
+            return null
+        }
+
+        // In unified diffs the head line number cell sits between the base line number cell and the code cell.
+        let codeElement = lineNumberCell.nextElementSibling as HTMLElement | null
+        while (codeElement && !codeElement.classList.contains('lines-code')) {
+            codeElement = codeElement.nextElementSibling as HTMLElement | null
+        }
+
+        return codeElement
+    },
+    getDiffCodePart,
+    // Gitea strips the diff indicator from the rendered code.
+    isFirstCharacterDiffIndicator: () => false,
+}
+
+export const singleFileGetLineRanges: CodeView['getLineRanges'] = codeView => {
+    const codeCells = codeView.querySelectorAll<HTMLElement>('td.lines-code')
+    if (codeCells.length === 0) {
+        throw new Error('Unable to determine start line of code view')
+    }
+
+    return [
+        {
+            start: singleFileDOMFunctions.getLineNumberFromCodeElement(codeCells[0]),
+            end: singleFileDOMFunctions.getLineNumberFromCodeElement(codeCells[codeCells.length - 1]),
+        },
+    ]
+}
+
+export const diffGetLineRanges: CodeView['getLineRanges'] = (codeView, part) => {
+    const ranges: { start: number; end: number }[] = []
+
+    let start: number | null = null
+    let end: number | null = null
+
+    for (const row of codeView.querySelectorAll<HTMLTableRowElement>('tr')) {
+        const isCode = !row.classList.contains('tag-code')
+
+        if (isCode) {
+            const lineNumberCell = row.querySelector<HTMLElement>(`td.${lineNumberCellClass(part)}`)
+            if (!lineNumberCell || !lineNumberCell.dataset.lineNumber) {
+                // Empty row
+                continue
+            }
+
+            const num = parseInt(lineNumberCell.dataset.lineNumber, 10)
+            if (start === null) {
+                start = num
+            }
+            end = num
+        } else if (start !== null && end !== null) {
+            ranges.push({ start, end })
+        }
+
+        if (!isCode) {
+            start = null
+            end = null
+        }
+    }
+
+    if (start !== null && end !== null) {
+        ranges.push({ start, end })
+    }
+
+    return ranges
+}
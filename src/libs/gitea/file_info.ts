@@ -0,0 +1,109 @@
+import { Observable, of, zip } from 'rxjs'
+import { map, switchMap } from 'rxjs/operators'
+
+import { resolveParentRev, resolveRev, retryWhenCloneInProgressError } from '../../shared/repo/backend'
+import { FileInfo } from '../code_intelligence'
+import { getBaseCommitIDForPullRequest } from './api'
+import {
+    getCommitPageInfo,
+    getFilePageInfo,
+    getFilePathsFromCodeView,
+    getHeadCommitIDFromCodeView,
+    getPullRequestPageInfo,
+} from './scrape'
+
+const ensureRevisionsAreCloned = (files: Observable<FileInfo>): Observable<FileInfo> =>
+    files.pipe(
+        switchMap(({ repoPath, rev, baseRev, ...rest }) => {
+            // Although we get the commit SHA's from elesewhere, we still need to
+            // use `resolveRev` otherwise we can't guarantee Sourcegraph has the
+            // revision cloned.
+            const resolvingHeadRev = resolveRev({ repoPath, rev }).pipe(retryWhenCloneInProgressError())
+            const resolvingBaseRev = resolveRev({ repoPath, rev: baseRev }).pipe(retryWhenCloneInProgressError())
+
+            return zip(resolvingHeadRev, resolvingBaseRev).pipe(map(() => ({ repoPath, rev, baseRev, ...rest })))
+        })
+    )
+
+/**
+ * Resolves file information for a page with a single file.
+ */
+export const resolveFileInfo = (): Observable<FileInfo> =>
+    of(undefined).pipe(
+        map(getFilePageInfo),
+        // The revision in the URL can be a branch or tag name so the commit ID
+        // has to be resolved by Sourcegraph.
+        switchMap(({ repoPath, filePath, rev }) =>
+            resolveRev({ repoPath, rev }).pipe(
+                retryWhenCloneInProgressError(),
+                map(commitID => ({ repoPath, filePath, commitID, rev }))
+            )
+        )
+    )
+
+/**
+ * Resolves file information for commit pages.
+ */
+export const resolveCommitFileInfo = (codeView: HTMLElement): Observable<FileInfo> =>
+    of(undefined).pipe(
+        map(getCommitPageInfo),
+        // Resolve base commit ID.
+        switchMap(({ repoPath, commitID }) =>
+            resolveParentRev({ repoPath, rev: commitID }).pipe(
+                retryWhenCloneInProgressError(),
+                map(baseCommitID => ({ repoPath, commitID, baseCommitID }))
+            )
+        ),
+        map(info => ({ ...info, rev: info.commitID, baseRev: info.baseCommitID })),
+        map(info => ({
+            ...info,
+            // Find both head and base file path if the name has changed.
+            ...getFilePathsFromCodeView(codeView),
+        })),
+        map(info => ({
+            ...info,
+
+            // https://github.com/sourcegraph/browser-extensions/issues/185
+            headHasFileContents: true,
+            baseHasFileContents: true,
+        })),
+        ensureRevisionsAreCloned
+    )
+
+/**
+ * Gets `FileInfo` for a pull request diff file.
+ */
+export const resolvePullRequestFileInfo = (codeView: HTMLElement): Observable<FileInfo> =>
+    of(undefined).pipe(
+        map(getPullRequestPageInfo),
+        // Resolve base commit ID.
+        switchMap(({ owner, repoName, pullRequestID, repoPath }) =>
+            getBaseCommitIDForPullRequest({ owner, repoName, pullRequestID }).pipe(
+                map(baseCommitID => ({ repoPath, baseCommitID, baseRev: baseCommitID }))
+            )
+        ),
+        map(info => {
+            // Head commit is found in the "View File" button in the code view.
+            const head = getHeadCommitIDFromCodeView(codeView)
+
+            return {
+                ...info,
+
+                rev: head,
+                commitID: head,
+            }
+        }),
+        map(info => ({
+            ...info,
+            // Find both head and base file path if the name has changed.
+            ...getFilePathsFromCodeView(codeView),
+        })),
+        map(info => ({
+            ...info,
+
+            // https://github.com/sourcegraph/browser-extensions/issues/185
+            headHasFileContents: true,
+            baseHasFileContents: true,
+        })),
+        ensureRevisionsAreCloned
+    )
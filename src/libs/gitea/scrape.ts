@@ -0,0 +1,166 @@
+import { FileInfo } from '../code_intelligence'
+
+export enum GiteaPageKind {
+    File,
+    Commit,
+    PullRequest,
+}
+
+/**
+ * General information that can be found on any Gitea page that we care about. (i.e. has code)
+ */
+export interface GiteaInfo {
+    pageKind: GiteaPageKind
+
+    owner: string
+    repoName: string
+
+    repoPath: string
+}
+
+const createErrorBuilder = (message: string) => (kind: string) => new Error(`${message} (${kind})`)
+
+const buildPageError = createErrorBuilder('Unable to determine page information')
+
+/**
+ * Gets information about the page from the URL. Gitea and Gogs repository
+ * URLs always start with `/<owner>/<repo>`.
+ */
+export function getPageInfo(): GiteaInfo {
+    const [owner, repoName, kind] = window.location.pathname.slice(1).split('/')
+    if (!owner || !repoName) {
+        throw buildPageError('no-repository')
+    }
+
+    let pageKind: GiteaPageKind
+    if (kind === 'commit') {
+        pageKind = GiteaPageKind.Commit
+    } else if (kind === 'pulls') {
+        pageKind = GiteaPageKind.PullRequest
+    } else {
+        pageKind = GiteaPageKind.File
+    }
+
+    return {
+        pageKind,
+        owner,
+        repoName,
+        repoPath: [window.location.hostname, owner, repoName].join('/'),
+    }
+}
+
+/**
+ * Information about single file pages.
+ */
+export interface GiteaFileInfo extends Pick<GiteaInfo, 'repoPath'> {
+    filePath: string
+    rev: string
+}
+
+/**
+ * Gets information about a file view page. Gitea prefixes the revision with
+ * its kind (`/src/branch/master/...`), Gogs does not (`/src/master/...`).
+ */
+export function getFilePageInfo(): GiteaFileInfo {
+    const { repoPath, owner, repoName } = getPageInfo()
+
+    const matches = window.location.pathname.match(
+        new RegExp(`${owner}\/${repoName}\/src\/(?:(?:branch|tag|commit)\/)?(.*?)\/(.*)`)
+    )
+    if (!matches) {
+        throw buildPageError('no-file-path')
+    }
+
+    return {
+        repoPath,
+        rev: decodeURIComponent(matches[1]),
+        filePath: decodeURIComponent(matches[2]),
+    }
+}
+
+/**
+ * Information specific to commit pages.
+ */
+export interface GiteaCommitPageInfo extends Pick<GiteaInfo, 'repoPath'> {
+    commitID: string
+}
+
+/**
+ * Gets the commit from the URL.
+ */
+export function getCommitPageInfo(): GiteaCommitPageInfo {
+    const { repoPath } = getPageInfo()
+
+    const matches = window.location.pathname.match(/\/commit\/([0-9a-f]{40})/)
+    if (!matches) {
+        throw buildPageError('no-commit-id')
+    }
+
+    return {
+        repoPath,
+        commitID: matches[1],
+    }
+}
+
+/**
+ * Information specific to pull request pages.
+ */
+export interface GiteaPullRequestPageInfo extends Pick<GiteaInfo, 'repoPath' | 'owner' | 'repoName'> {
+    pullRequestID: string
+}
+
+/**
+ * Gets the pull request ID from the URL.
+ */
+export function getPullRequestPageInfo(): GiteaPullRequestPageInfo {
+    const { repoPath, owner, repoName } = getPageInfo()
+
+    const matches = window.location.pathname.match(/\/pulls\/(\d+)/)
+    if (!matches) {
+        throw buildPageError('no-pull-request-id')
+    }
+
+    return {
+        repoPath,
+        owner,
+        repoName,
+        pullRequestID: matches[1],
+    }
+}
+
+const buildFileError = createErrorBuilder('Unable to determine file information')
+
+/**
+ * Finds the file paths from the header of a diff code view. If the file was
+ * renamed, the header reads `old → new` and both paths are returned.
+ */
+export function getFilePathsFromCodeView(codeView: HTMLElement): Pick<FileInfo, 'filePath' | 'baseFilePath'> {
+    const fileElement = codeView.querySelector<HTMLElement>('.header .file')
+    if (!fileElement) {
+        throw buildFileError('no-file-element')
+    }
+
+    const paths = (fileElement.textContent || '').split('→').map(path => path.trim())
+    if (!paths[0]) {
+        throw buildFileError('no-file-path')
+    }
+
+    return paths.length > 1 ? { filePath: paths[1], baseFilePath: paths[0] } : { filePath: paths[0] }
+}
+
+/**
+ * Gets the head commit ID from the "View File" button on the code view.
+ */
+export function getHeadCommitIDFromCodeView(codeView: HTMLElement): FileInfo['commitID'] {
+    const viewFileButton = codeView.querySelector<HTMLAnchorElement>('.header a.button[href*="/src/"]')
+    if (!viewFileButton) {
+        throw buildFileError('no-view-file-button')
+    }
+
+    const revMatch = new URL(viewFileButton.href).pathname.match(/\/src\/(?:commit\/)?([0-9a-f]{40})\//)
+    if (!revMatch) {
+        throw new Error('Unable to determine head revision from code view')
+    }
+
+    return revMatch[1]
+}
@@ -0,0 +1,120 @@
+import { expect } from 'chai'
+import { afterEach, beforeEach, describe, it } from 'mocha'
+import { findCodeViewsOnPage, resolveRevToItself } from '../../testing/code_intelligence'
+import { loadFixture } from '../../testing/dom'
+import { stubNetwork } from '../../testing/network'
+import { getContentOfCodeView } from '../code_intelligence/code_views'
+import { githubCodeHost } from './code_intelligence'
+
+const BASE_COMMIT_ID = '0b13a922203ebdbfd236c818efcd5ed46097d690'
+const HEAD_COMMIT_ID = 'e3702bed27f0d39777b0b37b664b6280e8ef8fbf'
+
+const DIFF_HEAD_CONTENT = '\n'.repeat(9) + '\t"net/http"\n\t"path"\n\t"regexp"\n\t"strings"\n)\n'
+const DIFF_BASE_CONTENT = '\n'.repeat(9) + '\t"net/http"\n\t"path"\n\t"strings"\n)\n'
+
+const DIFF_FILE_INFO = {
+    repoPath: 'github.com/gorilla/mux',
+    filePath: 'mux.go',
+    commitID: HEAD_COMMIT_ID,
+    rev: HEAD_COMMIT_ID,
+    baseRepoPath: 'github.com/gorilla/mux',
+    baseFilePath: 'mux.go',
+    baseCommitID: BASE_COMMIT_ID,
+    baseRev: BASE_COMMIT_ID,
+    headHasFileContents: true,
+    baseHasFileContents: true,
+}
+
+describe('GitHub code host', () => {
+    let restoreNetwork: () => void
+
+    beforeEach(() => {
+        restoreNetwork = stubNetwork({ '/.api/graphql?ResolveRev': resolveRevToItself })
+    })
+
+    afterEach(() => restoreNetwork())
+
+    describe('blob page', () => {
+        beforeEach(() => loadFixture('github/blob', 'https://github.com/gorilla/mux/blob/master/mux.go'))
+
+        it('finds the file', async () => {
+            const codeViews = await findCodeViewsOnPage(githubCodeHost)
+            expect(codeViews).to.have.length(1)
+
+            const [{ codeView, resolveFileInfo, getLineRanges, dom, isDiff }] = codeViews
+            expect(isDiff).to.equal(false)
+            expect(await resolveFileInfo(codeView).toPromise()).to.deep.equal({
+                repoPath: 'github.com/gorilla/mux',
+                filePath: 'mux.go',
+                commitID: HEAD_COMMIT_ID,
+                rev: 'master',
+            })
+            expect(getLineRanges(codeView)).to.deep.equal([{ start: 1, end: 8 }])
+            expect(dom.getCodeElementFromLineNumber(codeView, 5)!.textContent).to.equal('package mux')
+            expect(getContentOfCodeView(codeView, { dom, isDiff, getLineRanges })).to.deep.equal({
+                content:
+                    '// Copyright 2012 The Gorilla Authors. All rights reserved.\n' +
+                    '// Use of this source code is governed by a BSD-style\n' +
+                    '// license that can be found in the LICENSE file.\n' +
+                    '\n' +
+                    'package mux\n' +
+                    '\n' +
+                    'import (\n' +
+                    '\t"errors"\n',
+                baseContent: undefined,
+            })
+        })
+
+        it('removes the toolbar of the file when the page navigates', async () => {
+            const [{ codeView, getToolbarMount }] = await findCodeViewsOnPage(githubCodeHost)
+            const mount = getToolbarMount!(codeView)
+            codeView.classList.add('sg-annotated')
+
+            githubCodeHost.reset!()
+            expect(mount.isConnected).to.equal(false)
+            expect(codeView.classList.contains('sg-annotated')).to.equal(false)
+            expect(getToolbarMount!(codeView)).to.not.equal(mount)
+        })
+    })
+
+    const diffPages: { name: string; fixture: string; url: string }[] = [
+        {
+            name: 'unified pull request diff',
+            fixture: 'github/pull-request-unified',
+            url: 'https://github.com/gorilla/mux/pull/328/files',
+        },
+        {
+            name: 'split pull request diff',
+            fixture: 'github/pull-request-split',
+            url: 'https://github.com/gorilla/mux/pull/328/files?diff=split',
+        },
+        {
+            name: 'commit',
+            fixture: 'github/commit',
+            url: `https://github.com/gorilla/mux/commit/${HEAD_COMMIT_ID}`,
+        },
+    ]
+
+    for (const { name, fixture, url } of diffPages) {
+        describe(`${name} page`, () => {
+            beforeEach(() => loadFixture(fixture, url))
+
+            it('finds both sides of the changed file', async () => {
+                const codeViews = await findCodeViewsOnPage(githubCodeHost)
+                expect(codeViews).to.have.length(1)
+
+                const [{ codeView, resolveFileInfo, getLineRanges, dom, isDiff }] = codeViews
+                expect(isDiff).to.equal(true)
+                expect(await resolveFileInfo(codeView).toPromise()).to.deep.equal(DIFF_FILE_INFO)
+                expect(getLineRanges(codeView, 'head')).to.deep.equal([{ start: 10, end: 14 }])
+                expect(getLineRanges(codeView, 'base')).to.deep.equal([{ start: 10, end: 13 }])
+                expect(dom.getCodeElementFromLineNumber(codeView, 12, 'head')!.textContent).to.equal('\t"regexp"')
+                expect(dom.getCodeElementFromLineNumber(codeView, 12, 'base')!.textContent).to.equal('\t"strings"')
+                expect(getContentOfCodeView(codeView, { dom, isDiff, getLineRanges })).to.deep.equal({
+                    content: DIFF_HEAD_CONTENT,
+                    baseContent: DIFF_BASE_CONTENT,
+                })
+            })
+        })
+    }
+})
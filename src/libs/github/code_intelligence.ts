@@ -4,6 +4,7 @@ import { map } from 'rxjs/operators'
 import { JumpURLLocation } from '../../shared/backend/lsp'
 import { fetchBlobContentLines } from '../../shared/repo/backend'
 import { CodeHost, CodeView, CodeViewResolver, CodeViewWithOutSelector } from '../code_intelligence'
+import { getGlobalDebugMount } from '../code_intelligence/extensions'
 import {
     diffDomFunctions,
     getDiffLineRanges,
@@ -11,9 +12,11 @@ import {
     searchCodeSnippetDOMFunctions,
     singleFileDOMFunctions,
 } from './dom_functions'
-import { getCommandPaletteMount, getGlobalDebugMount } from './extensions'
+import { getCommandPaletteMount } from './extensions'
+import { fileFinder } from './file_finder'
 import { resolveDiffFileInfo, resolveFileInfo, resolveSnippetFileInfo } from './file_info'
-import { createCodeViewToolbarMount, getFileContainers, parseURL } from './util'
+import { fileTree } from './file_tree'
+import { createCodeViewToolbarMount, getFileContainers, parseURL, removeCodeViewToolbarMounts } from './util'
 
 const toolbarButtonProps = {
     className: 'btn btn-sm tooltipped tooltipped-n',
@@ -118,8 +121,11 @@ export const githubCodeHost: CodeHost = {
     codeViews: [searchResultCodeView, commentSnippetCodeView],
     codeViewResolver,
     check: checkIsGithub,
+    fileFinder,
+    fileTree,
     getCommandPaletteMount,
     getGlobalDebugMount,
+    reset: removeCodeViewToolbarMounts,
     buildJumpURLLocation: (def: JumpURLLocation) => {
         const rev = def.rev
         // If we're provided options, we can make the j2d URL more specific.
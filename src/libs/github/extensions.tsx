@@ -9,6 +9,7 @@ import * as React from 'react'
 import { render } from 'react-dom'
 import { GlobalDebug } from '../../shared/components/GlobalDebug'
 import { ShortcutProvider } from '../../shared/components/ShortcutProvider'
+import { getGlobalDebugMount } from '../code_intelligence/extensions'
 
 export function getCommandPaletteMount(): HTMLElement {
     const headerElem = document.querySelector('div.HeaderMenu>div:last-child')
@@ -29,20 +30,6 @@ export function getCommandPaletteMount(): HTMLElement {
     return document.querySelector<HTMLElement>('.' + commandListClass) || createCommandList()
 }
 
-export function getGlobalDebugMount(): HTMLElement {
-    const globalDebugClass = 'global-debug'
-
-    const createGlobalDebugMount = (): HTMLElement => {
-        const globalDebugElem = document.createElement('div')
-        globalDebugElem.className = globalDebugClass
-        document.body.appendChild(globalDebugElem)
-
-        return globalDebugElem
-    }
-
-    return document.querySelector<HTMLElement>('.' + globalDebugClass) || createGlobalDebugMount()
-}
-
 // TODO: remove with old inject
 export function injectExtensionsGlobalComponents({
     extensionsController,
@@ -0,0 +1,31 @@
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import { loadFixture } from '../../testing/dom'
+import { fileFinder } from './file_finder'
+
+describe('GitHub file finder', () => {
+    it('finds the repository and revision of a repository page', async () => {
+        loadFixture('github/blob', 'https://github.com/gorilla/mux/blob/master/mux.go')
+        expect(await fileFinder.getRepo().toPromise()).to.deep.equal({
+            repoPath: 'github.com/gorilla/mux',
+            rev: 'master',
+        })
+    })
+
+    it('finds no repository on other pages', async () => {
+        loadFixture('github/blob', 'https://github.com/gorilla/mux/blob/master/mux.go')
+        document.querySelector('.repohead')!.remove()
+        expect(await fileFinder.getRepo().toPromise()).to.equal(null)
+    })
+
+    it('links to the file at the revision', () => {
+        loadFixture('github/blob', 'https://ghe.example.com:8443/gorilla/mux/blob/master/mux.go')
+        expect(
+            fileFinder.buildFileURL({
+                repoPath: 'ghe.example.com:8443/gorilla/mux',
+                rev: 'master',
+                filePath: 'doc/README.md',
+            })
+        ).to.equal('https://ghe.example.com:8443/gorilla/mux/blob/master/doc/README.md')
+    })
+})
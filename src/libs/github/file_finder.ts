@@ -0,0 +1,15 @@
+import { of } from 'rxjs'
+import { FileFinderFeature } from '../code_intelligence/file_finder'
+import { parseURL } from './util'
+
+export const fileFinder: FileFinderFeature = {
+    getRepo: () => {
+        const { repoPath, rev } = parseURL()
+        // Only repository pages have the repository header.
+        if (!repoPath || !document.querySelector('.repohead')) {
+            return of(null)
+        }
+        return of({ repoPath, rev })
+    },
+    buildFileURL: ({ repoPath, rev, filePath }) => `${window.location.protocol}//${repoPath}/blob/${rev}/${filePath}`,
+}
@@ -0,0 +1,29 @@
+import { of } from 'rxjs'
+import storage from '../../browser/storage'
+import { FileTreeFeature, getFileTreeMount } from '../code_intelligence/file_tree'
+import { getGitHubState, parseURL } from './util'
+
+export const fileTree: FileTreeFeature = {
+    getLocation: () => {
+        const { repoPath } = parseURL()
+        const gitHubState = getGitHubState(window.location.href)
+        if (!repoPath || !gitHubState) {
+            return of(null)
+        }
+        return of({ repoPath, rev: gitHubState.rev, filePath: gitHubState.filePath })
+    },
+    getMount: () => {
+        const pjaxContainer = document.getElementById('js-repo-pjax-container')
+        if (!pjaxContainer) {
+            return null
+        }
+        // Octotree already shows a file tree.
+        if (document.querySelector('.octotree')) {
+            storage.setSync({ repositoryFileTreeEnabled: false })
+            return null
+        }
+        return getFileTreeMount(pjaxContainer)
+    },
+    buildURL: ({ repoPath, rev, filePath, type }) =>
+        `${window.location.protocol}//${repoPath}/${type}/${rev}/${filePath}`,
+}
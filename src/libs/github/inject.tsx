@@ -30,20 +30,21 @@ import { combineLatest, forkJoin, from, of, Subject } from 'rxjs'
 import { filter, map, take, withLatestFrom } from 'rxjs/operators'
 import { Disposable } from 'vscode-languageserver'
 import { GitHubBlobUrl } from '.'
-import storage from '../../browser/storage'
 import { applyDecoration, createMessageTransports } from '../../shared/backend/extensions'
 import { createExtensionsContextController } from '../../shared/backend/extensions'
 import {
-    createJumpURLFetcher,
+    createDefinitionsFetcher,
     createLSPFromExtensions,
     JumpURLLocation,
     lspViaAPIXlang,
     SimpleProviderFns,
+    toJumpURLFetcher,
     toTextDocumentIdentifier,
 } from '../../shared/backend/lsp'
 import { Alerts } from '../../shared/components/Alerts'
 import { ConfigureSourcegraphButton } from '../../shared/components/ConfigureSourcegraphButton'
 import { ContextualSourcegraphButton } from '../../shared/components/ContextualSourcegraphButton'
+import { HoverDefinitionPicker } from '../../shared/components/DefinitionPicker'
 import { CodeViewToolbar } from '../../shared/components/LegacyCodeViewToolbar'
 import { ServerAuthButton } from '../../shared/components/ServerAuthButton'
 import { SymbolsDropdownContainer } from '../../shared/components/SymbolsDropdownContainer'
@@ -51,19 +52,20 @@ import { WithResolvedRev } from '../../shared/components/WithResolvedRev'
 import { AbsoluteRepoFile, DiffResolvedRevSpec } from '../../shared/repo'
 import { resolveRev, retryWhenCloneInProgressError } from '../../shared/repo/backend'
 import { hideTooltip } from '../../shared/repo/tooltips'
-import { RepoRevSidebar } from '../../shared/tree/RepoRevSidebar'
 import {
     eventLogger,
     getModeFromPath,
     inlineSymbolSearchEnabled,
     renderMermaidGraphsEnabled,
-    repositoryFileTreeEnabled,
     sourcegraphUrl,
     useExtensions,
 } from '../../shared/util/context'
 import { featureFlags } from '../../shared/util/featureFlags'
+import { navigationEvents } from '../../shared/util/navigation'
+import { initFileTree } from '../code_intelligence/file_tree'
 import { diffDomFunctions, searchCodeSnippetDOMFunctions, singleFileDOMFunctions } from './dom_functions'
 import { injectExtensionsGlobalComponents } from './extensions'
+import { fileTree } from './file_tree'
 import { initSearch } from './search'
 import {
     createBlobAnnotatorMount,
@@ -75,6 +77,7 @@ import {
     getGitHubState,
     getRepoCodeSearchContainers,
     parseURL,
+    removeCodeViewToolbarMounts,
 } from './util'
 
 const buttonProps = {
@@ -88,26 +91,25 @@ const actionsNavItemClassProps = {
 }
 
 function refreshModules(): void {
-    for (const el of Array.from(document.getElementsByClassName('sourcegraph-app-annotator'))) {
-        el.remove()
-    }
-    for (const el of Array.from(document.getElementsByClassName('sourcegraph-app-annotator-base'))) {
-        el.remove()
-    }
-    for (const el of Array.from(document.querySelectorAll('.sg-annotated'))) {
-        el.classList.remove('sg-annotated')
-    }
+    removeCodeViewToolbarMounts()
     hideTooltip()
     inject()
 }
 
-window.addEventListener('pjax:end', () => {
-    refreshModules()
-})
-
 export function injectGitHubApplication(marker: HTMLElement): void {
     document.body.appendChild(marker)
     inject()
+    navigationEvents.subscribe(() => refreshModules())
+
+    // With the new injection, the file tree is added by the GitHub code host.
+    featureFlags
+        .isEnabled('newInject')
+        .then(isEnabled => {
+            if (!isEnabled) {
+                initFileTree(fileTree)
+            }
+        })
+        .catch(err => console.error('could not get feature flag', err))
 }
 
 function injectCodeIntelligence(): void {
@@ -284,79 +286,12 @@ function inject(): void {
     injectServerBanner()
     injectOpenOnSourcegraphButton()
 
-    injectFileTree()
     injectMermaid()
 
     initSearch()
     injectInlineSearch()
 }
 
-function hideFileTree(): void {
-    const tree = document.getElementById('sourcegraph-file-tree')
-    document.body.style.marginLeft = '0px'
-    if (!tree || !tree.parentNode) {
-        return
-    }
-    tree.parentNode.removeChild(tree)
-}
-
-const specChanges = new Subject<{ repoPath: string; commitID: string }>()
-
-function injectFileTree(): void {
-    if (!repositoryFileTreeEnabled) {
-        return
-    }
-    const { repoPath } = parseURL()
-
-    if (!repoPath) {
-        return
-    }
-    const pjaxContainer = document.getElementById('js-repo-pjax-container')
-    if (!pjaxContainer) {
-        return
-    }
-
-    let container = document.getElementById('sourcegraph-file-tree-container') as HTMLElement
-    let mount = document.getElementById('sourcegraph-file-tree') as HTMLElement
-    if (!mount) {
-        mount = document.createElement('div')
-        mount.id = 'sourcegraph-file-tree'
-        mount.className = 'tree-mount'
-        mount.setAttribute('data-pjax', 'true')
-        container = document.createElement('div')
-        container.id = 'sourcegraph-file-tree-container'
-        container.className = 'repo-rev-container'
-        mount.appendChild(container)
-        pjaxContainer.insertBefore(mount, pjaxContainer.firstElementChild!)
-    }
-
-    const gitHubState = getGitHubState(window.location.href)
-    if (!gitHubState) {
-        return
-    }
-    if (document.querySelector('.octotree')) {
-        storage.setSync({ repositoryFileTreeEnabled: false })
-        hideFileTree()
-        return
-    }
-    render(
-        <WithResolvedRev
-            component={RepoRevSidebar}
-            className="repo-rev-container__sidebar"
-            repoPath={repoPath}
-            rev={gitHubState.rev}
-            history={history}
-            scrollRootSelector="#explorer"
-            selectedPath={gitHubState.filePath}
-            filePath={gitHubState.filePath}
-            location={window.location}
-            defaultBranch={'HEAD'}
-        />,
-        container
-    )
-    specChanges.next({ repoPath, commitID: gitHubState.rev || '' })
-}
-
 /**
  * injectCodeSnippetAnnotator annotates the given containers and adds a view file button.
  * @param containers The blob containers that holds the code snippet to be annotated.
@@ -494,33 +429,38 @@ function createCodeIntelligenceContainer(options: {
 
     const relativeElement = document.body
 
-    const fetchJumpURL = createJumpURLFetcher(options.simpleProviderFns.fetchDefinition, (def: JumpURLLocation) => {
-        const rev = def.rev
-        // If we're provided options, we can make the j2d URL more specific.
-        if (options) {
-            const sameRepo = options.repoPath === def.repoPath
-            // Stay on same page in PR if possible.
-            if (sameRepo && def.part) {
-                const containers = getFileContainers()
-                for (const container of containers) {
-                    const header = container.querySelector('.file-header') as HTMLElement
-                    const anchorPath = header.dataset.path
-                    if (anchorPath === def.filePath) {
-                        const anchorUrl = header.dataset.anchor
-                        const url = `${window.location.origin}${window.location.pathname}#${anchorUrl}${
-                            def.part === 'base' ? 'L' : 'R'
-                        }${def.position.line}`
-
-                        return url
+    const fetchDefinitions = createDefinitionsFetcher(
+        options.simpleProviderFns.fetchDefinition,
+        (def: JumpURLLocation) => {
+            const rev = def.rev
+            // If we're provided options, we can make the j2d URL more specific.
+            if (options) {
+                const sameRepo = options.repoPath === def.repoPath
+                // Stay on same page in PR if possible.
+                if (sameRepo && def.part) {
+                    const containers = getFileContainers()
+                    for (const container of containers) {
+                        const header = container.querySelector('.file-header') as HTMLElement
+                        const anchorPath = header.dataset.path
+                        if (anchorPath === def.filePath) {
+                            const anchorUrl = header.dataset.anchor
+                            const url = `${window.location.origin}${window.location.pathname}#${anchorUrl}${
+                                def.part === 'base' ? 'L' : 'R'
+                            }${def.position.line}`
+
+                            return url
+                        }
                     }
                 }
             }
+
+            return `https://${def.repoPath}/blob/${rev}/${def.filePath}#L${def.position.line}${
+                def.position.character ? ':' + def.position.character : ''
+            }`
         }
+    )
 
-        return `https://${def.repoPath}/blob/${rev}/${def.filePath}#L${def.position.line}${
-            def.position.character ? ':' + def.position.character : ''
-        }`
-    })
+    const fetchJumpURL = toJumpURLFetcher(fetchDefinitions)
 
     const containerComponentUpdates = new Subject<void>()
 
@@ -545,6 +485,9 @@ function createCodeIntelligenceContainer(options: {
     })
 
     class HoverOverlayContainer extends React.Component<{}, HoverState> {
+        private hoverOverlayElement: HTMLElement | null = null
+        private definitionPicker: HoverDefinitionPicker | null = null
+
         constructor(props: {}) {
             super(props)
             this.state = hoverifier.hoverState
@@ -558,16 +501,37 @@ function createCodeIntelligenceContainer(options: {
         }
         public render(): JSX.Element | null {
             return this.state.hoverOverlayProps ? (
-                <HoverOverlay
-                    {...this.state.hoverOverlayProps}
-                    linkComponent={LinkComponent}
-                    logTelemetryEvent={this.log}
-                    hoverRef={nextOverlayElement}
-                    onGoToDefinitionClick={nextGoToDefinitionClick}
-                    onCloseButtonClick={nextCloseButtonClick}
-                />
+                <>
+                    <HoverOverlay
+                        {...this.state.hoverOverlayProps}
+                        linkComponent={LinkComponent}
+                        logTelemetryEvent={this.log}
+                        hoverRef={this.nextOverlayElement}
+                        onGoToDefinitionClick={this.onGoToDefinitionClick}
+                        onCloseButtonClick={nextCloseButtonClick}
+                    />
+                    <HoverDefinitionPicker
+                        hoveredToken={this.state.hoverOverlayProps.hoveredToken}
+                        fetchDefinitions={fetchDefinitions}
+                        hoverOverlayElement={this.hoverOverlayElement}
+                        ref={this.setDefinitionPicker}
+                    />
+                </>
             ) : null
         }
+        private nextOverlayElement = (element: HTMLElement | null) => {
+            this.hoverOverlayElement = element
+            nextOverlayElement(element)
+        }
+        private setDefinitionPicker = (definitionPicker: HoverDefinitionPicker | null) => {
+            this.definitionPicker = definitionPicker
+        }
+        private onGoToDefinitionClick = (event: MouseEvent) => {
+            // Let the user pick one of the definitions instead of jumping to the first one.
+            if (!this.definitionPicker || !this.definitionPicker.onGoToDefinitionClick(event)) {
+                nextGoToDefinitionClick(event)
+            }
+        }
         private log = () => eventLogger.logCodeIntelligenceEvent()
     }
 
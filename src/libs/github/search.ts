@@ -1,6 +1,6 @@
 import storage from '../../browser/storage'
 import { resolveRev } from '../../shared/repo/backend'
-import { getPlatformName, repoUrlCache, sourcegraphUrl } from '../../shared/util/context'
+import { getPlatformName, getSourcegraphURLForRepo } from '../../shared/util/context'
 import * as github from './util'
 
 function getSourcegraphURLProps(
@@ -46,7 +46,7 @@ export function initSearch(): void {
                 // Ensure that we open the correct sourcegraph server url by checking which
                 // server instance can access the repository.
                 resolveRev({ repoPath: linkProps.repo }).subscribe(() => {
-                    const baseUrl = repoUrlCache[linkProps.repo] || sourcegraphUrl
+                    const baseUrl = getSourcegraphURLForRepo(linkProps.repo)
                     const url = `${baseUrl}/${linkProps.url}`
                     window.open(url, '_blank')
                 })
@@ -97,6 +97,20 @@ export function createCodeViewToolbarMount(fileContainer: HTMLElement): HTMLElem
     return mountEl
 }
 
+/**
+ * Removes the toolbars added to the file containers on the page, so that
+ * file containers that stay on the page after a pjax navigation get them
+ * added again for the new URL.
+ */
+export function removeCodeViewToolbarMounts(): void {
+    for (const mount of document.querySelectorAll('.sourcegraph-app-annotator, .sourcegraph-app-annotator-base')) {
+        mount.remove()
+    }
+    for (const annotated of document.querySelectorAll('.sg-annotated')) {
+        annotated.classList.remove('sg-annotated')
+    }
+}
+
 export function isInlineCommentContainer(file: HTMLElement): boolean {
     return file.classList.contains('inline-review-comment')
 }
@@ -0,0 +1,121 @@
+import { expect } from 'chai'
+import { afterEach, beforeEach, describe, it } from 'mocha'
+import { findCodeViewsOnPage, resolveRevToItself } from '../../testing/code_intelligence'
+import { loadFixture } from '../../testing/dom'
+import { stubNetwork } from '../../testing/network'
+import { getContentOfCodeView } from '../code_intelligence/code_views'
+import { gitlabCodeHost } from './code_intelligence'
+
+const BASE_COMMIT_ID = '4f8d2b3c59e0a1d7c6b5a4f3e2d1c0b9a8f7e6d5'
+const HEAD_COMMIT_ID = 'a1b2c3d4e5f60718293a4b5c6d7e8f9012345678'
+
+const DIFF_HEAD_CONTENT = '\n'.repeat(5) + '\t"context"\n\t"encoding/json"\n\t"errors"\n\t"io"\n)\n'
+const DIFF_BASE_CONTENT = '\n'.repeat(5) + '\t"context"\n\t"encoding/json"\n\t"io"\n)\n'
+
+describe('GitLab code host', () => {
+    let restoreNetwork: () => void
+
+    beforeEach(() => {
+        restoreNetwork = stubNetwork({
+            '/.api/graphql?ResolveRev': resolveRevToItself,
+            '/api/v4/projects/sourcegraph%2fjsonrpc2/merge_requests/1/versions/2': () => ({
+                base_commit_sha: BASE_COMMIT_ID,
+            }),
+            [`/api/v4/projects/sourcegraph%2fjsonrpc2/repository/commits/${HEAD_COMMIT_ID}`]: () => ({
+                parent_ids: [BASE_COMMIT_ID],
+            }),
+        })
+    })
+
+    afterEach(() => restoreNetwork())
+
+    describe('blob page', () => {
+        beforeEach(() => loadFixture('gitlab/blob', 'https://gitlab.com/sourcegraph/jsonrpc2/blob/master/jsonrpc2.go'))
+
+        it('finds the file', async () => {
+            const codeViews = await findCodeViewsOnPage(gitlabCodeHost)
+            expect(codeViews).to.have.length(1)
+
+            const [{ codeView, resolveFileInfo, getLineRanges, dom, isDiff }] = codeViews
+            expect(isDiff).to.equal(false)
+            expect(await resolveFileInfo(codeView).toPromise()).to.deep.equal({
+                repoPath: 'gitlab.com/sourcegraph/jsonrpc2',
+                filePath: 'jsonrpc2.go',
+                commitID: HEAD_COMMIT_ID,
+                rev: 'master',
+            })
+            expect(getLineRanges(codeView)).to.deep.equal([{ start: 1, end: 6 }])
+            expect(dom.getCodeElementFromLineNumber(codeView, 3)!.textContent).to.equal('package jsonrpc2')
+            expect(getContentOfCodeView(codeView, { dom, isDiff, getLineRanges })).to.deep.equal({
+                content:
+                    '// Package jsonrpc2 provides a client and server implementation of\n' +
+                    '// [JSON-RPC 2.0](http://www.jsonrpc.org/specification).\n' +
+                    'package jsonrpc2\n' +
+                    '\n' +
+                    'import (\n' +
+                    '\t"context"\n',
+                baseContent: undefined,
+            })
+        })
+    })
+
+    const diffPages = [
+        {
+            name: 'merge request version',
+            fixture: 'gitlab/merge-request',
+            url: 'https://gitlab.com/sourcegraph/jsonrpc2/merge_requests/1/diffs?diff_id=2',
+            fileInfo: {
+                repoPath: 'gitlab.com/sourcegraph/jsonrpc2',
+                filePath: 'jsonrpc2.go',
+                commitID: HEAD_COMMIT_ID,
+                rev: HEAD_COMMIT_ID,
+                baseFilePath: undefined,
+                baseCommitID: BASE_COMMIT_ID,
+                baseRev: BASE_COMMIT_ID,
+                headHasFileContents: true,
+                baseHasFileContents: true,
+            },
+        },
+        {
+            name: 'commit',
+            fixture: 'gitlab/commit',
+            url: `https://gitlab.com/sourcegraph/jsonrpc2/commit/${HEAD_COMMIT_ID}?view=parallel`,
+            fileInfo: {
+                repoPath: 'gitlab.com/sourcegraph/jsonrpc2',
+                owner: 'sourcegraph',
+                repoName: 'jsonrpc2',
+                filePath: 'jsonrpc2.go',
+                commitID: HEAD_COMMIT_ID,
+                rev: HEAD_COMMIT_ID,
+                baseFilePath: undefined,
+                baseCommitID: BASE_COMMIT_ID,
+                baseRev: BASE_COMMIT_ID,
+                headHasFileContents: true,
+                baseHasFileContents: true,
+            },
+        },
+    ]
+
+    for (const { name, fixture, url, fileInfo } of diffPages) {
+        describe(`${name} page`, () => {
+            beforeEach(() => loadFixture(fixture, url))
+
+            it('finds both sides of the changed file', async () => {
+                const codeViews = await findCodeViewsOnPage(gitlabCodeHost)
+                expect(codeViews).to.have.length(1)
+
+                const [{ codeView, resolveFileInfo, getLineRanges, dom, isDiff }] = codeViews
+                expect(isDiff).to.equal(true)
+                expect(await resolveFileInfo(codeView).toPromise()).to.deep.equal(fileInfo)
+                expect(getLineRanges(codeView, 'head')).to.deep.equal([{ start: 6, end: 10 }])
+                expect(getLineRanges(codeView, 'base')).to.deep.equal([{ start: 6, end: 9 }])
+                expect(dom.getCodeElementFromLineNumber(codeView, 8, 'head')!.textContent).to.equal('\t"errors"')
+                expect(dom.getCodeElementFromLineNumber(codeView, 8, 'base')!.textContent).to.equal('\t"io"')
+                expect(getContentOfCodeView(codeView, { dom, isDiff, getLineRanges })).to.deep.equal({
+                    content: DIFF_HEAD_CONTENT,
+                    baseContent: DIFF_BASE_CONTENT,
+                })
+            })
+        })
+    }
+})
@@ -1,4 +1,5 @@
 import { CodeHost, CodeViewResolver, CodeViewWithOutSelector } from '../code_intelligence'
+import { getGlobalDebugMount } from '../code_intelligence/extensions'
 import {
     diffDOMFunctions,
     diffFileGetLineRanges,
@@ -6,7 +7,9 @@ import {
     singleFileGetLineRanges,
 } from './dom_functions'
 import { getCommandPaletteMount } from './extensions'
+import { fileFinder } from './file_finder'
 import { resolveCommitFileInfo, resolveDiffFileInfo, resolveFileInfo } from './file_info'
+import { fileTree } from './file_tree'
 import { getPageInfo, GitLabPageKind } from './scrape'
 import { search } from './search'
 
@@ -96,5 +99,8 @@ export const gitlabCodeHost: CodeHost = {
     codeViewResolver,
     adjustOverlayPosition,
     search,
+    fileFinder,
+    fileTree,
     getCommandPaletteMount,
+    getGlobalDebugMount,
 }
@@ -0,0 +1,39 @@
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import { loadFixture } from '../../testing/dom'
+import { fileFinder } from './file_finder'
+
+describe('GitLab file finder', () => {
+    it('finds the repository and revision of a file page', async () => {
+        loadFixture('gitlab/blob', 'https://gitlab.com/sourcegraph/jsonrpc2/blob/master/jsonrpc2.go')
+        expect(await fileFinder.getRepo().toPromise()).to.deep.equal({
+            repoPath: 'gitlab.com/sourcegraph/jsonrpc2',
+            rev: 'master',
+        })
+    })
+
+    it('finds the repository without a revision on other project pages', async () => {
+        loadFixture('gitlab/merge-request', 'https://gitlab.com/sourcegraph/jsonrpc2/merge_requests/1/diffs')
+        expect(await fileFinder.getRepo().toPromise()).to.deep.equal({
+            repoPath: 'gitlab.com/sourcegraph/jsonrpc2',
+            rev: undefined,
+        })
+    })
+
+    it('finds no repository outside of projects', async () => {
+        loadFixture('gitlab/blob', 'https://gitlab.com/sourcegraph/jsonrpc2/blob/master/jsonrpc2.go')
+        document.querySelector('.context-header')!.remove()
+        expect(await fileFinder.getRepo().toPromise()).to.equal(null)
+    })
+
+    it('links to the file on the instance the page is on', () => {
+        loadFixture('gitlab/blob', 'https://gitlab.example.com:8443/sourcegraph/jsonrpc2/blob/master/jsonrpc2.go')
+        expect(
+            fileFinder.buildFileURL({
+                repoPath: 'gitlab.example.com/sourcegraph/jsonrpc2',
+                rev: 'master',
+                filePath: 'websocket/stream.go',
+            })
+        ).to.equal('https://gitlab.example.com:8443/sourcegraph/jsonrpc2/blob/master/websocket/stream.go')
+    })
+})
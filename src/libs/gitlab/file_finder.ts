@@ -0,0 +1,24 @@
+import { of } from 'rxjs'
+import { FileFinderFeature } from '../code_intelligence/file_finder'
+import { getPageInfo, GitLabInfo } from './scrape'
+
+export const fileFinder: FileFinderFeature = {
+    getRepo: () => {
+        let pageInfo: GitLabInfo
+        try {
+            pageInfo = getPageInfo()
+        } catch (err) {
+            // Pages outside of projects have no project link.
+            return of(null)
+        }
+
+        const { owner, repoName, repoPath } = pageInfo
+        const revMatch = window.location.pathname.match(new RegExp(`${owner}/${repoName}/(?:blob|tree)/([^/]+)`))
+        return of({ repoPath, rev: revMatch ? revMatch[1] : undefined })
+    },
+    buildFileURL: ({ rev, filePath }) => {
+        // The repository path starts with the hostname, which lacks the port of the instance.
+        const { owner, repoName } = getPageInfo()
+        return `${window.location.origin}/${owner}/${repoName}/blob/${rev}/${filePath}`
+    },
+}
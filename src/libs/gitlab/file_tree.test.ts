@@ -0,0 +1,39 @@
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import { loadFixture } from '../../testing/dom'
+import { fileTree } from './file_tree'
+
+describe('GitLab file tree', () => {
+    it('finds the repository, revision and path of a file page', async () => {
+        loadFixture('gitlab/blob', 'https://gitlab.com/sourcegraph/jsonrpc2/blob/master/jsonrpc2.go')
+        expect(await fileTree.getLocation().toPromise()).to.deep.equal({
+            repoPath: 'gitlab.com/sourcegraph/jsonrpc2',
+            rev: 'master',
+            filePath: 'jsonrpc2.go',
+        })
+    })
+
+    it('finds no location on project pages other than files and directories', async () => {
+        loadFixture('gitlab/merge-request', 'https://gitlab.com/sourcegraph/jsonrpc2/merge_requests/1/diffs')
+        expect(await fileTree.getLocation().toPromise()).to.equal(null)
+    })
+
+    it('mounts the sidebar in the content wrapper', () => {
+        loadFixture('gitlab/blob', 'https://gitlab.com/sourcegraph/jsonrpc2/blob/master/jsonrpc2.go')
+        const mount = fileTree.getMount()!
+        expect(mount.closest('.tree-mount')!.parentElement).to.equal(document.querySelector('.content-wrapper'))
+        expect(fileTree.getMount()).to.equal(mount)
+    })
+
+    it('links to files and directories on the instance the page is on', () => {
+        loadFixture('gitlab/blob', 'https://gitlab.example.com:8443/sourcegraph/jsonrpc2/blob/master/jsonrpc2.go')
+        expect(
+            fileTree.buildURL({
+                repoPath: 'gitlab.example.com/sourcegraph/jsonrpc2',
+                rev: 'master',
+                filePath: 'websocket',
+                type: 'tree',
+            })
+        ).to.equal('https://gitlab.example.com:8443/sourcegraph/jsonrpc2/tree/master/websocket')
+    })
+})
@@ -0,0 +1,34 @@
+import { of } from 'rxjs'
+import { FileTreeFeature, getFileTreeMount } from '../code_intelligence/file_tree'
+import { getPageInfo, GitLabInfo } from './scrape'
+
+export const fileTree: FileTreeFeature = {
+    getLocation: () => {
+        let pageInfo: GitLabInfo
+        try {
+            pageInfo = getPageInfo()
+        } catch (err) {
+            // Pages outside of projects have no project link.
+            return of(null)
+        }
+
+        // Only the project page and the pages of its files and directories are repository pages.
+        const { owner, repoName, repoPath } = pageInfo
+        const match = window.location.pathname.match(
+            new RegExp(`^/${owner}/${repoName}(?:/(?:-/)?(?:blob|tree)/([^/]+)(?:/(.*))?)?/?$`)
+        )
+        if (!match) {
+            return of(null)
+        }
+        return of({ repoPath, rev: match[1], filePath: match[2] })
+    },
+    getMount: () => {
+        // The content wrapper is next to the navigation sidebar of the project.
+        const contentWrapper = document.querySelector<HTMLElement>('.content-wrapper')
+        return contentWrapper && getFileTreeMount(contentWrapper)
+    },
+    buildURL: ({ rev, filePath, type }) => {
+        const { owner, repoName } = getPageInfo()
+        return `${window.location.origin}/${owner}/${repoName}/${type}/${rev}/${filePath}`
+    },
+}
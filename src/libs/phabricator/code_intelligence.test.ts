@@ -0,0 +1,134 @@
+import { expect } from 'chai'
+import { afterEach, beforeEach, describe, it } from 'mocha'
+import { PhabricatorMode } from '.'
+import { findCodeViewsOnPage } from '../../testing/code_intelligence'
+import { loadFixture } from '../../testing/dom'
+import { stubNetwork } from '../../testing/network'
+import { getContentOfCodeView } from '../code_intelligence/code_views'
+import { phabricatorCodeHost } from './code_intelligence'
+
+const BASE_COMMIT_ID = '0b13a922203ebdbfd236c818efcd5ed46097d690'
+const HEAD_COMMIT_ID = 'e3702bed27f0d39777b0b37b664b6280e8ef8fbf'
+
+const repositorySearchResponse = () => ({
+    result: {
+        data: [
+            {
+                fields: { callsign: 'MUX' },
+                attachments: {
+                    uris: {
+                        uris: [
+                            {
+                                fields: {
+                                    uri: {
+                                        raw: 'https://github.com/gorilla/mux',
+                                        normalized: 'github.com/gorilla/mux',
+                                    },
+                                },
+                            },
+                        ],
+                    },
+                },
+            },
+        ],
+    },
+})
+
+describe('Phabricator code host', () => {
+    let restoreNetwork: () => void
+
+    beforeEach(() => {
+        restoreNetwork = stubNetwork({
+            '/api/diffusion.repository.search': repositorySearchResponse,
+            '/api/differential.query': () => ({ result: [{ repositoryPHID: 'PHID-REPO-mux' }] }),
+            '/api/differential.querydiffs': () => ({
+                result: {
+                    3: {
+                        sourceControlBaseRevision: BASE_COMMIT_ID,
+                        properties: {},
+                        changes: [],
+                        dateCreated: '1533081600',
+                        authorName: 'Gorilla',
+                        authorEmail: 'gorilla@example.com',
+                        description: 'Use regexp to match routes',
+                    },
+                },
+            }),
+            '/api/differential.getrawdiff': () => ({ result: 'diff --git a/mux.go b/mux.go\n' }),
+            '/.api/graphql?addPhabricatorRepo': () => ({ data: { addPhabricatorRepo: { alwaysNil: null } } }),
+            '/.api/graphql?ResolveStagingRev': () => ({ data: { resolvePhabricatorDiff: { oid: HEAD_COMMIT_ID } } }),
+            '/.api/graphql?BlobContent': () => ({
+                data: { repository: { commit: { file: { content: 'package mux\n' } } } },
+            }),
+        })
+    })
+
+    afterEach(() => restoreNetwork())
+
+    describe('Diffusion page', () => {
+        beforeEach(() =>
+            loadFixture('phabricator/diffusion', 'https://phabricator.example.com/source/mux/browse/master/mux.go'))
+
+        it('finds the file', async () => {
+            const codeViews = await findCodeViewsOnPage(phabricatorCodeHost)
+            expect(codeViews).to.have.length(1)
+
+            const [{ codeView, resolveFileInfo, getLineRanges, dom, isDiff }] = codeViews
+            expect(isDiff).to.equal(false)
+            expect(await resolveFileInfo(codeView).toPromise()).to.deep.equal({
+                repoPath: 'github.com/gorilla/mux',
+                filePath: 'mux.go',
+                mode: PhabricatorMode.Diffusion,
+                commitID: HEAD_COMMIT_ID,
+                callsign: 'MUX',
+                branch: 'master',
+            })
+            expect(getLineRanges(codeView)).to.deep.equal([{ start: 1, end: 8 }])
+            expect(dom.getCodeElementFromLineNumber(codeView, 5)!.textContent).to.equal('package mux\n')
+            expect(getContentOfCodeView(codeView, { dom, isDiff, getLineRanges })).to.deep.equal({
+                content:
+                    '// Copyright 2012 The Gorilla Authors. All rights reserved.\n' +
+                    '// Use of this source code is governed by a BSD-style\n' +
+                    '// license that can be found in the LICENSE file.\n' +
+                    '\n' +
+                    'package mux\n' +
+                    '\n' +
+                    'import (\n' +
+                    '\t"errors"\n',
+                baseContent: undefined,
+            })
+        })
+    })
+
+    describe('Differential page', () => {
+        beforeEach(() => loadFixture('phabricator/differential', 'https://phabricator.example.com/D1'))
+
+        it('finds both sides of the changed file', async () => {
+            const codeViews = await findCodeViewsOnPage(phabricatorCodeHost)
+            expect(codeViews).to.have.length(1)
+
+            const [{ codeView, resolveFileInfo, getLineRanges, dom, isDiff }] = codeViews
+            expect(isDiff).to.equal(true)
+            expect(await resolveFileInfo(codeView).toPromise()).to.deep.equal({
+                repoPath: 'github.com/gorilla/mux',
+                filePath: 'mux.go',
+                commitID: HEAD_COMMIT_ID,
+                rev: 'phabricator/diff/3',
+                baseRepoPath: 'github.com/gorilla/mux',
+                baseFilePath: 'mux.go',
+                baseCommitID: BASE_COMMIT_ID,
+                baseRev: 'phabricator/base/3',
+                headHasFileContents: true,
+                baseHasFileContents: true,
+            })
+            expect(getLineRanges(codeView, 'head')).to.deep.equal([{ start: 10, end: 14 }])
+            expect(getLineRanges(codeView, 'base')).to.deep.equal([{ start: 10, end: 13 }])
+            expect(dom.getCodeElementFromLineNumber(codeView, 12, 'head')!.textContent).to.equal('\t"regexp"')
+            expect(dom.getCodeElementFromLineNumber(codeView, 12, 'base')!.textContent).to.equal('\t"strings"')
+            expect(getContentOfCodeView(codeView, { dom, isDiff, getLineRanges })).to.deep.equal({
+                content: '\n'.repeat(9) + '\t"net/http"\n\t"path"\n\t"regexp"\n\t"strings"\n)\n',
+                baseContent: '\n'.repeat(9) + '\t"net/http"\n\t"path"\n\t"strings"\n)\n',
+            })
+        })
+    })
+})
@@ -5,8 +5,12 @@ import { convertSpacesToTabs, spacesToTabsAdjustment } from '.'
 import storage from '../../browser/storage'
 import { fetchBlobContentLines } from '../../shared/repo/backend'
 import { CodeHost, CodeView } from '../code_intelligence'
-import { diffDomFunctions, diffusionDOMFns, getLineRanges } from './dom_functions'
+import { getGlobalDebugMount } from '../code_intelligence/extensions'
+import { diffDomFunctions, diffGetLineRanges, diffusionDOMFns, diffusionGetLineRanges } from './dom_functions'
+import { getCommandPaletteMount } from './extensions'
+import { fileFinder } from './file_finder'
 import { resolveDiffFileInfo, resolveDiffusionFileInfo } from './file_info'
+import { fileTree } from './file_tree'
 
 function createMount(
     findMountLocation: (file: HTMLElement, part?: DiffPart) => HTMLElement
@@ -113,7 +117,7 @@ export const phabCodeViews: CodeView[] = [
             return actionLinks as HTMLElement
         }),
         toolbarButtonProps,
-        getLineRanges,
+        getLineRanges: diffGetLineRanges,
         isDiff: true,
     },
     {
@@ -129,7 +133,7 @@ export const phabCodeViews: CodeView[] = [
             return actionLinks as HTMLElement
         }),
         toolbarButtonProps,
-        getLineRanges,
+        getLineRanges: diffusionGetLineRanges,
         isDiff: false,
     },
 ]
@@ -148,4 +152,8 @@ export const phabricatorCodeHost: CodeHost = {
     codeViews: phabCodeViews,
     name: 'phabricator',
     check: checkIsPhabricator,
+    fileFinder,
+    fileTree,
+    getCommandPaletteMount,
+    getGlobalDebugMount,
 }
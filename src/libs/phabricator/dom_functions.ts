@@ -141,6 +141,49 @@ export const diffusionDOMFns: DOMFunctions = {
     isFirstCharacterDiffIndicator: () => false,
 }
 
-export const getLineRanges: CodeView['getLineRanges'] = () => {
-    throw new Error('TODO: implement')
+export const diffGetLineRanges: CodeView['getLineRanges'] = (codeView, part) => {
+    const ranges: { start: number; end: number }[] = []
+
+    let start: number | null = null
+    let end: number | null = null
+
+    for (const lineNumberCell of codeView.querySelectorAll(`th:nth-of-type(${part === 'base' ? 1 : 2})`)) {
+        const line = parseInt(lineNumberCell.textContent || '', 10)
+        if (isNaN(line)) {
+            // A line that only exists on the other side.
+            continue
+        }
+
+        // Unchanged lines that aren't shown are skipped, so a gap in the line
+        // numbers starts a new range.
+        if (start !== null && end !== null && line !== end + 1) {
+            ranges.push({ start, end })
+            start = null
+        }
+
+        if (start === null) {
+            start = line
+        }
+        end = line
+    }
+
+    if (start !== null && end !== null) {
+        ranges.push({ start, end })
+    }
+
+    return ranges
+}
+
+export const diffusionGetLineRanges: CodeView['getLineRanges'] = codeView => {
+    const lineAnchors = codeView.querySelectorAll<HTMLElement>('th [data-n]')
+    if (lineAnchors.length === 0) {
+        throw new Error('Unable to determine line range of code view')
+    }
+
+    return [
+        {
+            start: parseInt(lineAnchors[0].dataset.n!, 10),
+            end: parseInt(lineAnchors[lineAnchors.length - 1].dataset.n!, 10),
+        },
+    ]
 }
@@ -0,0 +1,18 @@
+export function getCommandPaletteMount(): HTMLElement {
+    const headerElem = document.querySelector('.phabricator-main-menu-alerts')
+    if (!headerElem) {
+        throw new Error('Unable to find command pallete mount')
+    }
+
+    const commandListClass = 'command-palette-button'
+
+    const createCommandList = (): HTMLElement => {
+        const commandListElem = document.createElement('div')
+        commandListElem.className = commandListClass
+        headerElem.insertAdjacentElement('afterend', commandListElem)
+
+        return commandListElem
+    }
+
+    return document.querySelector<HTMLElement>('.' + commandListClass) || createCommandList()
+}
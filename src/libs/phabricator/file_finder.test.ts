@@ -0,0 +1,75 @@
+import { expect } from 'chai'
+import { afterEach, beforeEach, describe, it } from 'mocha'
+import { loadFixture } from '../../testing/dom'
+import { stubNetwork } from '../../testing/network'
+import { fileFinder } from './file_finder'
+
+const COMMIT_ID = 'e3702bed27f0d39777b0b37b664b6280e8ef8fbf'
+
+describe('Phabricator file finder', () => {
+    let restoreNetwork: () => void
+
+    beforeEach(() => {
+        restoreNetwork = stubNetwork({
+            '/api/diffusion.repository.search': () => ({
+                result: {
+                    data: [
+                        {
+                            fields: { callsign: 'MUX' },
+                            attachments: {
+                                uris: {
+                                    uris: [
+                                        {
+                                            fields: {
+                                                uri: {
+                                                    raw: 'https://github.com/gorilla/mux',
+                                                    normalized: 'github.com/gorilla/mux',
+                                                },
+                                            },
+                                        },
+                                    ],
+                                },
+                            },
+                        },
+                    ],
+                },
+            }),
+            '/api/differential.query': () => ({ result: [{ repositoryPHID: 'PHID-REPO-mux' }] }),
+            '/.api/graphql?addPhabricatorRepo': () => ({ data: { addPhabricatorRepo: { alwaysNil: null } } }),
+        })
+    })
+
+    afterEach(() => restoreNetwork())
+
+    it('finds the repository and commit of a Diffusion page', async () => {
+        loadFixture('phabricator/diffusion', 'https://phabricator.example.com/source/mux/browse/master/mux.go')
+        expect(await fileFinder.getRepo().toPromise()).to.deep.equal({
+            repoPath: 'github.com/gorilla/mux',
+            rev: COMMIT_ID,
+        })
+    })
+
+    it('finds no repository on Differential pages', async () => {
+        loadFixture('phabricator/differential', 'https://phabricator.example.com/D1')
+        expect(await fileFinder.getRepo().toPromise()).to.equal(null)
+    })
+
+    it('links to the file on the branch of the page, at the commit', async () => {
+        loadFixture('phabricator/diffusion', 'https://phabricator.example.com/source/mux/browse/master/mux.go')
+        await fileFinder.getRepo().toPromise()
+        expect(
+            fileFinder.buildFileURL({ repoPath: 'github.com/gorilla/mux', rev: COMMIT_ID, filePath: 'doc/README.md' })
+        ).to.equal(`https://phabricator.example.com/diffusion/MUX/browse/master/doc/README.md;${COMMIT_ID}`)
+    })
+
+    it('links to the file at the commit on the home page of the repository', async () => {
+        loadFixture('phabricator/diffusion-repository', 'https://phabricator.example.com/source/mux/')
+        expect(await fileFinder.getRepo().toPromise()).to.deep.equal({
+            repoPath: 'github.com/gorilla/mux',
+            rev: COMMIT_ID,
+        })
+        expect(
+            fileFinder.buildFileURL({ repoPath: 'github.com/gorilla/mux', rev: COMMIT_ID, filePath: 'doc/README.md' })
+        ).to.equal(`https://phabricator.example.com/diffusion/MUX/browse/${COMMIT_ID}/doc/README.md;${COMMIT_ID}`)
+    })
+})
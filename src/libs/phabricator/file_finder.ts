@@ -0,0 +1,28 @@
+import { from, Observable } from 'rxjs'
+import { map, tap } from 'rxjs/operators'
+import { DiffusionState, PhabricatorMode } from '.'
+import { FileFinderFeature } from '../code_intelligence/file_finder'
+import { getPhabricatorState } from './util'
+
+/** The state of the Diffusion page resolved last. Its files are linked to in its repository. */
+let diffusionState: DiffusionState | null = null
+
+/** Resolves the state of the Diffusion page, or `null` on other pages. */
+export const resolveDiffusionState = (): Observable<DiffusionState | null> =>
+    from(getPhabricatorState(window.location)).pipe(
+        map(state => (state !== null && state.mode === PhabricatorMode.Diffusion ? (state as DiffusionState) : null)),
+        tap(state => (diffusionState = state))
+    )
+
+export const fileFinder: FileFinderFeature = {
+    getRepo: () =>
+        resolveDiffusionState().pipe(map(state => state && { repoPath: state.repoPath, rev: state.commitID })),
+    buildFileURL: ({ rev, filePath }) => {
+        if (!diffusionState) {
+            return ''
+        }
+        // The files of repository home pages, which have no branch, are browsed at the commit.
+        const { callsign, branch = rev } = diffusionState
+        return `${window.location.origin}/diffusion/${callsign}/browse/${branch}/${filePath};${rev}`
+    },
+}
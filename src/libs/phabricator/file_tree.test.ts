@@ -0,0 +1,21 @@
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import { loadFixture } from '../../testing/dom'
+import { fileTree } from './file_tree'
+
+describe('Phabricator file tree', () => {
+    it('mounts the sidebar in the standard page', () => {
+        loadFixture('phabricator/diffusion', 'https://phabricator.example.com/source/mux/browse/master/mux.go')
+        const mount = fileTree.getMount()!
+        expect(mount.closest('.tree-mount')!.parentElement).to.equal(
+            document.querySelector('.phabricator-standard-page')
+        )
+        expect(fileTree.getMount()).to.equal(mount)
+    })
+
+    it('has no place for the sidebar on pages without the standard page', () => {
+        loadFixture('phabricator/diffusion', 'https://phabricator.example.com/source/mux/browse/master/mux.go')
+        document.querySelector('.phabricator-standard-page')!.remove()
+        expect(fileTree.getMount()).to.equal(null)
+    })
+})
@@ -0,0 +1,17 @@
+import { map } from 'rxjs/operators'
+import { FileTreeFeature, getFileTreeMount } from '../code_intelligence/file_tree'
+import { fileFinder, resolveDiffusionState } from './file_finder'
+
+export const fileTree: FileTreeFeature = {
+    getLocation: () =>
+        resolveDiffusionState().pipe(
+            map(state => state && { repoPath: state.repoPath, rev: state.commitID, filePath: state.filePath })
+        ),
+    getMount: () => {
+        // The standard page is below the main menu.
+        const page = document.querySelector<HTMLElement>('.phabricator-standard-page')
+        return page && getFileTreeMount(page)
+    },
+    // Diffusion browses directories and files with the same URLs.
+    buildURL: fileFinder.buildFileURL,
+}
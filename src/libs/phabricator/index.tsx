@@ -11,6 +11,10 @@ export enum PhabricatorMode {
 
 export interface DiffusionState extends AbsoluteRepoFile {
     mode: PhabricatorMode
+    /** The callsign of the Diffusion repository, e.g. `MUX`. */
+    callsign: string
+    /** The branch in the URL of the page. Repository home pages have none. */
+    branch?: string
 }
 
 export interface DifferentialState {
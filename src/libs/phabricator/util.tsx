@@ -139,6 +139,8 @@ function getDiffIdFromDifferentialPage(): string | null {
 
 // tslint:disable-next-line
 const PHAB_DIFFUSION_REGEX = /^\/?(source|diffusion)\/([A-Za-z0-9\-\_]+)\/browse\/([\w-]+\/)?([^;$]+)(;[0-9a-f]{40})?(?:\$[0-9]+)?/i
+// e.g. /source/mux/ or /diffusion/MUX/, the home page of a repository
+const PHAB_DIFFUSION_REPO_REGEX = /^\/?(source|diffusion)\/([A-Za-z0-9\-\_]+)\/?(?:[?#].*)?$/i
 const PHAB_DIFFERENTIAL_REGEX = /^\/?(D[0-9]+)(?:\?(?:(?:id=([0-9]+))|(vs=(?:[0-9]+|on)&id=[0-9]+)))?/i
 const PHAB_REVISION_REGEX = /^\/?r([0-9A-z]+)([0-9a-f]{40})/i
 // http://phabricator.aws.sgdev.org/source/nmux/change/master/mux.go
@@ -166,7 +168,7 @@ export function getPhabricatorState(
 ): Promise<DiffusionState | DifferentialState | RevisionState | ChangeState | null> {
     return new Promise((resolve, reject) => {
         const stateUrl = loc.href.replace(loc.origin, '')
-        const diffusionMatch = PHAB_DIFFUSION_REGEX.exec(stateUrl)
+        const diffusionMatch = PHAB_DIFFUSION_REGEX.exec(stateUrl) || PHAB_DIFFUSION_REPO_REGEX.exec(stateUrl)
         const { protocol, hostname, port } = loc
         if (diffusionMatch) {
             const match = {
@@ -176,12 +178,12 @@ export function getPhabricatorState(
                 viewType: diffusionMatch[1],
                 callsign: diffusionMatch[2],
                 branch: diffusionMatch[3],
-                filePath: diffusionMatch[4],
+                filePath: diffusionMatch[4] || '',
                 revInUrl: diffusionMatch[5], // only on previous versions
             }
             if (match.branch && match.branch.endsWith('/')) {
                 // Remove trailing slash (included b/c branch group is optional)
-                match.branch = match.branch.substr(match.branch.length - 1)
+                match.branch = match.branch.slice(0, -1)
             }
 
             const callsign = getCallsignFromPageTag()
@@ -199,12 +201,15 @@ export function getPhabricatorState(
                         resolve(null)
                         return
                     }
-                    resolve({
+                    const state: DiffusionState = {
                         repoPath,
                         filePath: match.filePath,
                         mode: PhabricatorMode.Diffusion,
                         commitID,
-                    })
+                        callsign,
+                        branch: match.branch,
+                    }
+                    resolve(state)
                 })
                 .catch(reject)
             return
@@ -0,0 +1,265 @@
+import { expect } from 'chai'
+import { afterEach, beforeEach, describe, it } from 'mocha'
+import storage from '../../browser/storage'
+import { AccessTokens, RepoLocations } from '../../browser/types'
+import { stubNetwork } from '../../testing/network'
+import { MockSourcegraphServer, useSourcegraphURL } from '../../testing/server'
+import { setAccessToken } from '../auth/access_token'
+import {
+    DEFAULT_SOURCEGRAPH_URL,
+    getSourcegraphURLForRepo,
+    MAX_REPO_LOCATIONS,
+    repoUrlCache,
+    setRepoURL,
+    setRoutingRules,
+    whenRepoURLsPersisted,
+} from '../util/context'
+import { createAccessToken } from './auth'
+import { getContext } from './context'
+import { ERAUTHREQUIRED } from './errors'
+import { queryGraphQL } from './graphql'
+import { fetchCurrentUser } from './server'
+
+const PRIVATE_URL = 'https://sourcegraph.example.com'
+
+const RESOLVE_REV = `query ResolveRev($repoPath: String!, $rev: String!) {
+    repository(uri: $repoPath) {
+        mirrorInfo {
+            cloneInProgress
+        }
+        commit(rev: $rev) {
+            oid
+        }
+    }
+}`
+
+const resolveRev = (repoPath: string) =>
+    queryGraphQL({
+        ctx: getContext({ repoKey: repoPath }),
+        request: RESOLVE_REV,
+        variables: { repoPath, rev: 'master' },
+    }).toPromise()
+
+const repository = (commitID: string) => ({ revisions: { master: commitID }, files: {} })
+
+/** Reads the stored repository URLs, once the updates made so far are written. */
+const getStoredRepoLocations = () =>
+    whenRepoURLsPersisted().then(
+        () => new Promise<RepoLocations>(resolve => storage.getLocal(items => resolve(items.repoLocations)))
+    )
+
+const setStoredRepoLocations = (repoLocations: RepoLocations) =>
+    new Promise<void>(resolve => storage.setLocal({ repoLocations }, resolve))
+
+const getStoredAccessTokens = () =>
+    new Promise<AccessTokens>(resolve => storage.getSync(items => resolve(items.accessTokens)))
+
+describe('queryGraphQL', () => {
+    let restoreNetwork: () => void
+
+    afterEach(async () => {
+        restoreNetwork()
+        // Don't let the next test see the URLs this one stored.
+        await whenRepoURLsPersisted()
+    })
+
+    describe('with access tokens', () => {
+        let server: MockSourcegraphServer
+
+        beforeEach(() => {
+            server = new MockSourcegraphServer(PRIVATE_URL, {
+                repositories: { 'private/repo': repository('1'.repeat(40)) },
+                accessTokens: ['valid'],
+                allowAnonymous: false,
+                user: { id: 'User:1', username: 'alice', displayName: 'Alice' },
+            })
+            // The configured URL is tried first, Sourcegraph.com last.
+            const dotComServer = new MockSourcegraphServer(DEFAULT_SOURCEGRAPH_URL)
+            restoreNetwork = stubNetwork({ ...server.handlers, ...dotComServer.handlers })
+        })
+
+        it('sends the access token for the URL', async () => {
+            useSourcegraphURL(PRIVATE_URL, { [PRIVATE_URL]: { id: 'AccessToken:1', token: 'valid' } })
+
+            const { data } = await resolveRev('private/repo')
+            expect(data!.repository!.commit!.oid).to.equal('1'.repeat(40))
+            expect(server.requests.map(({ headers }) => headers.authorization)).to.deep.equal(['token valid'])
+        })
+
+        it('removes a rejected access token and retries without it', async () => {
+            useSourcegraphURL(PRIVATE_URL, { [PRIVATE_URL]: { id: 'AccessToken:1', token: 'revoked' } })
+
+            const { data } = await resolveRev('private/repo')
+            expect(data!.repository!.commit!.oid).to.equal('1'.repeat(40))
+            expect(server.requests.map(({ headers }) => headers.authorization)).to.deep.equal([
+                'token revoked',
+                undefined,
+            ])
+            expect(await getStoredAccessTokens()).to.deep.equal({})
+        })
+
+        it('uses a new access token created for the signed in user', async () => {
+            useSourcegraphURL(PRIVATE_URL)
+
+            // This is how the options page replaces a removed access token.
+            const user = await fetchCurrentUser(false).toPromise()
+            const token = await createAccessToken(user!.id)
+                .pipe(setAccessToken(PRIVATE_URL))
+                .toPromise()
+            expect(server.hasAccessToken(token.token)).to.equal(true)
+            expect(await getStoredAccessTokens()).to.deep.equal({ [PRIVATE_URL]: token })
+
+            await resolveRev('private/repo')
+            expect(server.requests[server.requests.length - 1].headers.authorization).to.equal(`token ${token.token}`)
+        })
+    })
+
+    describe('when signed out of a private instance', () => {
+        beforeEach(() => {
+            useSourcegraphURL(PRIVATE_URL, { [PRIVATE_URL]: { id: 'AccessToken:1', token: 'revoked' } })
+            const privateServer = new MockSourcegraphServer(PRIVATE_URL, {
+                repositories: { 'private/repo': repository('1'.repeat(40)) },
+                allowAnonymous: false,
+            })
+            const dotComServer = new MockSourcegraphServer(DEFAULT_SOURCEGRAPH_URL)
+            restoreNetwork = stubNetwork({ ...privateServer.handlers, ...dotComServer.handlers })
+        })
+
+        it('errors with the URL that requires authentication', async () => {
+            let error: any
+            try {
+                await resolveRev('private/repo')
+            } catch (err) {
+                error = err
+            }
+            expect(error.code).to.equal(ERAUTHREQUIRED)
+            expect(error.url).to.equal(PRIVATE_URL)
+            expect(await getStoredAccessTokens()).to.deep.equal({})
+        })
+    })
+
+    describe('with multiple Sourcegraph URLs', () => {
+        let privateServer: MockSourcegraphServer
+        let dotComServer: MockSourcegraphServer
+
+        beforeEach(() => {
+            useSourcegraphURL(PRIVATE_URL)
+            privateServer = new MockSourcegraphServer(PRIVATE_URL, {
+                repositories: { 'private/repo': repository('2'.repeat(40)) },
+            })
+            dotComServer = new MockSourcegraphServer(DEFAULT_SOURCEGRAPH_URL, {
+                repositories: { 'github.com/gorilla/mux': repository('3'.repeat(40)) },
+            })
+            restoreNetwork = stubNetwork({ ...privateServer.handlers, ...dotComServer.handlers })
+        })
+
+        it('uses the configured URL for repositories it has', async () => {
+            const { data } = await resolveRev('private/repo')
+            expect(data!.repository!.commit!.oid).to.equal('2'.repeat(40))
+            expect(dotComServer.requests).to.have.length(0)
+            expect(repoUrlCache['private/repo']).to.equal(PRIVATE_URL)
+        })
+
+        it('falls back to Sourcegraph.com for repositories the configured URL does not have', async () => {
+            const { data } = await resolveRev('github.com/gorilla/mux')
+            expect(data!.repository!.commit!.oid).to.equal('3'.repeat(40))
+            expect(privateServer.requests).to.have.length(1)
+            expect(repoUrlCache['github.com/gorilla/mux']).to.equal(DEFAULT_SOURCEGRAPH_URL)
+            expect(await getStoredRepoLocations()).to.deep.equal({ 'github.com/gorilla/mux': DEFAULT_SOURCEGRAPH_URL })
+        })
+
+        it('falls back to Sourcegraph.com when the configured URL is unreachable', async () => {
+            privateServer.reachable = false
+
+            const { data } = await resolveRev('github.com/gorilla/mux')
+            expect(data!.repository!.commit!.oid).to.equal('3'.repeat(40))
+        })
+
+        it('errors when no URL has the repository', async () => {
+            let error: any
+            try {
+                await resolveRev('github.com/gorilla/websocket')
+            } catch (err) {
+                error = err
+            }
+            expect(error.data).to.deep.equal({ repository: null })
+            expect(privateServer.requests).to.have.length(1)
+            expect(dotComServer.requests).to.have.length(1)
+            expect(repoUrlCache).to.not.have.property('github.com/gorilla/websocket')
+        })
+
+        it('keeps the URLs other tabs stored', async () => {
+            await setStoredRepoLocations({
+                'github.com/gorilla/websocket': DEFAULT_SOURCEGRAPH_URL,
+                'private/other': PRIVATE_URL,
+            })
+            repoUrlCache['github.com/gorilla/websocket'] = DEFAULT_SOURCEGRAPH_URL
+
+            await resolveRev('github.com/gorilla/mux')
+            await resolveRev('github.com/gorilla/websocket').catch(() => undefined)
+            expect(await getStoredRepoLocations()).to.deep.equal({
+                'private/other': PRIVATE_URL,
+                'github.com/gorilla/mux': DEFAULT_SOURCEGRAPH_URL,
+            })
+        })
+
+        it('forgets the URLs learned least recently', async () => {
+            const repoLocations: RepoLocations = {}
+            for (let i = 0; i < MAX_REPO_LOCATIONS; i++) {
+                repoLocations[`private/repo${i}`] = PRIVATE_URL
+            }
+            await setStoredRepoLocations(repoLocations)
+
+            await resolveRev('github.com/gorilla/mux')
+            const stored = Object.keys(await getStoredRepoLocations())
+            expect(stored).to.have.length(MAX_REPO_LOCATIONS)
+            expect(stored[0]).to.equal('private/repo1')
+            expect(stored[MAX_REPO_LOCATIONS - 1]).to.equal('github.com/gorilla/mux')
+        })
+    })
+
+    describe('with routing rules', () => {
+        const ACME_URL = 'https://sg-a.example.com'
+        let privateServer: MockSourcegraphServer
+        let acmeServer: MockSourcegraphServer
+
+        beforeEach(() => {
+            useSourcegraphURL(PRIVATE_URL)
+            setRoutingRules([{ pattern: 'github.com/acme/*', url: ACME_URL }])
+            privateServer = new MockSourcegraphServer(PRIVATE_URL, {
+                repositories: { 'github.com/acme/widgets': repository('6'.repeat(40)) },
+            })
+            acmeServer = new MockSourcegraphServer(ACME_URL, {
+                repositories: { 'github.com/acme/widgets': repository('7'.repeat(40)) },
+            })
+            const dotComServer = new MockSourcegraphServer(DEFAULT_SOURCEGRAPH_URL)
+            restoreNetwork = stubNetwork({
+                ...privateServer.handlers,
+                ...acmeServer.handlers,
+                ...dotComServer.handlers,
+            })
+        })
+
+        it('sends requests about matching repositories to the URL of the rule', async () => {
+            const { data } = await resolveRev('github.com/acme/widgets')
+            expect(data!.repository!.commit!.oid).to.equal('7'.repeat(40))
+            expect(privateServer.requests).to.have.length(0)
+            expect(repoUrlCache['github.com/acme/widgets']).to.equal(ACME_URL)
+        })
+
+        it('prefers the URL of the rule to the one the repository was last found on', async () => {
+            setRepoURL('github.com/acme/widgets', PRIVATE_URL)
+            expect(getSourcegraphURLForRepo('github.com/acme/widgets')).to.equal(ACME_URL)
+
+            const { data } = await resolveRev('github.com/acme/widgets')
+            expect(data!.repository!.commit!.oid).to.equal('7'.repeat(40))
+            expect(privateServer.requests).to.have.length(0)
+        })
+
+        it('sends requests about other repositories to the configured URL', async () => {
+            await resolveRev('github.com/acme').catch(() => undefined)
+            expect(privateServer.requests).to.have.length(1)
+            expect(acmeServer.requests).to.have.length(0)
+        })
+    })
+})
@@ -5,7 +5,14 @@ import { ajax } from 'rxjs/ajax'
 import { catchError, map, switchMap } from 'rxjs/operators'
 import { GQL } from '../../types/gqlschema'
 import { removeAccessToken } from '../auth/access_token'
-import { DEFAULT_SOURCEGRAPH_URL, isPrivateRepository, repoUrlCache, sourcegraphUrl } from '../util/context'
+import {
+    DEFAULT_SOURCEGRAPH_URL,
+    deleteRepoURL,
+    getSourcegraphURLForRepo,
+    isPrivateRepository,
+    setRepoURL,
+    sourcegraphUrl,
+} from '../util/context'
 import { RequestContext } from './context'
 import { AuthRequiredError, createAuthRequiredError, NoSourcegraphURLError } from './errors'
 import { getHeaders } from './headers'
@@ -40,7 +47,7 @@ export interface GraphQLRequestArgs {
  *
  * @param request The GraphQL request (query or mutation)
  * @param variables A key/value object with variable values
- * @param url the url the request is going to
+ * @param url the url the request is going to, by default the one `getSourcegraphURLForRepo` returns, or `sourcegraphUrl`
  * @param options configuration options for the request
  * @return Observable That emits the result or errors if the HTTP request failed
  */
@@ -48,7 +55,7 @@ function requestGraphQL<T extends GQL.IGraphQLResponseRoot>({
     ctx,
     request,
     variables = {},
-    url = sourcegraphUrl,
+    url = ctx.repoKey ? getSourcegraphURLForRepo(ctx.repoKey) : sourcegraphUrl,
     retry = true,
     useAccessToken = true,
     authError,
@@ -74,11 +81,11 @@ function requestGraphQL<T extends GQL.IGraphQLResponseRoot>({
             }).pipe(
                 map(({ response }) => {
                     if (shouldResponseTriggerRetryOrError(response)) {
-                        delete repoUrlCache[ctx.repoKey]
+                        deleteRepoURL(ctx.repoKey)
                         throw response
                     }
                     if (ctx.isRepoSpecific && response.data.repository) {
-                        repoUrlCache[ctx.repoKey] = url
+                        setRepoURL(ctx.repoKey, url)
                     }
                     return response
                 }),
@@ -115,7 +122,7 @@ function requestGraphQL<T extends GQL.IGraphQLResponseRoot>({
                         if (authError) {
                             throw authError
                         }
-                        delete repoUrlCache[ctx.repoKey]
+                        deleteRepoURL(ctx.repoKey)
                         // We just tried the last url
                         throw err
                     }
@@ -0,0 +1,305 @@
+import { expect } from 'chai'
+import { afterEach, beforeEach, describe, it } from 'mocha'
+import { of, timer } from 'rxjs'
+import { stubNetwork } from '../../testing/network'
+import { MockSourcegraphServer, useSourcegraphURL } from '../../testing/server'
+import { DEFAULT_SOURCEGRAPH_URL, repoUrlCache } from '../util/context'
+import { createDefinitionsFetcher, JumpURLLocation, lspViaAPIXlang, sendLSPHTTPRequests } from './lsp'
+
+const PRIVATE_URL = 'https://sourcegraph.example.com'
+
+const COMMIT_ID = '4'.repeat(40)
+
+const hover = ({ textDocument, position }) => ({
+    contents: [{ language: 'go', value: `${textDocument.uri}:${position.line}:${position.character}` }],
+})
+
+const definition = ({ textDocument }) => [
+    { uri: textDocument.uri, range: { start: { line: 9, character: 5 }, end: { line: 9, character: 11 } } },
+]
+
+describe('LSP requests', () => {
+    let privateServer: MockSourcegraphServer
+    let dotComServer: MockSourcegraphServer
+    let restoreNetwork: () => void
+
+    beforeEach(() => {
+        useSourcegraphURL(PRIVATE_URL)
+        privateServer = new MockSourcegraphServer(PRIVATE_URL, { hover, definition })
+        dotComServer = new MockSourcegraphServer(DEFAULT_SOURCEGRAPH_URL, { hover, definition })
+        restoreNetwork = stubNetwork({ ...privateServer.handlers, ...dotComServer.handlers })
+    })
+
+    afterEach(() => restoreNetwork())
+
+    it('fetches hovers from the configured URL', async () => {
+        const result = await lspViaAPIXlang
+            .fetchHover({
+                repoPath: 'private/hover',
+                commitID: COMMIT_ID,
+                filePath: 'mux.go',
+                position: { line: 3, character: 7 },
+            })
+            .toPromise()
+        expect(result).to.deep.equal(
+            hover({
+                textDocument: { uri: `git://private/hover?${COMMIT_ID}#mux.go` },
+                position: { line: 2, character: 6 },
+            })
+        )
+        expect(privateServer.requests.map(({ url }) => url)).to.deep.equal([
+            `${PRIVATE_URL}/.api/xlang/textDocument/hover`,
+        ])
+    })
+
+    it('fetches definitions from the URL the repository was found on', async () => {
+        repoUrlCache['github.com/gorilla/definition'] = DEFAULT_SOURCEGRAPH_URL
+
+        const result = await lspViaAPIXlang
+            .fetchDefinition({
+                repoPath: 'github.com/gorilla/definition',
+                commitID: COMMIT_ID,
+                filePath: 'mux.go',
+                position: { line: 3, character: 7 },
+            })
+            .toPromise()
+        expect(result).to.deep.equal(
+            definition({ textDocument: { uri: `git://github.com/gorilla/definition?${COMMIT_ID}#mux.go` } })
+        )
+        expect(privateServer.requests).to.have.length(0)
+        expect(dotComServer.requests).to.have.length(1)
+    })
+
+    it('sends concurrent requests for the same commit in one batch', async () => {
+        const position = (line: number) => ({
+            repoPath: 'private/batch',
+            commitID: COMMIT_ID,
+            filePath: 'mux.go',
+            position: { line, character: 1 },
+        })
+        const uri = `git://private/batch?${COMMIT_ID}#mux.go`
+
+        const results = await Promise.all([
+            lspViaAPIXlang.fetchHover(position(1)).toPromise(),
+            lspViaAPIXlang.fetchHover(position(2)).toPromise(),
+            lspViaAPIXlang.fetchDefinition(position(2)).toPromise(),
+        ])
+        expect(results).to.deep.equal([
+            hover({ textDocument: { uri }, position: { line: 0, character: 0 } }),
+            hover({ textDocument: { uri }, position: { line: 1, character: 0 } }),
+            definition({ textDocument: { uri } }),
+        ])
+        expect(privateServer.requests).to.have.length(1)
+        expect(privateServer.requests[0].body.map(({ method }) => method)).to.deep.equal([
+            'initialize',
+            'textDocument/hover',
+            'textDocument/hover',
+            'textDocument/definition',
+            'shutdown',
+            'exit',
+        ])
+    })
+
+    it('does not send hover requests that were unsubscribed from before being sent', async () => {
+        const position = {
+            repoPath: 'private/cancelled',
+            commitID: COMMIT_ID,
+            filePath: 'mux.go',
+            position: { line: 1, character: 1 },
+        }
+
+        lspViaAPIXlang
+            .fetchHover(position)
+            .subscribe()
+            .unsubscribe()
+        await timer(50).toPromise()
+        expect(privateServer.requests).to.have.length(0)
+
+        // The cancelled hover isn't memoized.
+        expect(await lspViaAPIXlang.fetchHover(position).toPromise()).to.deep.equal(
+            hover({
+                textDocument: { uri: `git://private/cancelled?${COMMIT_ID}#mux.go` },
+                position: { line: 0, character: 0 },
+            })
+        )
+        expect(privateServer.requests).to.have.length(1)
+    })
+
+    it('aborts a batch that was sent when every request in it is unsubscribed from', async () => {
+        restoreNetwork()
+        restoreNetwork = stubNetwork({ ...privateServer.handlers, ...dotComServer.handlers }, { latency: 50 })
+        const position = (line: number) => ({
+            repoPath: 'private/aborted',
+            commitID: COMMIT_ID,
+            filePath: 'mux.go',
+            position: { line, character: 1 },
+        })
+        const results: any[] = []
+        const subscriptions = [
+            lspViaAPIXlang.fetchHover(position(1)).subscribe(result => results.push(result)),
+            lspViaAPIXlang.fetchReferences(position(2)).subscribe(result => results.push(result)),
+        ]
+
+        // Wait for the batch to be sent, but not answered.
+        await timer(30).toPromise()
+        subscriptions[0].unsubscribe()
+        await timer(50).toPromise()
+        // The batch is still in flight for the references request.
+        expect(privateServer.requests).to.have.length(1)
+        expect(results).to.deep.equal([[]])
+
+        const subscription = lspViaAPIXlang.fetchHover(position(3)).subscribe(result => results.push(result))
+        await timer(30).toPromise()
+        subscription.unsubscribe()
+        await timer(50).toPromise()
+        // The aborted request never reached the server.
+        expect(privateServer.requests).to.have.length(1)
+        expect(results).to.deep.equal([[]])
+    })
+
+    it('sends references requests in batches', async () => {
+        const references = ({ textDocument }) => [
+            { uri: textDocument.uri, range: { start: { line: 2, character: 1 }, end: { line: 2, character: 4 } } },
+        ]
+        restoreNetwork()
+        privateServer = new MockSourcegraphServer(PRIVATE_URL, { hover, references })
+        restoreNetwork = stubNetwork(privateServer.handlers)
+        const position = {
+            repoPath: 'private/references',
+            commitID: COMMIT_ID,
+            filePath: 'mux.go',
+            position: { line: 3, character: 7 },
+        }
+        const uri = `git://private/references?${COMMIT_ID}#mux.go`
+
+        const results = await Promise.all([
+            lspViaAPIXlang.fetchHover(position).toPromise(),
+            lspViaAPIXlang.fetchReferences(position).toPromise(),
+        ])
+        expect(results[1]).to.deep.equal(references({ textDocument: { uri } }))
+        expect(privateServer.requests).to.have.length(1)
+        const { id, ...referencesRequest } = privateServer.requests[0].body.find(
+            ({ method }) => method === 'textDocument/references'
+        )
+        expect(referencesRequest).to.deep.equal({
+            method: 'textDocument/references',
+            params: {
+                textDocument: { uri },
+                position: { line: 2, character: 6 },
+                context: { includeDeclaration: true },
+            },
+        })
+    })
+
+    it('falls back to Sourcegraph.com when the configured URL is unreachable for batched requests', async () => {
+        privateServer.reachable = false
+
+        const result = await lspViaAPIXlang
+            .fetchHover({
+                repoPath: 'github.com/gorilla/fallback',
+                commitID: COMMIT_ID,
+                filePath: 'mux.go',
+                position: { line: 1, character: 1 },
+            })
+            .toPromise()
+        expect(result).to.deep.equal(
+            hover({
+                textDocument: { uri: `git://github.com/gorilla/fallback?${COMMIT_ID}#mux.go` },
+                position: { line: 0, character: 0 },
+            })
+        )
+        expect(dotComServer.requests).to.have.length(1)
+    })
+
+    it('falls back to Sourcegraph.com when the configured URL is unreachable', async () => {
+        privateServer.reachable = false
+
+        const responses = await sendLSPHTTPRequests([
+            { id: 0, method: 'initialize', params: { rootUri: `git://github.com/gorilla/mux?${COMMIT_ID}` } },
+            {
+                id: 1,
+                method: 'textDocument/hover',
+                params: {
+                    textDocument: { uri: `git://github.com/gorilla/mux?${COMMIT_ID}#mux.go` },
+                    position: { line: 0, character: 0 },
+                },
+            },
+        ]).toPromise()
+        expect(responses[1].result).to.deep.equal(
+            hover({
+                textDocument: { uri: `git://github.com/gorilla/mux?${COMMIT_ID}#mux.go` },
+                position: { line: 0, character: 0 },
+            })
+        )
+        expect(dotComServer.requests).to.have.length(1)
+    })
+})
+
+describe('createDefinitionsFetcher', () => {
+    const location = (uri: string, line: number) => ({
+        uri,
+        range: { start: { line, character: 5 }, end: { line, character: 11 } },
+    })
+
+    const buildURL = ({ repoPath, rev, filePath, position }: JumpURLLocation) =>
+        `https://${repoPath}/blob/${rev}/${filePath}#L${position.line}`
+
+    const token = {
+        repoPath: 'github.com/gorilla/mux',
+        commitID: COMMIT_ID,
+        rev: 'master',
+        filePath: 'mux.go',
+        line: 3,
+        character: 7,
+    }
+
+    it('returns all definitions of a token with their URLs', async () => {
+        const fetchDefinitions = createDefinitionsFetcher(
+            () =>
+                of([
+                    location(`git://github.com/gorilla/mux?${COMMIT_ID}#route.go`, 9),
+                    location(`git://github.com/gorilla/context?${'7'.repeat(40)}#context.go`, 19),
+                ]),
+            buildURL
+        )
+
+        expect(await fetchDefinitions(token).toPromise()).to.deep.equal([
+            {
+                repoPath: 'github.com/gorilla/mux',
+                commitID: COMMIT_ID,
+                // The revision is kept for definitions in the same commit.
+                rev: 'master',
+                filePath: 'route.go',
+                position: { line: 10, character: 6 },
+                part: undefined,
+                url: 'https://github.com/gorilla/mux/blob/master/route.go#L10',
+            },
+            {
+                repoPath: 'github.com/gorilla/context',
+                commitID: '7'.repeat(40),
+                rev: '7'.repeat(40),
+                filePath: 'context.go',
+                position: { line: 20, character: 6 },
+                part: undefined,
+                url: `https://github.com/gorilla/context/blob/${'7'.repeat(40)}/context.go#L20`,
+            },
+        ])
+    })
+
+    it('returns a single definition in a list', async () => {
+        const fetchDefinitions = createDefinitionsFetcher(
+            () => of(location(`git://github.com/gorilla/mux?${COMMIT_ID}#route.go`, 9)),
+            buildURL
+        )
+
+        expect((await fetchDefinitions(token).toPromise()).map(({ url }) => url)).to.deep.equal([
+            'https://github.com/gorilla/mux/blob/master/route.go#L10',
+        ])
+    })
+
+    it('returns no definitions when there are none', async () => {
+        const fetchDefinitions = createDefinitionsFetcher(() => of(null), buildURL)
+
+        expect(await fetchDefinitions(token).toPromise()).to.deep.equal([])
+    })
+})
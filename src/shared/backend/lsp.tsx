@@ -1,12 +1,13 @@
 import { DiffPart, JumpURLFetcher } from '@sourcegraph/codeintellify'
 import { Controller } from '@sourcegraph/extensions-client-common/lib/client/controller'
 import { ConfigurationSubject, Settings } from '@sourcegraph/extensions-client-common/lib/settings'
-import { from, Observable, of, OperatorFunction, throwError, throwError as error } from 'rxjs'
+import { uniq } from 'lodash'
+import { from, Observable, of, OperatorFunction, Subscriber, Subscription, throwError, throwError as error } from 'rxjs'
 import { ajax, AjaxResponse } from 'rxjs/ajax'
 import { catchError, map, switchMap, tap } from 'rxjs/operators'
 import { HoverMerged } from 'sourcegraph/module/client/types/hover'
 import { TextDocumentPositionParams } from 'sourcegraph/module/protocol'
-import { Definition, TextDocumentIdentifier } from 'vscode-languageserver-types'
+import { Definition, Location, Position, TextDocumentIdentifier } from 'vscode-languageserver-types'
 import { InitializeResult, ServerCapabilities } from 'vscode-languageserver/lib/main'
 import {
     AbsoluteRepo,
@@ -21,11 +22,17 @@ import {
     ResolvedRevSpec,
     RevSpec,
 } from '../repo'
-import { canFetchForURL, DEFAULT_SOURCEGRAPH_URL, getModeFromPath, repoUrlCache, sourcegraphUrl } from '../util/context'
+import {
+    canFetchForURL,
+    DEFAULT_SOURCEGRAPH_URL,
+    getModeFromPath,
+    getSourcegraphURLForRepo,
+    sourcegraphUrl,
+} from '../util/context'
 import { memoizeObservable } from '../util/memoize'
-import { toAbsoluteBlobURL } from '../util/url'
 import { normalizeAjaxError, NoSourcegraphURLError } from './errors'
 import { getHeaders } from './headers'
+import { cachedInBackground, isAbsoluteCommitID } from './persistentCache'
 
 export interface LSPRequest {
     method: string
@@ -59,72 +66,67 @@ const request = (url: string, method: string, requests: any[]): Observable<AjaxR
         )
     )
 
-export function sendLSPHTTPRequests(requests: any[], url: string = sourcegraphUrl): Observable<any[]> {
-    const sendTo = (urlsToTry: string[]): Observable<AjaxResponse> => {
-        if (urlsToTry.length === 0) {
-            return throwError(new NoSourcegraphURLError())
-        }
-
-        const urlToTry = urlsToTry[0]
-        const urlPathHint = requests[1] && requests[1].method
+/**
+ * Sends a JSON-RPC batch to the LSP proxy of the first of urls that can be
+ * reached.
+ */
+const requestFirstReachable = (urls: string[], method: string, requests: any[]): Observable<AjaxResponse> => {
+    if (urls.length === 0) {
+        return throwError(new NoSourcegraphURLError())
+    }
 
-        return request(urlToTry, urlPathHint, requests).pipe(
-            // Workaround for https://github.com/ReactiveX/rxjs/issues/3606
-            tap(response => {
-                if (response.status === 0) {
-                    throw Object.assign(new Error('Ajax status 0'), response)
-                }
-            }),
-            catchError(err => {
-                if (urlsToTry.length === 1) {
-                    // We don't have any fallbacks left, so throw the most recent error.
-                    throw err
-                } else {
-                    return sendTo(urlsToTry.slice(1))
-                }
-            }),
-            catchError<AjaxResponse, never>(err => {
-                normalizeAjaxError(err)
+    return request(urls[0], method, requests).pipe(
+        // Workaround for https://github.com/ReactiveX/rxjs/issues/3606
+        tap(response => {
+            if (response.status === 0) {
+                throw Object.assign(new Error('Ajax status 0'), response)
+            }
+        }),
+        catchError(err => {
+            if (urls.length === 1) {
+                // We don't have any fallbacks left, so throw the most recent error.
                 throw err
-            })
-        )
-    }
+            }
+            return requestFirstReachable(urls.slice(1), method, requests)
+        })
+    )
+}
+
+/** The URLs to send LSP requests for url to: url itself, then Sourcegraph.com. */
+const withFallbackURL = (url: string): string[] => uniq([url, DEFAULT_SOURCEGRAPH_URL]).filter(canFetchForURL)
 
-    return sendTo([url, DEFAULT_SOURCEGRAPH_URL].filter(url => canFetchForURL(url))).pipe(
+/**
+ * Sends a JSON-RPC batch to the LSP proxy, falling back to Sourcegraph.com.
+ *
+ * Unsubscribing aborts the HTTP request, which cancels the requests in the
+ * batch: each batch gets its own LSP connection, so there are no persistent
+ * connections to send `$/cancelRequest` on.
+ */
+export function sendLSPHTTPRequests(requests: any[], url: string = sourcegraphUrl): Observable<any[]> {
+    const urlPathHint = requests[1] && requests[1].method
+    return requestFirstReachable(withFallbackURL(url), urlPathHint, requests).pipe(
+        catchError<AjaxResponse, never>(err => {
+            normalizeAjaxError(err)
+            throw err
+        }),
         map(({ response }) => response)
     )
 }
 
-function wrapLSP(req: LSPRequest, ctx: AbsoluteRepo, path: string): any[] {
-    return [
-        {
-            id: 0,
-            method: 'initialize',
-            params: {
-                rootUri: `git://${ctx.repoPath}?${ctx.commitID}`,
-                initializationOptions: { mode: `${getModeFromPath(path)}` },
-            },
-        },
-        {
-            id: 1,
-            ...req,
-        },
-        {
-            id: 2,
-            method: 'shutdown',
-        },
-        {
-            // id not included on 'exit' requests
-            method: 'exit',
-        },
-    ]
-}
+const initializeRequest = (ctx: AbsoluteRepo, path: string) => ({
+    id: 0,
+    method: 'initialize',
+    params: {
+        rootUri: `git://${ctx.repoPath}?${ctx.commitID}`,
+        initializationOptions: { mode: `${getModeFromPath(path)}` },
+    },
+})
 
 /**
- * Inspects a response from LSP Proxy and throws an exception if the response
- * has an error. This is intended to be used in rxjs: pipe(...throwIfError)
+ * Emits the JSON-RPC responses from an LSP Proxy response, and normalizes
+ * errors of the HTTP request.
  */
-const extractLSPResponse: OperatorFunction<AjaxResponse, any> = source =>
+const toLSPResponses: OperatorFunction<AjaxResponse, any[]> = source =>
     source.pipe(
         tap(ajaxResponse => {
             // Workaround for https://github.com/ReactiveX/rxjs/issues/3606
@@ -136,142 +138,296 @@ const extractLSPResponse: OperatorFunction<AjaxResponse, any> = source =>
             normalizeAjaxError(err)
             throw err
         }),
-        map<AjaxResponse, any[]>(({ response }) => response),
-        tap(lspResponses => {
-            for (const lspResponse of lspResponses) {
-                if (lspResponse && lspResponse.error) {
-                    throw Object.assign(new Error(lspResponse.error.message), lspResponse.error, {
-                        responses: lspResponses,
-                    })
-                }
-            }
-        }),
-        map(lspResponses => lspResponses[1] && lspResponses[1].result)
+        map<AjaxResponse, any[]>(({ response }) => response)
     )
 
-const fetchHover = memoizeObservable((pos: AbsoluteRepoFilePosition): Observable<HoverMerged | null> => {
-    const mode = getModeFromPath(pos.filePath)
-    if (!mode || unsupportedModes.has(mode)) {
-        return of({ contents: [] })
+const toLSPError = (lspResponse: any, lspResponses: any[]): Error =>
+    Object.assign(new Error(lspResponse.error.message), lspResponse.error, { responses: lspResponses })
+
+/** How long a request waits for other requests to the same workspace, to be sent with them. */
+const BATCH_WINDOW_MS = 15
+
+interface BatchedRequest {
+    req: LSPRequest
+    subscriber: Subscriber<any>
+}
+
+interface Batch {
+    requests: BatchedRequest[]
+    /** The HTTP request the batch was sent in, once it is sent. */
+    subscription?: Subscription
+}
+
+/** Batches waiting to be sent, keyed by the URL, workspace and mode they are sent to. */
+const pendingBatches = new Map<string, Batch>()
+
+/**
+ * Sends the requests that are still subscribed to in a single JSON-RPC batch,
+ * which initializes the workspace once for all of them. Like
+ * `sendLSPHTTPRequests`, it falls back to Sourcegraph.com.
+ */
+function sendBatch(url: string, ctx: AbsoluteRepoFile, batch: Batch): void {
+    const requests = batch.requests.filter(({ subscriber }) => !subscriber.closed)
+    batch.requests = requests
+    if (requests.length === 0) {
+        return
     }
 
-    const body = wrapLSP(
-        {
-            method: 'textDocument/hover',
-            params: {
-                textDocument: {
-                    uri: `git://${pos.repoPath}?${pos.commitID}#${pos.filePath}`,
-                },
-                position: {
-                    character: pos.position.character! - 1,
-                    line: pos.position.line - 1,
-                },
+    const shutdownID = requests.length + 1
+    const body = [
+        initializeRequest(ctx, ctx.filePath),
+        ...requests.map(({ req }, i) => ({ id: i + 1, ...req })),
+        { id: shutdownID, method: 'shutdown' },
+        { method: 'exit' },
+    ]
+
+    batch.subscription = requestFirstReachable(withFallbackURL(url), requests[0].req.method, body)
+        .pipe(toLSPResponses)
+        .subscribe(
+            lspResponses => {
+                for (const [i, { subscriber }] of requests.entries()) {
+                    // Errors initializing or shutting down the workspace fail every request.
+                    const lspResponse = lspResponses[i + 1]
+                    const errorResponse = [lspResponses[0], lspResponse, lspResponses[shutdownID]].find(
+                        response => response && response.error
+                    )
+                    if (errorResponse) {
+                        subscriber.error(toLSPError(errorResponse, lspResponses))
+                    } else {
+                        subscriber.next(lspResponse && lspResponse.result)
+                        subscriber.complete()
+                    }
+                }
             },
-        },
-        pos,
-        pos.filePath
-    )
+            err => {
+                for (const { subscriber } of requests) {
+                    subscriber.error(err)
+                }
+            }
+        )
+}
 
-    const url = repoUrlCache[pos.repoPath] || sourcegraphUrl
-    if (!url) {
-        throw new Error('Error fetching hover: No URL found.')
-    }
-    if (!canFetchForURL(url)) {
-        return of(null)
-    }
+/**
+ * Sends req to the workspace of ctx and emits its result. Requests to the same
+ * workspace and mode made within BATCH_WINDOW_MS of each other are sent
+ * together, so hovering over many tokens doesn't take a round trip each.
+ *
+ * Unsubscribing before the batch is sent leaves req out of it. Once it is sent,
+ * the HTTP request is aborted when no request in the batch is subscribed to
+ * anymore.
+ */
+const sendBatchedLSPRequest = (url: string, ctx: AbsoluteRepoFile, req: LSPRequest): Observable<any> =>
+    new Observable(subscriber => {
+        const key = [url, ctx.repoPath, ctx.commitID, getModeFromPath(ctx.filePath)].join(' ')
+        const batch: Batch = pendingBatches.get(key) || { requests: [] }
+        if (batch.requests.length === 0) {
+            pendingBatches.set(key, batch)
+            setTimeout(() => {
+                pendingBatches.delete(key)
+                sendBatch(url, ctx, batch)
+            }, BATCH_WINDOW_MS)
+        }
+        batch.requests.push({ req, subscriber })
 
-    return request(url, 'textDocument/hover', body).pipe(extractLSPResponse)
-}, makeRepoURI)
+        return () => {
+            if (batch.subscription && batch.requests.every(({ subscriber }) => subscriber.closed)) {
+                batch.subscription.unsubscribe()
+            }
+        }
+    })
 
-const fetchDefinition = memoizeObservable((pos: AbsoluteRepoFilePosition): Observable<Definition> => {
-    const mode = getModeFromPath(pos.filePath)
-    if (!mode || unsupportedModes.has(mode)) {
-        return of([])
-    }
+/** The cache key for positions at an absolute commit, whose LSP results never change. */
+const persistentCacheKey = (pos: AbsoluteRepoFilePosition): string | undefined =>
+    isAbsoluteCommitID(pos.commitID) ? makeRepoURI(pos) : undefined
+
+const fetchHover = memoizeObservable(
+    cachedInBackground(
+        'hover',
+        (pos: AbsoluteRepoFilePosition): Observable<HoverMerged | null> => {
+            const mode = getModeFromPath(pos.filePath)
+            if (!mode || unsupportedModes.has(mode)) {
+                return of({ contents: [] })
+            }
+
+            const url = getSourcegraphURLForRepo(pos.repoPath)
+            if (!url) {
+                throw new Error('Error fetching hover: No URL found.')
+            }
+            if (!canFetchForURL(url)) {
+                return of(null)
+            }
 
-    const body = wrapLSP(
-        {
-            method: 'textDocument/definition',
-            params: {
-                textDocument: {
-                    uri: `git://${pos.repoPath}?${pos.commitID}#${pos.filePath}`,
+            return sendBatchedLSPRequest(url, pos, {
+                method: 'textDocument/hover',
+                params: {
+                    textDocument: {
+                        uri: `git://${pos.repoPath}?${pos.commitID}#${pos.filePath}`,
+                    },
+                    position: {
+                        character: pos.position.character! - 1,
+                        line: pos.position.line - 1,
+                    },
                 },
-                position: {
-                    character: pos.position.character! - 1,
-                    line: pos.position.line - 1,
+            })
+        },
+        persistentCacheKey,
+        // Hovers without a range are returned for positions without a token.
+        hover => isEmptyHover(hover) || !hover!.range
+    ),
+    makeRepoURI
+)
+
+const fetchDefinition = memoizeObservable(
+    cachedInBackground(
+        'definition',
+        (pos: AbsoluteRepoFilePosition): Observable<Definition> => {
+            const mode = getModeFromPath(pos.filePath)
+            if (!mode || unsupportedModes.has(mode)) {
+                return of([])
+            }
+
+            const url = getSourcegraphURLForRepo(pos.repoPath)
+            if (!url) {
+                throw new Error('Error fetching definition: No URL found.')
+            }
+            if (!canFetchForURL(url)) {
+                return of([])
+            }
+            return sendBatchedLSPRequest(url, pos, {
+                method: 'textDocument/definition',
+                params: {
+                    textDocument: {
+                        uri: `git://${pos.repoPath}?${pos.commitID}#${pos.filePath}`,
+                    },
+                    position: {
+                        character: pos.position.character! - 1,
+                        line: pos.position.line - 1,
+                    },
                 },
-            },
+            })
         },
-        pos,
-        pos.filePath
-    )
+        persistentCacheKey
+    ),
+    makeRepoURI
+)
 
-    const url = repoUrlCache[pos.repoPath] || sourcegraphUrl
-    if (!url) {
-        throw new Error('Error fetching definition: No URL found.')
-    }
-    if (!canFetchForURL(url)) {
-        return of([])
-    }
-    return request(url, 'textDocument/definition', body).pipe(extractLSPResponse)
-}, makeRepoURI)
+const fetchReferences = memoizeObservable(
+    cachedInBackground(
+        'references',
+        (pos: AbsoluteRepoFilePosition): Observable<Location[]> => {
+            const mode = getModeFromPath(pos.filePath)
+            if (!mode || unsupportedModes.has(mode)) {
+                return of([])
+            }
 
-export function fetchJumpURL(
-    fetchDefinition: SimpleProviderFns['fetchDefinition'],
-    pos: AbsoluteRepoFilePosition
-): Observable<string | null> {
-    return fetchDefinition(pos).pipe(
-        map(def => {
-            const defArray = Array.isArray(def) ? def : [def]
-            def = defArray[0]
-            if (!def) {
-                return null
+            const url = getSourcegraphURLForRepo(pos.repoPath)
+            if (!url) {
+                throw new Error('Error fetching references: No URL found.')
+            }
+            if (!canFetchForURL(url)) {
+                return of([])
             }
+            return sendBatchedLSPRequest(url, pos, {
+                method: 'textDocument/references',
+                params: {
+                    textDocument: {
+                        uri: `git://${pos.repoPath}?${pos.commitID}#${pos.filePath}`,
+                    },
+                    position: {
+                        character: pos.position.character! - 1,
+                        line: pos.position.line - 1,
+                    },
+                    context: {
+                        includeDeclaration: true,
+                    },
+                },
+            }).pipe(map(references => references || []))
+        },
+        persistentCacheKey
+    ),
+    makeRepoURI
+)
 
-            const uri = parseRepoURI(def.uri) as AbsoluteRepoFilePosition
-            uri.position = { line: def.range.start.line + 1, character: def.range.start.character + 1 }
-            return toAbsoluteBlobURL(uri)
-        })
-    )
+export type JumpURLLocation = RepoSpec & RevSpec & ResolvedRevSpec & FileSpec & PositionSpec & { part?: DiffPart }
+
+/**
+ * The hovered token a definition or references are requested for, along with
+ * the file it is in.
+ */
+export type HoveredTokenLocation = RepoSpec & RevSpec & ResolvedRevSpec & FileSpec & Position & { part?: DiffPart }
+
+/**
+ * Converts a location returned by the language server to a `JumpURLLocation`.
+ */
+export const toJumpURLLocation = (
+    location: Location,
+    { repoPath, commitID, rev, part }: HoveredTokenLocation
+): JumpURLLocation => {
+    const uri = parseRepoURI(location.uri)
+    return {
+        repoPath: uri.repoPath,
+        commitID: uri.commitID!, // LSP proxy always includes a commitID in the URI.
+        rev: uri.repoPath === repoPath && uri.commitID === commitID ? rev : uri.rev!, // If the commitID is the same, keep the rev.
+        filePath: uri.filePath!, // There's never going to be a definition without a file.
+        position: {
+            line: location.range.start.line + 1,
+            character: location.range.start.character + 1,
+        },
+        part,
+    }
 }
 
-export type JumpURLLocation = RepoSpec & RevSpec & ResolvedRevSpec & FileSpec & PositionSpec & { part?: DiffPart }
-export function createJumpURLFetcher(
+/**
+ * A definition, along with its URL on the code host.
+ */
+export type DefinitionLocation = JumpURLLocation & { url: string }
+
+export type DefinitionsFetcher = (token: HoveredTokenLocation) => Observable<DefinitionLocation[]>
+
+/**
+ * Creates a function that fetches all the definitions of a hovered token. Some
+ * tokens have more than one, e.g. overloaded functions. The definitions are
+ * memoized, because both the "Go to definition" button and the definition
+ * picker need them.
+ */
+export function createDefinitionsFetcher(
     fetchDefinition: SimpleProviderFns['fetchDefinition'],
     buildURL: (pos: JumpURLLocation) => string
-): JumpURLFetcher {
-    return ({ line, character, part, commitID, repoPath, ...rest }) =>
-        fetchDefinition({ ...rest, commitID, repoPath, position: { line, character } }).pipe(
-            map(def => {
-                const defArray = Array.isArray(def) ? def : [def]
-                def = defArray[0]
-                if (!def) {
-                    return null
-                }
-
-                const uri = parseRepoURI(def.uri)
-                return buildURL({
-                    repoPath: uri.repoPath,
-                    commitID: uri.commitID!, // LSP proxy always includes a commitID in the URI.
-                    rev: uri.repoPath === repoPath && uri.commitID === commitID ? rest.rev : uri.rev!, // If the commitID is the same, keep the rev.
-                    filePath: uri.filePath!, // There's never going to be a definition without a file.
-                    position: {
-                        line: def.range.start.line + 1,
-                        character: def.range.start.character + 1,
-                    },
-                    part,
-                })
-            })
-        )
+): DefinitionsFetcher {
+    return memoizeObservable(
+        token => {
+            const { line, character, part, ...rest } = token
+            return fetchDefinition({ ...rest, position: { line, character } }).pipe(
+                map(def => (def ? (Array.isArray(def) ? def : [def]) : [])),
+                map(defs =>
+                    defs.map(def => {
+                        const location = toJumpURLLocation(def, token)
+                        return { ...location, url: buildURL(location) }
+                    })
+                )
+            )
+        },
+        ({ repoPath, commitID, filePath, line, character, part }) =>
+            `${repoPath}@${commitID}/${filePath}:${line}:${character}:${part}`
+    )
 }
 
+/**
+ * Creates a `JumpURLFetcher` for codeintellify from a `DefinitionsFetcher`.
+ * When there is more than one definition, it resolves to the URL of the first
+ * one, so it is used along with a `HoverDefinitionPicker`, which lets the user
+ * pick one of them instead.
+ */
+export const toJumpURLFetcher = (fetchDefinitions: DefinitionsFetcher): JumpURLFetcher => token =>
+    fetchDefinitions(token).pipe(map(defs => (defs.length > 0 ? defs[0].url : null)))
+
 const fetchServerCapabilities = (pos: AbsoluteRepoLanguageFile): Observable<ServerCapabilities | undefined> => {
     // Check if mode is known to not be supported
     const mode = getModeFromPath(pos.filePath)
     if (!mode || unsupportedModes.has(mode)) {
         return error(Object.assign(new Error('Language not supported'), { code: EMODENOTFOUND }))
     }
-    const url = repoUrlCache[pos.repoPath] || sourcegraphUrl
+    const url = getSourcegraphURLForRepo(pos.repoPath)
     if (!url) {
         throw new Error('Error fetching server capabilities. No URL found.')
     }
@@ -323,12 +479,14 @@ const fetchServerCapabilities = (pos: AbsoluteRepoLanguageFile): Observable<Serv
 export interface SimpleProviderFns {
     fetchHover: (pos: AbsoluteRepoFilePosition) => Observable<HoverMerged | null>
     fetchDefinition: (pos: AbsoluteRepoFilePosition) => Observable<Definition>
+    fetchReferences: (pos: AbsoluteRepoFilePosition) => Observable<Location[]>
     fetchServerCapabilities: (pos: AbsoluteRepoLanguageFile) => Observable<ServerCapabilities | undefined>
 }
 
 export const lspViaAPIXlang: SimpleProviderFns = {
     fetchHover,
     fetchDefinition,
+    fetchReferences,
     fetchServerCapabilities,
 }
 
@@ -355,5 +513,12 @@ export const createLSPFromExtensions = (
         ),
     fetchDefinition: pos =>
         from(extensionsController.registries.textDocumentDefinition.getLocation(toTextDocumentPositionParams(pos))),
+    fetchReferences: pos =>
+        from(
+            extensionsController.registries.textDocumentReferences.getLocation({
+                ...toTextDocumentPositionParams(pos),
+                context: { includeDeclaration: true },
+            })
+        ).pipe(map(references => (references ? (Array.isArray(references) ? references : [references]) : []))),
     fetchServerCapabilities,
 })
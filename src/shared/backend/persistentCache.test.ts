@@ -0,0 +1,153 @@
+import { expect } from 'chai'
+import { afterEach, beforeEach, describe, it } from 'mocha'
+import { Observable, of, timer } from 'rxjs'
+import { tap } from 'rxjs/operators'
+import { fakeChrome } from '../../testing/chrome'
+import { resetIndexedDB } from '../../testing/indexeddb'
+import { useSourcegraphURL } from '../../testing/server'
+import { setRoutingRules } from '../util/context'
+import { cachedInBackground, PersistentCache } from './persistentCache'
+
+const PRIVATE_URL = 'https://sourcegraph.example.com'
+
+const COMMIT_ID = '5'.repeat(40)
+
+/** Waits long enough for the last access times of entries to differ. */
+const tick = () => timer(2).toPromise()
+
+describe('PersistentCache', () => {
+    beforeEach(() => resetIndexedDB())
+
+    it('returns the cached values', async () => {
+        const cache = new PersistentCache()
+        expect(await cache.get('a')).to.equal(undefined)
+
+        await cache.set('a', { lines: ['package mux'] })
+        expect(await cache.get('a')).to.deep.equal({ lines: ['package mux'] })
+    })
+
+    it('evicts the least recently used entries when it grows too big', async () => {
+        // Each value is 7 bytes long.
+        const cache = new PersistentCache(20)
+        await cache.set('a', 'aaaaa')
+        await tick()
+        await cache.set('b', 'bbbbb')
+        await tick()
+        await cache.get('a')
+        await tick()
+        await cache.set('c', 'ccccc')
+
+        expect(await cache.get('a')).to.equal('aaaaa')
+        expect(await cache.get('b')).to.equal(undefined)
+        expect(await cache.get('c')).to.equal('ccccc')
+    })
+
+    it('counts replaced values once', async () => {
+        const cache = new PersistentCache(20)
+        await cache.set('a', 'aaaaa')
+        await tick()
+        await cache.set('a', 'AAAAA')
+        await tick()
+        await cache.set('b', 'bbbbb')
+
+        expect(await cache.get('a')).to.equal('AAAAA')
+        expect(await cache.get('b')).to.equal('bbbbb')
+    })
+
+    it('counts the entries cached in earlier sessions', async () => {
+        await new PersistentCache(20).set('a', 'aaaaa')
+        await tick()
+        await new PersistentCache(20).set('b', 'bbbbb')
+        await tick()
+
+        const cache = new PersistentCache(20)
+        await cache.set('c', 'ccccc')
+        expect(await cache.get('a')).to.equal(undefined)
+        expect(await cache.get('b')).to.equal('bbbbb')
+    })
+})
+
+describe('cachedInBackground', () => {
+    const sendMessage = fakeChrome.runtime.sendMessage
+    let fetches: string[]
+
+    beforeEach(() => {
+        resetIndexedDB()
+        useSourcegraphURL(PRIVATE_URL)
+        fetches = []
+
+        // Answer messages the way the background page does.
+        const cache = new PersistentCache()
+        fakeChrome.runtime.sendMessage = (message: any, responseCallback?: (response: any) => void) => {
+            switch (message.type) {
+                case 'getCachedValue':
+                    cache.get(message.payload.key).then(responseCallback, () => responseCallback!(undefined))
+                    return
+                case 'setCachedValue':
+                    cache.set(message.payload.key, message.payload.value).catch(err => console.error(err))
+                    return
+            }
+        }
+    })
+
+    afterEach(() => {
+        fakeChrome.runtime.sendMessage = sendMessage
+    })
+
+    interface Params {
+        repoPath: string
+        commitID: string
+    }
+
+    const fetchLines = cachedInBackground(
+        'lines',
+        ({ repoPath, commitID }: Params): Observable<string[]> =>
+            of(repoPath === 'github.com/gorilla/empty' ? [] : ['package mux']).pipe(
+                tap(() => fetches.push(`${repoPath}@${commitID}`))
+            ),
+        ({ repoPath, commitID }) => (commitID === COMMIT_ID ? `${repoPath}@${commitID}` : undefined)
+    )
+
+    /** Fetches the lines, and waits for the background page to cache them. */
+    const fetchAndCache = async (params: Params) => {
+        const lines = await fetchLines(params).toPromise()
+        await timer(10).toPromise()
+        return lines
+    }
+
+    it('fetches results that were cached only once', async () => {
+        const params = { repoPath: 'github.com/gorilla/mux', commitID: COMMIT_ID }
+        expect(await fetchAndCache(params)).to.deep.equal(['package mux'])
+        expect(await fetchAndCache(params)).to.deep.equal(['package mux'])
+        expect(fetches).to.deep.equal([`github.com/gorilla/mux@${COMMIT_ID}`])
+    })
+
+    it('does not cache results for which the resolver returns no key', async () => {
+        const params = { repoPath: 'github.com/gorilla/mux', commitID: 'master' }
+        await fetchAndCache(params)
+        await fetchAndCache(params)
+        expect(fetches).to.have.length(2)
+    })
+
+    it('does not cache empty results', async () => {
+        const params = { repoPath: 'github.com/gorilla/empty', commitID: COMMIT_ID }
+        expect(await fetchAndCache(params)).to.deep.equal([])
+        expect(await fetchAndCache(params)).to.deep.equal([])
+        expect(fetches).to.have.length(2)
+    })
+
+    it('caches results separately for each Sourcegraph URL', async () => {
+        const params = { repoPath: 'github.com/gorilla/mux', commitID: COMMIT_ID }
+        await fetchAndCache(params)
+        setRoutingRules([{ pattern: 'github.com/gorilla/*', url: 'https://sg-a.example.com' }])
+        await fetchAndCache(params)
+        expect(fetches).to.have.length(2)
+    })
+
+    it('fetches the result when the background page does not answer', async () => {
+        fakeChrome.runtime.sendMessage = () => undefined
+
+        const lines = await fetchLines({ repoPath: 'github.com/gorilla/mux', commitID: COMMIT_ID }).toPromise()
+        expect(lines).to.deep.equal(['package mux'])
+    })
+})
@@ -0,0 +1,213 @@
+import { Observable, of } from 'rxjs'
+import { catchError, switchMap, tap, timeout } from 'rxjs/operators'
+import * as runtime from '../../browser/runtime'
+import { isBackground, isExtension } from '../context'
+import { getSourcegraphURLForRepo } from '../util/context'
+
+const DB_NAME = 'sourcegraph-cache'
+const STORE_NAME = 'entries'
+const LAST_ACCESSED_INDEX = 'lastAccessed'
+
+/** The default maximum size in bytes (approximated by JSON length) of all cached values. */
+const DEFAULT_MAX_SIZE = 50 * 1024 * 1024
+
+interface CacheEntry {
+    key: string
+    value: any
+    /** The approximate size of the value in bytes. */
+    size: number
+    lastAccessed: number
+}
+
+const requestToPromise = <T>(request: IDBRequest): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+    })
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => {
+        const store = (request.result as IDBDatabase).createObjectStore(STORE_NAME, { keyPath: 'key' })
+        store.createIndex(LAST_ACCESSED_INDEX, LAST_ACCESSED_INDEX)
+    }
+    return requestToPromise<IDBDatabase>(request)
+}
+
+/**
+ * A least recently used cache persisted in IndexedDB. Only the background page
+ * should create one; content scripts query it with `cachedInBackground`.
+ */
+export class PersistentCache {
+    private db: Promise<IDBDatabase> | null = null
+
+    /** The total size of the cached values. */
+    private size = 0
+
+    /** Resolves when the sizes of the entries cached in earlier sessions are summed up. */
+    private sizeLoaded: Promise<void> | null = null
+
+    /** Resolves when the evictions started so far are done. */
+    private evicted = Promise.resolve()
+
+    constructor(private maxSize = DEFAULT_MAX_SIZE) {}
+
+    /** Returns the cached value for key, or undefined if there is none. */
+    public get(key: string): Promise<any> {
+        return this.getStore('readwrite').then(store =>
+            requestToPromise<CacheEntry | undefined>(store.get(key)).then(entry => {
+                if (!entry) {
+                    return undefined
+                }
+                store.put({ ...entry, lastAccessed: Date.now() })
+                return entry.value
+            })
+        )
+    }
+
+    /** Caches value under key, evicting the least recently used entries if the cache grows too big. */
+    public set(key: string, value: any): Promise<void> {
+        const entry: CacheEntry = { key, value, size: JSON.stringify(value).length, lastAccessed: Date.now() }
+        return this.loadSize()
+            .then(() => this.getStore('readwrite'))
+            .then(store =>
+                requestToPromise<CacheEntry | undefined>(store.get(key)).then(previous => {
+                    this.size += entry.size - (previous ? previous.size : 0)
+                    return requestToPromise(store.put(entry))
+                })
+            )
+            .then(() => {
+                if (this.size > this.maxSize) {
+                    this.evicted = this.evicted.then(() => this.evict())
+                }
+                return this.evicted
+            })
+    }
+
+    /** Sums up the sizes of the cached entries the first time it is called. */
+    private loadSize(): Promise<void> {
+        if (!this.sizeLoaded) {
+            this.sizeLoaded = this.walkLeastRecentlyUsed('readonly', entry => {
+                this.size += entry.size
+                return true
+            })
+        }
+        return this.sizeLoaded
+    }
+
+    /**
+     * Deletes the least recently used entries until the cache is within the
+     * size cap again.
+     */
+    private evict(): Promise<void> {
+        return this.walkLeastRecentlyUsed('readwrite', (entry, cursor) => {
+            if (this.size <= this.maxSize) {
+                return false
+            }
+            cursor.delete()
+            this.size -= entry.size
+            return true
+        })
+    }
+
+    /**
+     * Calls visit with the entries from least to most recently used, until it
+     * returns false.
+     */
+    private walkLeastRecentlyUsed(
+        mode: IDBTransactionMode,
+        visit: (entry: CacheEntry, cursor: IDBCursorWithValue) => boolean
+    ): Promise<void> {
+        return this.getStore(mode).then(
+            store =>
+                new Promise<void>((resolve, reject) => {
+                    const request = store.index(LAST_ACCESSED_INDEX).openCursor()
+                    request.onerror = () => reject(request.error)
+                    request.onsuccess = () => {
+                        const cursor = request.result as IDBCursorWithValue | null
+                        if (cursor && visit(cursor.value as CacheEntry, cursor)) {
+                            cursor.continue()
+                        } else {
+                            resolve()
+                        }
+                    }
+                })
+        )
+    }
+
+    private getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+        if (!this.db) {
+            this.db = openDatabase()
+        }
+        return this.db.then(db => db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+    }
+}
+
+/** How long to wait for the background page to look up a value before fetching it. */
+const BACKGROUND_TIMEOUT = 1000
+
+/**
+ * Looks up key in the background page's cache. Emits undefined if the
+ * background page doesn't answer in time.
+ */
+const getFromBackground = (key: string): Observable<any> =>
+    new Observable<any>(observer => {
+        runtime.sendMessage({ type: 'getCachedValue', payload: { key } }, value => {
+            observer.next(value)
+            observer.complete()
+        })
+    }).pipe(
+        timeout(BACKGROUND_TIMEOUT),
+        catchError(() => of(undefined))
+    )
+
+const isEmptyValue = (value: any): boolean =>
+    value === undefined || value === null || (Array.isArray(value) && value.length === 0)
+
+/**
+ * Wraps func so that its results are first looked up in the background page's
+ * `PersistentCache`, and stored there after being fetched. Results are only
+ * cached when resolver returns a key, which it should only do for params that
+ * always produce the same result (e.g. ones with an absolute commit ID). The
+ * key is scoped to the Sourcegraph instance the repository is fetched from.
+ *
+ * Results for which isEmpty returns true are not cached, because they are also
+ * returned when the Sourcegraph instance can't be reached or doesn't support
+ * the language.
+ */
+export function cachedInBackground<P extends { repoPath: string }, T>(
+    namespace: string,
+    func: (params: P) => Observable<T>,
+    resolver: (params: P) => string | undefined,
+    isEmpty: (value: T) => boolean = isEmptyValue
+): (params: P) => Observable<T> {
+    if (!isExtension || isBackground) {
+        return func
+    }
+
+    return params => {
+        const paramsKey = resolver(params)
+        if (paramsKey === undefined) {
+            return func(params)
+        }
+        const key = `${namespace}:${getSourcegraphURLForRepo(params.repoPath)}:${paramsKey}`
+
+        return getFromBackground(key).pipe(
+            switchMap(
+                cached =>
+                    cached !== undefined && cached !== null
+                        ? of(cached as T)
+                        : func(params).pipe(
+                              tap(value => {
+                                  if (!isEmpty(value)) {
+                                      runtime.sendMessage({ type: 'setCachedValue', payload: { key, value } })
+                                  }
+                              })
+                          )
+            )
+        )
+    }
+}
+
+/** Whether the given revision is a full commit SHA, which always refers to the same contents. */
+export const isAbsoluteCommitID = (rev: string): boolean => /^[0-9a-f]{40}$/.test(rev)
@@ -0,0 +1,47 @@
+import { expect } from 'chai'
+import { afterEach, beforeEach, describe, it } from 'mocha'
+import { stubNetwork } from '../../testing/network'
+import { MockSourcegraphServer, useSourcegraphURL } from '../../testing/server'
+import { DEFAULT_SOURCEGRAPH_URL } from '../util/context'
+import { fetchRepositories } from './search'
+
+const repository = { revisions: {}, files: {} }
+
+describe('search backend', () => {
+    let restoreNetwork: () => void
+
+    beforeEach(() => {
+        useSourcegraphURL(DEFAULT_SOURCEGRAPH_URL)
+        const server = new MockSourcegraphServer(DEFAULT_SOURCEGRAPH_URL, {
+            repositories: {
+                'github.com/gorilla/mux': repository,
+                'github.com/gorilla/websocket': repository,
+                'github.com/golang/go': repository,
+            },
+        })
+        restoreNetwork = stubNetwork(server.handlers)
+    })
+
+    afterEach(() => restoreNetwork())
+
+    describe('fetchRepositories', () => {
+        it('fetches the repositories matching the query', async () => {
+            expect(await fetchRepositories('gorilla', 5).toPromise()).to.deep.equal([
+                {
+                    uri: 'github.com/gorilla/mux',
+                    url: '/github.com/gorilla/mux',
+                    externalURLs: [{ url: 'https://github.com/gorilla/mux' }],
+                },
+                {
+                    uri: 'github.com/gorilla/websocket',
+                    url: '/github.com/gorilla/websocket',
+                    externalURLs: [{ url: 'https://github.com/gorilla/websocket' }],
+                },
+            ])
+        })
+
+        it('fetches at most first repositories', async () => {
+            expect(await fetchRepositories('github.com', 1).toPromise()).to.have.length(1)
+        })
+    })
+})
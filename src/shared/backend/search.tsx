@@ -15,7 +15,7 @@ import {
     toArray,
 } from 'rxjs/operators'
 import { GQL } from '../../types/gqlschema'
-import { getContext } from './context'
+import { getContext, RequestContext } from './context'
 import { createAggregateError } from './errors'
 import { queryGraphQL } from './graphql'
 
@@ -138,6 +138,15 @@ const symbolsFragment = `
                 repository {
                     uri
                 }
+                externalURLs {
+                    url
+                    serviceType
+                }
+            }
+            range {
+                start {
+                    line
+                }
             }
             url
         }
@@ -192,6 +201,36 @@ export const fetchSuggestions = (options: SearchOptions, first: number) =>
         })
     )
 
+/**
+ * Fetches the repositories whose names match query, with the URLs of their
+ * pages on Sourcegraph and on their code hosts.
+ */
+export const fetchRepositories = (query: string, first: number): Observable<GQL.IRepository[]> =>
+    queryGraphQL({
+        ctx: getContext({ repoKey: '', isRepoSpecific: false }),
+        request: `
+            query Repositories($query: String!, $first: Int!) {
+                repositories(query: $query, first: $first) {
+                    nodes {
+                        uri
+                        url
+                        externalURLs {
+                            url
+                        }
+                    }
+                }
+            }
+        `,
+        variables: { query, first },
+    }).pipe(
+        map(({ data, errors }) => {
+            if (!data || !data.repositories || !data.repositories.nodes) {
+                throw createAggregateError(errors)
+            }
+            return data.repositories.nodes
+        })
+    )
+
 interface SuggestionInput {
     query: string
     handler: (suggestion: Suggestion[]) => void
@@ -238,9 +277,12 @@ export const createSuggestionFetcher = (first = 5) => {
     return (input: SuggestionInput) => fetcher.next(input)
 }
 
-export const fetchSymbols = (options: SearchOptions): Observable<GQL.ISymbol[]> =>
+export const fetchSymbols = (
+    options: SearchOptions,
+    ctx: RequestContext = getContext({ isRepoSpecific: true })
+): Observable<GQL.ISymbol[]> =>
     queryGraphQL({
-        ctx: getContext({ isRepoSpecific: true }),
+        ctx,
         request: `
             query SearchResults($query: String!) {
                 search(query: $query) {
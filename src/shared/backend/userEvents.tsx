@@ -1,4 +1,4 @@
-import { DEFAULT_SOURCEGRAPH_URL, repoUrlCache, sourcegraphUrl } from '../util/context'
+import { DEFAULT_SOURCEGRAPH_URL, getSourcegraphURLForRepo } from '../util/context'
 import { getContext } from './context'
 import { mutateGraphQL } from './graphql'
 
@@ -10,7 +10,7 @@ import { mutateGraphQL } from './graphql'
  */
 export const logUserEvent = (event: string, uid: string): void => {
     const ctx = getContext({ isRepoSpecific: true })
-    const url = repoUrlCache[ctx.repoKey] || sourcegraphUrl
+    const url = getSourcegraphURLForRepo(ctx.repoKey)
     // Only send the request if this is a private, self-hosted Sourcegraph instance.
     if (!url || url === DEFAULT_SOURCEGRAPH_URL) {
         return
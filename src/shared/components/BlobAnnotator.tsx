@@ -4,7 +4,14 @@ import { fromEvent, interval, merge, Observable, Subject, Subscription } from 'r
 import { catchError, debounceTime, filter, map, switchMap, take, takeUntil, tap, zip } from 'rxjs/operators'
 
 import * as github from '../../libs/github/util'
-import { fetchJumpURL, isEmptyHover, lspViaAPIXlang, SimpleProviderFns } from '../backend/lsp'
+import {
+    createDefinitionsFetcher,
+    DefinitionLocation,
+    DefinitionsFetcher,
+    isEmptyHover,
+    lspViaAPIXlang,
+    SimpleProviderFns,
+} from '../backend/lsp'
 import {
     AbsoluteRepoFile,
     AbsoluteRepoFilePosition,
@@ -25,7 +32,7 @@ import {
     updateTooltip,
 } from '../repo/tooltips'
 import { eventLogger, getPathExtension } from '../util/context'
-import { parseHash } from '../util/url'
+import { parseHash, toAbsoluteBlobURL } from '../util/url'
 import { CodeIntelStatusIndicator, isCodeIntelligenceEnabled } from './CodeIntelStatusIndicator'
 import { OpenOnSourcegraph } from './OpenOnSourcegraph'
 
@@ -66,6 +73,16 @@ interface State {
     showOpenFileCTA?: boolean
 }
 
+/**
+ * Adds the definitions of the token to its tooltip data. The user picks one of
+ * them when there is more than one, otherwise "Go to definition" jumps to it.
+ */
+const withDefinitions = (tooltip: TooltipData, definitions: DefinitionLocation[]): TooltipData => ({
+    ...tooltip,
+    definitions,
+    defUrl: definitions.length > 0 ? definitions[0].url : undefined,
+})
+
 export class BlobAnnotator extends React.Component<Props, State> {
     public fileExtension: string
     public isDelta: boolean
@@ -73,6 +90,7 @@ export class BlobAnnotator extends React.Component<Props, State> {
     private subscriptions = new Subscription()
     private cells = new Map<number, CodeCell>()
     private simpleProviderFns = lspViaAPIXlang
+    private fetchDefinitions: DefinitionsFetcher
 
     constructor(props: Props) {
         super(props)
@@ -83,6 +101,7 @@ export class BlobAnnotator extends React.Component<Props, State> {
         this.isDelta = this.props.isDelta || (this.props.isCommit || this.props.isPullRequest)
         this.updateCodeCells()
         this.simpleProviderFns = props.simpleProviderFns || lspViaAPIXlang
+        this.fetchDefinitions = createDefinitionsFetcher(this.simpleProviderFns.fetchDefinition, toAbsoluteBlobURL)
     }
 
     // BlobAnnotator will only ever recieve new props when it is being rendered
@@ -281,7 +300,7 @@ export class BlobAnnotator extends React.Component<Props, State> {
                                 updateTooltip(tooltip, true, this.tooltipActions(ctx), this.props.isBase)
                             }),
                             zip(this.getDefinition(ctx)),
-                            map(([tooltip, defUrl]) => ({ ...tooltip, defUrl: defUrl || undefined } as TooltipData)),
+                            map(([tooltip, definitions]) => withDefinitions(tooltip, definitions)),
                             catchError(e => {
                                 const data: TooltipData = { target, ctx }
                                 return [data]
@@ -347,7 +366,7 @@ export class BlobAnnotator extends React.Component<Props, State> {
                         this.subscriptions.add(tooltip.subscribe(this.logTelemetryOnTooltip))
                         const tooltipWithJ2D: Observable<TooltipData> = tooltip.pipe(
                             zip(this.getDefinition(ctx)),
-                            map(([tooltip, defUrl]) => ({ ...tooltip, defUrl: defUrl || undefined }))
+                            map(([tooltip, definitions]) => withDefinitions(tooltip, definitions))
                         )
                         const loading = this.getLoadingTooltip(target, ctx, tooltip)
                         return merge(loading, tooltip, tooltipWithJ2D).pipe(
@@ -516,11 +535,19 @@ export class BlobAnnotator extends React.Component<Props, State> {
         )
     }
     /**
-     * getDefinition wraps the asynchronous fetch of tooltip data from the Sourcegraph API.
+     * getDefinition wraps the asynchronous fetch of all definitions of a token from the Sourcegraph API.
      * This Observable will emit exactly one value before it completes.
      */
-    private getDefinition(ctx: AbsoluteRepoFilePosition): Observable<string | null> {
-        return fetchJumpURL(this.simpleProviderFns.fetchDefinition, ctx)
+    private getDefinition(ctx: AbsoluteRepoFilePosition): Observable<DefinitionLocation[]> {
+        const { repoPath, commitID, rev, filePath, position } = ctx
+        return this.fetchDefinitions({
+            repoPath,
+            commitID,
+            rev: rev || commitID,
+            filePath,
+            line: position.line,
+            character: position.character!,
+        })
     }
 
     /**
@@ -0,0 +1,150 @@
+import { expect } from 'chai'
+import { afterEach, beforeEach, describe, it } from 'mocha'
+import * as React from 'react'
+import { render, unmountComponentAtNode } from 'react-dom'
+import { Simulate } from 'react-dom/test-utils'
+import { of, timer } from 'rxjs'
+import { stubNetwork } from '../../testing/network'
+import { MockSourcegraphServer, useSourcegraphURL } from '../../testing/server'
+import { DefinitionLocation } from '../backend/lsp'
+import { DEFAULT_SOURCEGRAPH_URL } from '../util/context'
+import { DefinitionPicker, HoverDefinitionPicker } from './DefinitionPicker'
+
+const COMMIT_ID = '8'.repeat(40)
+
+const definition = (filePath: string, line: number): DefinitionLocation => ({
+    repoPath: 'github.com/gorilla/mux',
+    commitID: COMMIT_ID,
+    rev: 'master',
+    filePath,
+    position: { line, character: 6 },
+    url: `https://github.com/gorilla/mux/blob/master/${filePath}#L${line}`,
+})
+
+const DEFINITIONS = [definition('mux.go', 2), definition('route.go', 1)]
+
+const TOKEN = {
+    repoPath: 'github.com/gorilla/mux',
+    commitID: COMMIT_ID,
+    rev: 'master',
+    filePath: 'doc.go',
+    line: 1,
+    character: 1,
+}
+
+/** Waits for the mock server to answer and the picker to render the response. */
+const settle = () => timer(50).toPromise()
+
+describe('DefinitionPicker', () => {
+    let restoreNetwork: () => void
+    let container: HTMLElement
+
+    beforeEach(() => {
+        useSourcegraphURL(DEFAULT_SOURCEGRAPH_URL)
+        const server = new MockSourcegraphServer(DEFAULT_SOURCEGRAPH_URL, {
+            repositories: {
+                'github.com/gorilla/mux': {
+                    revisions: { HEAD: COMMIT_ID },
+                    files: {
+                        'mux.go': 'package mux\nfunc NewRouter() *Router {\n',
+                        'route.go': 'type Route struct {\n',
+                    },
+                },
+            },
+        })
+        restoreNetwork = stubNetwork(server.handlers)
+
+        container = document.createElement('div')
+        document.body.appendChild(container)
+    })
+
+    afterEach(() => {
+        unmountComponentAtNode(container)
+        container.remove()
+        restoreNetwork()
+    })
+
+    const getItems = () =>
+        Array.from(container.querySelectorAll('.definition-picker__item')).map(item => ({
+            path: item.querySelector('.definition-picker__path')!.textContent,
+            href: item.querySelector('a')!.getAttribute('href'),
+            selected: item.classList.contains('definition-picker__item--selected'),
+        }))
+
+    it('lists the definitions with the lines they are on', async () => {
+        render(<DefinitionPicker definitions={DEFINITIONS} />, container)
+        expect(container.querySelector('.definition-picker__title')!.textContent).to.equal('2 definitions')
+        expect(getItems()).to.deep.equal([
+            { path: 'mux.go:2', href: DEFINITIONS[0].url, selected: true },
+            { path: 'route.go:1', href: DEFINITIONS[1].url, selected: false },
+        ])
+
+        await settle()
+        expect(
+            Array.from(container.querySelectorAll('.definition-picker__preview')).map(preview => preview.textContent)
+        ).to.deep.equal(['func NewRouter() *Router {', 'type Route struct {'])
+    })
+
+    it('moves the selection with the arrow keys', () => {
+        render(<DefinitionPicker definitions={DEFINITIONS} />, container)
+        const picker = container.querySelector('.definition-picker')!
+
+        Simulate.keyDown(picker, { key: 'ArrowDown' })
+        expect(getItems().map(({ selected }) => selected)).to.deep.equal([false, true])
+
+        // The selection wraps around.
+        Simulate.keyDown(picker, { key: 'ArrowDown' })
+        expect(getItems().map(({ selected }) => selected)).to.deep.equal([true, false])
+
+        Simulate.keyDown(picker, { key: 'ArrowUp' })
+        expect(getItems().map(({ selected }) => selected)).to.deep.equal([false, true])
+    })
+
+    describe('HoverDefinitionPicker', () => {
+        let hoverOverlay: HTMLElement
+        let picker: HoverDefinitionPicker | null
+
+        beforeEach(() => {
+            hoverOverlay = document.createElement('div')
+            document.body.appendChild(hoverOverlay)
+        })
+
+        afterEach(() => hoverOverlay.remove())
+
+        const setPicker = (instance: HoverDefinitionPicker | null) => (picker = instance)
+
+        const renderPicker = (definitions: DefinitionLocation[]) => {
+            const fetchDefinitions = () => of(definitions)
+            render(
+                <HoverDefinitionPicker
+                    hoveredToken={TOKEN}
+                    fetchDefinitions={fetchDefinitions}
+                    hoverOverlayElement={hoverOverlay}
+                    ref={setPicker}
+                />,
+                container
+            )
+        }
+
+        const clickGoToDefinition = () => {
+            const event = document.createEvent('MouseEvent')
+            event.initEvent('click', true, true)
+            return { handled: picker!.onGoToDefinitionClick(event), defaultPrevented: event.defaultPrevented }
+        }
+
+        it('lets the user pick one of multiple definitions', () => {
+            renderPicker(DEFINITIONS)
+            expect(hoverOverlay.querySelectorAll('.definition-picker__item')).to.have.length(2)
+
+            expect(clickGoToDefinition()).to.deep.equal({ handled: true, defaultPrevented: true })
+            expect(document.activeElement).to.equal(hoverOverlay.querySelector('.definition-picker'))
+        })
+
+        it('jumps to the definition when there is only one', () => {
+            renderPicker([DEFINITIONS[0]])
+            expect(hoverOverlay.querySelector('.definition-picker')).to.equal(null)
+
+            expect(clickGoToDefinition()).to.deep.equal({ handled: false, defaultPrevented: false })
+        })
+    })
+})
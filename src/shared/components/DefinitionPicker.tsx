@@ -0,0 +1,208 @@
+import * as React from 'react'
+import { createPortal } from 'react-dom'
+import { from, of, Subject, Subscription } from 'rxjs'
+import { catchError, distinctUntilChanged, mergeMap, switchMap } from 'rxjs/operators'
+import { DefinitionLocation, DefinitionsFetcher, HoveredTokenLocation } from '../backend/lsp'
+import { fetchBlobContentLines } from '../repo/backend'
+
+interface Props {
+    /** The definitions to pick from. */
+    definitions: DefinitionLocation[]
+}
+
+interface State {
+    /** The index of the selected definition. */
+    selectedIndex: number
+    /** The line each definition is on, keyed by its index. */
+    previews: { [index: number]: string }
+}
+
+/**
+ * A list of definitions to pick from when a token has more than one. The
+ * selection can be moved with the arrow keys and opened with enter.
+ */
+export class DefinitionPicker extends React.Component<Props, State> {
+    public state: State = { selectedIndex: 0, previews: {} }
+
+    private element: HTMLElement | null = null
+    private subscriptions = new Subscription()
+
+    public componentDidMount(): void {
+        this.subscriptions.add(
+            from(this.props.definitions.map((definition, index) => ({ definition, index })))
+                .pipe(
+                    mergeMap(({ definition: { repoPath, commitID, filePath, position }, index }) =>
+                        fetchBlobContentLines({ repoPath, commitID, filePath }).pipe(
+                            mergeMap(lines => {
+                                const line = lines[position.line - 1]
+                                return line === undefined ? [] : [{ index, preview: line.trim() }]
+                            })
+                        )
+                    )
+                )
+                .subscribe(
+                    ({ index, preview }) =>
+                        this.setState(({ previews }) => ({ previews: { ...previews, [index]: preview } })),
+                    err => console.error(err)
+                )
+        )
+    }
+
+    public componentWillUnmount(): void {
+        this.subscriptions.unsubscribe()
+    }
+
+    /** Focuses the picker so the selection can be changed with the keyboard. */
+    public focus(): void {
+        if (this.element) {
+            this.element.focus()
+        }
+    }
+
+    public render(): JSX.Element | null {
+        return (
+            <div className="definition-picker" tabIndex={0} onKeyDown={this.onKeyDown} ref={this.setElement}>
+                <div className="definition-picker__title">{this.props.definitions.length} definitions</div>
+                <ul className="definition-picker__list">
+                    {this.props.definitions.map(({ filePath, position, url }, index) => (
+                        <li
+                            key={url}
+                            className={`definition-picker__item ${
+                                index === this.state.selectedIndex ? 'definition-picker__item--selected' : ''
+                            }`}
+                        >
+                            <a href={url} className="definition-picker__link">
+                                <span className="definition-picker__path">
+                                    {filePath}:{position.line}
+                                </span>
+                                {this.state.previews[index] && (
+                                    <code className="definition-picker__preview">{this.state.previews[index]}</code>
+                                )}
+                            </a>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        )
+    }
+
+    private setElement = (element: HTMLElement | null) => {
+        this.element = element
+    }
+
+    private onKeyDown = (event: React.KeyboardEvent<HTMLElement>) => {
+        const { definitions } = this.props
+
+        switch (event.key) {
+            case 'ArrowDown':
+                event.preventDefault()
+                this.setState(({ selectedIndex }) => ({ selectedIndex: (selectedIndex + 1) % definitions.length }))
+                break
+            case 'ArrowUp':
+                event.preventDefault()
+                this.setState(({ selectedIndex }) => ({
+                    selectedIndex: (selectedIndex - 1 + definitions.length) % definitions.length,
+                }))
+                break
+            case 'Enter':
+                event.preventDefault()
+                window.location.href = definitions[this.state.selectedIndex].url
+                break
+        }
+    }
+}
+
+interface HoverDefinitionPickerProps {
+    /** The token the hover overlay is shown for, if any. */
+    hoveredToken?: HoveredTokenLocation
+    fetchDefinitions: DefinitionsFetcher
+    /** The hover overlay, which the picker is rendered in. */
+    hoverOverlayElement: HTMLElement | null
+}
+
+interface HoverDefinitionPickerState {
+    /** All definitions of the hovered token. */
+    definitions: DefinitionLocation[]
+}
+
+/**
+ * Shows a `DefinitionPicker` in the hover overlay when the hovered token has
+ * more than one definition. The hover overlay's "Go to definition" clicks are
+ * passed to `onGoToDefinitionClick`, so that they focus the picker instead of
+ * jumping to the first definition.
+ */
+export class HoverDefinitionPicker extends React.Component<HoverDefinitionPickerProps, HoverDefinitionPickerState> {
+    public state: HoverDefinitionPickerState = { definitions: [] }
+
+    private definitionPicker: DefinitionPicker | null = null
+    private hoveredTokens = new Subject<HoveredTokenLocation | undefined>()
+    private subscriptions = new Subscription()
+
+    public componentDidMount(): void {
+        this.subscriptions.add(
+            this.hoveredTokens
+                .pipe(
+                    distinctUntilChanged(),
+                    switchMap(
+                        token =>
+                            token
+                                ? this.props.fetchDefinitions(token).pipe(
+                                      catchError(err => {
+                                          console.error(err)
+                                          return [[]]
+                                      })
+                                  )
+                                : of([])
+                    )
+                )
+                .subscribe(definitions => this.setState({ definitions }))
+        )
+        this.hoveredTokens.next(this.props.hoveredToken)
+    }
+
+    public componentDidUpdate(): void {
+        this.hoveredTokens.next(this.props.hoveredToken)
+    }
+
+    public componentWillUnmount(): void {
+        this.subscriptions.unsubscribe()
+    }
+
+    /**
+     * Focuses the picker if the hovered token has more than one definition.
+     * Returns whether the click was handled, otherwise the caller jumps to the
+     * definition.
+     */
+    public onGoToDefinitionClick(event: MouseEvent): boolean {
+        if (this.state.definitions.length <= 1) {
+            return false
+        }
+
+        event.preventDefault()
+        if (this.definitionPicker) {
+            this.definitionPicker.focus()
+        }
+        return true
+    }
+
+    public render(): React.ReactPortal | null {
+        const { definitions } = this.state
+        if (!this.props.hoverOverlayElement || definitions.length <= 1) {
+            return null
+        }
+
+        return createPortal(
+            <DefinitionPicker
+                // Reset the selection when the definitions change.
+                key={definitions.map(({ url }) => url).join()}
+                definitions={definitions}
+                ref={this.setDefinitionPicker}
+            />,
+            this.props.hoverOverlayElement
+        )
+    }
+
+    private setDefinitionPicker = (definitionPicker: DefinitionPicker | null) => {
+        this.definitionPicker = definitionPicker
+    }
+}
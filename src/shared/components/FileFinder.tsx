@@ -0,0 +1,159 @@
+import { LoadingSpinner } from '@sourcegraph/react-loading-spinner'
+import * as React from 'react'
+import { ErrorLike, isErrorLike } from '../backend/errors'
+import { FuzzyMatch, fuzzyMatch } from '../util/fuzzy'
+
+/** The number of matching files shown. */
+const MAX_RESULTS = 50
+
+interface Props {
+    /** The paths of the files of the repository. `undefined` while they are being fetched. */
+    filesOrError?: string[] | ErrorLike
+
+    /** Returns the URL of the file on the code host. */
+    buildFileURL: (filePath: string) => string
+
+    onClose: () => void
+}
+
+interface State {
+    query: string
+    /** The index of the selected match, which is opened on enter. */
+    selectedIndex: number
+}
+
+/**
+ * An overlay that fuzzy finds files of a repository by path.
+ */
+export class FileFinder extends React.Component<Props, State> {
+    public state: State = { query: '', selectedIndex: 0 }
+
+    /** The matches of the last files and query, which are only matched again when either changes. */
+    private matches?: { files: string[]; query: string; matches: FuzzyMatch[] }
+
+    public render(): JSX.Element | null {
+        return (
+            <div className="file-finder" onClick={this.onBackdropClick}>
+                <div className="file-finder__dialog">
+                    <input
+                        className="file-finder__input"
+                        type="text"
+                        placeholder="Find a file..."
+                        autoFocus={true}
+                        spellCheck={false}
+                        value={this.state.query}
+                        onChange={this.onQueryChange}
+                        onKeyDown={this.onKeyDown}
+                    />
+                    {this.renderMatches()}
+                </div>
+            </div>
+        )
+    }
+
+    private renderMatches(): React.ReactNode {
+        const { filesOrError } = this.props
+
+        if (filesOrError === undefined) {
+            return (
+                <div className="file-finder__message">
+                    <LoadingSpinner className="icon-inline" />
+                </div>
+            )
+        }
+
+        if (isErrorLike(filesOrError)) {
+            return <div className="file-finder__message">{filesOrError.message}</div>
+        }
+
+        const matches = this.getMatches(filesOrError)
+        if (matches.length === 0) {
+            return <div className="file-finder__message">No matching files</div>
+        }
+
+        return (
+            <ul className="file-finder__matches">
+                {matches.map(({ text, matchIndices }, i) => (
+                    <li key={text}>
+                        <a
+                            className={`file-finder__match ${
+                                i === this.state.selectedIndex ? 'file-finder__match--selected' : ''
+                            }`}
+                            href={this.props.buildFileURL(text)}
+                        >
+                            {highlightMatch(text, matchIndices)}
+                        </a>
+                    </li>
+                ))}
+            </ul>
+        )
+    }
+
+    private getMatches(files: string[]): FuzzyMatch[] {
+        const { query } = this.state
+        if (!this.matches || this.matches.files !== files || this.matches.query !== query) {
+            this.matches = { files, query, matches: fuzzyMatch(files, query, MAX_RESULTS) }
+        }
+        return this.matches.matches
+    }
+
+    private onQueryChange = (event: React.ChangeEvent<HTMLInputElement>) =>
+        this.setState({ query: event.currentTarget.value, selectedIndex: 0 })
+
+    private onKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+        const { filesOrError } = this.props
+        const matches = filesOrError === undefined || isErrorLike(filesOrError) ? [] : this.getMatches(filesOrError)
+
+        switch (event.key) {
+            case 'ArrowDown':
+                event.preventDefault()
+                this.setState(({ selectedIndex }) => ({
+                    selectedIndex: Math.min(selectedIndex + 1, matches.length - 1),
+                }))
+                return
+            case 'ArrowUp':
+                event.preventDefault()
+                this.setState(({ selectedIndex }) => ({ selectedIndex: Math.max(selectedIndex - 1, 0) }))
+                return
+            case 'Enter': {
+                const match = matches[this.state.selectedIndex]
+                if (match) {
+                    window.location.href = this.props.buildFileURL(match.text)
+                }
+                return
+            }
+            case 'Escape':
+                this.props.onClose()
+                return
+        }
+    }
+
+    private onBackdropClick = (event: React.MouseEvent<HTMLElement>) => {
+        if (event.target === event.currentTarget) {
+            this.props.onClose()
+        }
+    }
+}
+
+/** Wraps the characters of text at matchIndices in `<mark>` elements. */
+function highlightMatch(text: string, matchIndices: number[]): React.ReactNode[] {
+    const matched = new Set(matchIndices)
+    const parts: React.ReactNode[] = []
+    let start = 0
+    for (let i = 1; i <= text.length; i++) {
+        if (i === text.length || matched.has(i) !== matched.has(start)) {
+            const part = text.slice(start, i)
+            parts.push(
+                matched.has(start) ? (
+                    <mark key={start} className="file-finder__highlight">
+                        {part}
+                    </mark>
+                ) : (
+                    part
+                )
+            )
+            start = i
+        }
+    }
+    return parts
+}
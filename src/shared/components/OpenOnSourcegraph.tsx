@@ -1,6 +1,6 @@
 import * as React from 'react'
 import { OpenInSourcegraphProps } from '../repo'
-import { getPlatformName, repoUrlCache, sourcegraphUrl } from '../util/context'
+import { getPlatformName, getSourcegraphURLForRepo } from '../util/context'
 import { Button } from './Button'
 
 export interface Props {
@@ -20,7 +20,7 @@ export class OpenOnSourcegraph extends React.Component<Props, {}> {
     }
 
     private getOpenInSourcegraphUrl(props: OpenInSourcegraphProps): string {
-        const baseUrl = repoUrlCache[props.repoPath] || sourcegraphUrl
+        const baseUrl = getSourcegraphURLForRepo(props.repoPath)
         // Build URL for Web
         let url = `${baseUrl}/${props.repoPath}`
         if (props.commit) {
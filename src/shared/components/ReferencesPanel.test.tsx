@@ -0,0 +1,158 @@
+import { expect } from 'chai'
+import { afterEach, beforeEach, describe, it } from 'mocha'
+import * as React from 'react'
+import { render, unmountComponentAtNode } from 'react-dom'
+import { Simulate } from 'react-dom/test-utils'
+import { JumpURLLocation } from '../backend/lsp'
+import { Reference, ReferencesPanel, toReference } from './ReferencesPanel'
+
+const COMMIT_ID = '9'.repeat(40)
+
+const TOKEN = {
+    repoPath: 'github.com/gorilla/mux',
+    commitID: COMMIT_ID,
+    rev: 'master',
+    filePath: 'mux.go',
+    line: 3,
+    character: 7,
+}
+
+const buildURL = ({ repoPath, rev, filePath, position }: JumpURLLocation) =>
+    `https://${repoPath}/blob/${rev}/${filePath}#L${position.line}`
+
+const reference = (repoPath: string, filePath: string, line: number): Reference => ({
+    repoPath,
+    filePath,
+    position: { line, character: 1 },
+    url: `https://${repoPath}/blob/master/${filePath}#L${line}`,
+})
+
+describe('toReference', () => {
+    it('converts a location in the same commit, keeping the revision of the token', () => {
+        const location = {
+            uri: `git://github.com/gorilla/mux?${COMMIT_ID}#route.go`,
+            range: { start: { line: 9, character: 4 }, end: { line: 9, character: 10 } },
+        }
+        expect(toReference(location, TOKEN, buildURL)).to.deep.equal({
+            repoPath: 'github.com/gorilla/mux',
+            filePath: 'route.go',
+            position: { line: 10, character: 5 },
+            url: 'https://github.com/gorilla/mux/blob/master/route.go#L10',
+        })
+    })
+
+    it('converts a location in another repository, linking to its commit', () => {
+        const location = {
+            uri: `git://github.com/gorilla/handlers?${'1'.repeat(40)}#handlers.go`,
+            range: { start: { line: 0, character: 0 }, end: { line: 0, character: 3 } },
+        }
+        expect(toReference(location, TOKEN, buildURL)).to.deep.equal({
+            repoPath: 'github.com/gorilla/handlers',
+            filePath: 'handlers.go',
+            position: { line: 1, character: 1 },
+            url: `https://github.com/gorilla/handlers/blob/${'1'.repeat(40)}/handlers.go#L1`,
+        })
+    })
+})
+
+describe('ReferencesPanel', () => {
+    let container: HTMLElement
+    let closed: boolean
+    const onClose = () => (closed = true)
+
+    beforeEach(() => {
+        closed = false
+        container = document.createElement('div')
+        document.body.appendChild(container)
+    })
+
+    afterEach(() => {
+        unmountComponentAtNode(container)
+        container.remove()
+    })
+
+    const getMessage = () => container.querySelector('.references-panel__message')!.textContent
+
+    it('groups the references by repository and file', () => {
+        render(
+            <ReferencesPanel
+                referencesOrError={[
+                    reference('github.com/gorilla/mux', 'mux.go', 2),
+                    reference('github.com/gorilla/handlers', 'handlers.go', 5),
+                    reference('github.com/gorilla/mux', 'route.go', 8),
+                    reference('github.com/gorilla/mux', 'mux.go', 4),
+                ]}
+                onClose={onClose}
+            />,
+            container
+        )
+
+        const repos = Array.from(container.querySelectorAll('.references-panel__repo')).map(repo => ({
+            repoPath: repo.querySelector('.references-panel__repo-path')!.textContent,
+            files: Array.from(repo.querySelectorAll('.references-panel__file')).map(file => ({
+                filePath: file.querySelector('.references-panel__file-path')!.textContent,
+                links: Array.from(file.querySelectorAll('a')).map(link => [
+                    link.textContent,
+                    link.getAttribute('href'),
+                ]),
+            })),
+        }))
+        expect(repos).to.deep.equal([
+            {
+                repoPath: 'github.com/gorilla/mux',
+                files: [
+                    {
+                        filePath: 'mux.go',
+                        links: [
+                            ['Line 2, column 1', 'https://github.com/gorilla/mux/blob/master/mux.go#L2'],
+                            ['Line 4, column 1', 'https://github.com/gorilla/mux/blob/master/mux.go#L4'],
+                        ],
+                    },
+                    {
+                        filePath: 'route.go',
+                        links: [['Line 8, column 1', 'https://github.com/gorilla/mux/blob/master/route.go#L8']],
+                    },
+                ],
+            },
+            {
+                repoPath: 'github.com/gorilla/handlers',
+                files: [
+                    {
+                        filePath: 'handlers.go',
+                        links: [['Line 5, column 1', 'https://github.com/gorilla/handlers/blob/master/handlers.go#L5']],
+                    },
+                ],
+            },
+        ])
+    })
+
+    it('says when there are no references', () => {
+        render(<ReferencesPanel referencesOrError={[]} onClose={onClose} />, container)
+        expect(getMessage()).to.equal('No references found')
+    })
+
+    it('shows the error fetching the references', () => {
+        render(<ReferencesPanel referencesOrError={new Error('Language not supported')} onClose={onClose} />, container)
+        expect(getMessage()).to.equal('Language not supported')
+    })
+
+    it('docks to the right and back to the bottom', () => {
+        render(<ReferencesPanel referencesOrError={[]} onClose={onClose} />, container)
+        const panel = container.querySelector('.references-panel')!
+        const dockButton = container.querySelector<HTMLElement>('[title="Dock to the right"]')!
+        expect(panel.classList.contains('references-panel--bottom')).to.equal(true)
+
+        Simulate.click(dockButton)
+        expect(panel.classList.contains('references-panel--right')).to.equal(true)
+        expect(dockButton.title).to.equal('Dock to the bottom')
+
+        Simulate.click(dockButton)
+        expect(panel.classList.contains('references-panel--bottom')).to.equal(true)
+    })
+
+    it('closes when the close button is clicked', () => {
+        render(<ReferencesPanel referencesOrError={[]} onClose={onClose} />, container)
+        Simulate.click(container.querySelector<HTMLElement>('[title="Close"]')!)
+        expect(closed).to.equal(true)
+    })
+})
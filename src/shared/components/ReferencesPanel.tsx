@@ -0,0 +1,131 @@
+import { LoadingSpinner } from '@sourcegraph/react-loading-spinner'
+import { groupBy } from 'lodash'
+import CloseIcon from 'mdi-react/CloseIcon'
+import PageLayoutFooterIcon from 'mdi-react/PageLayoutFooterIcon'
+import PageLayoutSidebarRightIcon from 'mdi-react/PageLayoutSidebarRightIcon'
+import * as React from 'react'
+import { Location, Position } from 'vscode-languageserver-types'
+import { ErrorLike, isErrorLike } from '../backend/errors'
+import { HoveredTokenLocation, JumpURLLocation, toJumpURLLocation } from '../backend/lsp'
+
+/**
+ * A reference to show in the `ReferencesPanel`.
+ */
+export interface Reference {
+    repoPath: string
+    filePath: string
+    /** The 1-indexed position of the reference. */
+    position: Position
+    /** The URL of the reference on the code host. */
+    url: string
+}
+
+/**
+ * Converts a location returned by `textDocument/references` for token to a
+ * `Reference` linking to the code host.
+ */
+export const toReference = (
+    location: Location,
+    token: HoveredTokenLocation,
+    buildURL: (location: JumpURLLocation) => string
+): Reference => {
+    const jumpURLLocation = toJumpURLLocation(location, token)
+    const { repoPath, filePath, position } = jumpURLLocation
+
+    return { repoPath, filePath, position, url: buildURL(jumpURLLocation) }
+}
+
+interface Props {
+    /** The references to show. `undefined` while they are being fetched. */
+    referencesOrError?: Reference[] | ErrorLike
+
+    onClose: () => void
+}
+
+interface State {
+    /** The edge of the window the panel is docked to. */
+    dock: 'bottom' | 'right'
+}
+
+/**
+ * A panel docked to the edge of the window that lists references grouped by
+ * repository and file.
+ */
+export class ReferencesPanel extends React.Component<Props, State> {
+    public state: State = { dock: 'bottom' }
+
+    public render(): JSX.Element | null {
+        const { dock } = this.state
+
+        return (
+            <div className={`references-panel references-panel--${dock}`}>
+                <div className="references-panel__header">
+                    <span className="references-panel__title">References</span>
+                    <button
+                        className="btn btn-icon references-panel__button"
+                        title={dock === 'bottom' ? 'Dock to the right' : 'Dock to the bottom'}
+                        onClick={this.toggleDock}
+                    >
+                        {dock === 'bottom' ? (
+                            <PageLayoutSidebarRightIcon className="icon-inline" />
+                        ) : (
+                            <PageLayoutFooterIcon className="icon-inline" />
+                        )}
+                    </button>
+                    <button
+                        className="btn btn-icon references-panel__button"
+                        title="Close"
+                        onClick={this.props.onClose}
+                    >
+                        <CloseIcon className="icon-inline" />
+                    </button>
+                </div>
+                <div className="references-panel__body">{this.renderReferences()}</div>
+            </div>
+        )
+    }
+
+    private renderReferences(): React.ReactNode {
+        const { referencesOrError } = this.props
+
+        if (referencesOrError === undefined) {
+            return <LoadingSpinner className="icon-inline" />
+        }
+
+        if (isErrorLike(referencesOrError)) {
+            return <div className="references-panel__message">{referencesOrError.message}</div>
+        }
+
+        if (referencesOrError.length === 0) {
+            return <div className="references-panel__message">No references found</div>
+        }
+
+        const referencesByRepo = groupBy(referencesOrError, reference => reference.repoPath)
+
+        return Object.keys(referencesByRepo).map(repoPath => {
+            const referencesByFile = groupBy(referencesByRepo[repoPath], reference => reference.filePath)
+
+            return (
+                <div key={repoPath} className="references-panel__repo">
+                    <div className="references-panel__repo-path">{repoPath}</div>
+                    {Object.keys(referencesByFile).map(filePath => (
+                        <div key={filePath} className="references-panel__file">
+                            <div className="references-panel__file-path">{filePath}</div>
+                            <ul className="references-panel__references">
+                                {referencesByFile[filePath].map(({ position, url }) => (
+                                    <li key={`${position.line}:${position.character}`}>
+                                        <a href={url}>
+                                            Line {position.line}, column {position.character}
+                                        </a>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    ))}
+                </div>
+            )
+        })
+    }
+
+    private toggleDock = () => this.setState(({ dock }) => ({ dock: dock === 'bottom' ? 'right' : 'bottom' }))
+}
@@ -22,8 +22,12 @@ interface GlobalContext {
 // manage it ourselves here. If we did not do this, we would have multiple
 // ShortcutManagers and each would register their own conflicting document
 // event handlers.
+//
+// The ShortcutManager is created before the children are mounted, because they
+// subscribe to it when they are mounted.
 export class ShortcutProvider extends React.Component<ProviderProps, never> {
-    public componentDidMount(): void {
+    constructor(props: ProviderProps) {
+        super(props)
         const globals = global as GlobalContext
         if (!globals.browserExtensionShortcutManager) {
             globals.browserExtensionShortcutManager = new ShortcutManager()
@@ -20,7 +20,7 @@ import { GQL } from '../../types/gqlschema'
 import { getContext } from '../backend/context'
 import { asError, ErrorLike, isErrorLike } from '../backend/errors'
 import { fetchSymbols } from '../backend/search'
-import { repoUrlCache, sourcegraphUrl } from '../util/context'
+import { getSourcegraphURLForRepo } from '../util/context'
 import { SymbolsDropdown } from './SymbolsDropdown'
 
 export const LOADING: 'LOADING' = 'LOADING'
@@ -323,7 +323,7 @@ export class SymbolsDropdownContainer extends React.Component<Props, State> {
         // so, we need to prefix it with the URL for the correct Sourcegraph instance
 
         const relativeURL = selectedSymbol.location.url
-        const baseSourcegraphURL = repoUrlCache[getContext().repoKey] || sourcegraphUrl
+        const baseSourcegraphURL = getSourcegraphURLForRepo(getContext().repoKey)
 
         const absoluteURL = new URL(relativeURL, baseSourcegraphURL)
         absoluteURL.searchParams.set('utm_source', 'inline-symbol')
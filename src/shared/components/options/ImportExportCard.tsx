@@ -0,0 +1,205 @@
+import * as React from 'react'
+import { Alert, Button, Card, CardBody, CardHeader, Col, FormGroup, Input, Label, Row, Table } from 'reactstrap'
+import * as permissions from '../../../browser/permissions'
+import {
+    diffSettings,
+    exportSettings,
+    getSettingsOrigins,
+    ImportedSettings,
+    parseSettings,
+} from '../../../browser/settings'
+import storage from '../../../browser/storage'
+import { StorageItems } from '../../../browser/types'
+import { setRoutingRules, setSourcegraphUrl } from '../../util/context'
+
+interface Props {
+    storage: StorageItems
+}
+
+interface State {
+    includeAccessTokens: boolean
+    /** The settings read from the file to import, shown for review before they are applied. */
+    imported?: ImportedSettings
+    error?: string
+}
+
+const formatValue = (value: any): string => (value === undefined ? '' : JSON.stringify(value))
+
+/**
+ * Exports the settings to a JSON file and imports settings from one, e.g. to
+ * set up the extension like a teammate's.
+ */
+export class ImportExportCard extends React.Component<Props, State> {
+    constructor(props: Props) {
+        super(props)
+        this.state = {
+            includeAccessTokens: false,
+        }
+    }
+
+    private onIncludeAccessTokensToggled = () => {
+        this.setState(({ includeAccessTokens }) => ({ includeAccessTokens: !includeAccessTokens }))
+    }
+
+    private exportButtonClicked = () => {
+        const json = exportSettings(this.props.storage, { includeAccessTokens: this.state.includeAccessTokens })
+        const link = document.createElement('a')
+        link.href = window.URL.createObjectURL(new Blob([json], { type: 'application/json' }))
+        link.download = 'sourcegraph-extension-settings.json'
+        // Firefox ignores clicks on links that aren't in the document, and
+        // aborts the download if the URL is revoked before it started.
+        document.body.appendChild(link)
+        link.click()
+        link.remove()
+        setTimeout(() => window.URL.revokeObjectURL(link.href))
+    }
+
+    private onFileSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const input = event.currentTarget
+        const file = input.files && input.files[0]
+        if (!file) {
+            return
+        }
+
+        const reader = new FileReader()
+        reader.onload = () => {
+            try {
+                const imported = parseSettings(reader.result as string)
+                this.setState(() => ({ imported, error: undefined }))
+            } catch (err) {
+                this.setState(() => ({ imported: undefined, error: `Could not read ${file.name}: ${err.message}` }))
+            }
+        }
+        reader.readAsText(file)
+        // Allow selecting the same file again.
+        input.value = ''
+    }
+
+    private applyButtonClicked = () => {
+        const { imported } = this.state
+        if (!imported) {
+            return
+        }
+
+        const { items } = imported
+        const origins = getSettingsOrigins(items)
+        // Permissions can only be requested in response to a user gesture.
+        const granted = origins.length > 0 ? permissions.request(origins) : Promise.resolve(true)
+        granted.then(
+            isGranted => {
+                if (!isGranted) {
+                    this.setState(() => ({ error: `Access to ${origins.join(', ')} is required to import settings.` }))
+                    return
+                }
+                storage.setSync(items, () => {
+                    if (items.sourcegraphURL) {
+                        setSourcegraphUrl(items.sourcegraphURL)
+                    }
+                    if (items.routingRules) {
+                        setRoutingRules(items.routingRules)
+                    }
+                    this.setState(() => ({ imported: undefined, error: undefined }))
+                })
+            },
+            err => this.setState(() => ({ error: `Could not request permissions: ${err.message}` }))
+        )
+    }
+
+    private cancelButtonClicked = () => {
+        this.setState(() => ({ imported: undefined, error: undefined }))
+    }
+
+    private renderPreview(imported: ImportedSettings): JSX.Element {
+        const changes = diffSettings(this.props.storage, imported.items)
+        return (
+            <div className="pt-3">
+                {imported.invalid.length > 0 && (
+                    <Alert color="warning">
+                        These settings are skipped:
+                        <ul className="mb-0">
+                            {imported.invalid.map(({ message }, i) => (
+                                <li key={i}>{message}</li>
+                            ))}
+                        </ul>
+                    </Alert>
+                )}
+                {changes.length === 0 ? (
+                    <p>Importing the file does not change any settings.</p>
+                ) : (
+                    <Table size="sm" responsive={true}>
+                        <thead>
+                            <tr>
+                                <th>Setting</th>
+                                <th>Current</th>
+                                <th>Imported</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {changes.map(({ key, oldValue, newValue }) => (
+                                <tr key={key}>
+                                    <td>
+                                        <code>{key}</code>
+                                    </td>
+                                    <td>
+                                        <code>{formatValue(oldValue)}</code>
+                                    </td>
+                                    <td>
+                                        <code>{formatValue(newValue)}</code>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </Table>
+                )}
+                <Button color="primary" className="mr-2" onClick={this.applyButtonClicked} disabled={!changes.length}>
+                    Apply
+                </Button>
+                <Button onClick={this.cancelButtonClicked}>Cancel</Button>
+            </div>
+        )
+    }
+
+    public render(): JSX.Element | null {
+        const { includeAccessTokens, imported, error } = this.state
+        return (
+            <Row className="pb-3">
+                <Col>
+                    <Card>
+                        <CardHeader>Import and Export Settings</CardHeader>
+                        <CardBody>
+                            <FormGroup check={true}>
+                                <Label check={true}>
+                                    <Input
+                                        onClick={this.onIncludeAccessTokensToggled}
+                                        defaultChecked={includeAccessTokens}
+                                        type="checkbox"
+                                    />{' '}
+                                    Include access tokens in the exported file. Only share them with people who may use
+                                    your Sourcegraph account.
+                                </Label>
+                            </FormGroup>
+                            <Button className="mt-2 mr-2" onClick={this.exportButtonClicked}>
+                                Export settings
+                            </Button>
+                            <Label className="btn btn-secondary mt-2 mb-0">
+                                Import settings
+                                <Input
+                                    type="file"
+                                    accept=".json,application/json"
+                                    hidden={true}
+                                    onChange={this.onFileSelected}
+                                />
+                            </Label>
+                            {error && (
+                                <Alert color="danger" className="mt-3 mb-0">
+                                    {error}
+                                </Alert>
+                            )}
+                            {imported && this.renderPreview(imported)}
+                        </CardBody>
+                    </Card>
+                </Col>
+            </Row>
+        )
+    }
+}
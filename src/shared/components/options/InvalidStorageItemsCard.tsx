@@ -0,0 +1,45 @@
+import * as React from 'react'
+import { Alert, Card, CardBody, CardHeader, Col, Row } from 'reactstrap'
+import { InvalidStorageItem } from '../../../browser/validation'
+
+interface Props {
+    invalidSyncItems: InvalidStorageItem[]
+    invalidLocalItems: InvalidStorageItem[]
+}
+
+const InvalidItemList: React.SFC<{ area: string; items: InvalidStorageItem[] }> = ({ area, items }) => (
+    <ul className="mb-0">
+        {items.map(({ key, message }, i) => (
+            <li key={i}>
+                <code>{key}</code> in {area} storage: {message}
+            </li>
+        ))}
+    </ul>
+)
+
+/**
+ * Lists the stored items that don't match the schema of the storage items, so
+ * that settings that were replaced with their defaults don't go unnoticed.
+ */
+export const InvalidStorageItemsCard: React.SFC<Props> = ({ invalidSyncItems, invalidLocalItems }) => {
+    if (invalidSyncItems.length === 0 && invalidLocalItems.length === 0) {
+        return null
+    }
+    return (
+        <Row className="pb-3">
+            <Col>
+                <Card>
+                    <CardHeader>Invalid Settings</CardHeader>
+                    <CardBody>
+                        <Alert className="options__alert-warning">
+                            These stored settings are invalid. Settings of the extension are replaced with their
+                            defaults, other settings are ignored.
+                        </Alert>
+                        <InvalidItemList area="sync" items={invalidSyncItems} />
+                        <InvalidItemList area="local" items={invalidLocalItems} />
+                    </CardBody>
+                </Card>
+            </Col>
+        </Row>
+    )
+}
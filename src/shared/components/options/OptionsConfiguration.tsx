@@ -3,16 +3,21 @@ import { Subscription } from 'rxjs'
 import * as permissions from '../../../browser/permissions'
 import storage from '../../../browser/storage'
 import { StorageItems } from '../../../browser/types'
+import { InvalidStorageItem } from '../../../browser/validation'
 import { GQL } from '../../../types/gqlschema'
 import { fetchCurrentUser } from '../../backend/server'
 import { ConnectionCard } from './ConnectionCard'
 import { FeatureFlagCard } from './FeatureFlagCard'
+import { ImportExportCard } from './ImportExportCard'
+import { InvalidStorageItemsCard } from './InvalidStorageItemsCard'
 
 interface Props {}
 interface State {
     currentUser: GQL.IUser | undefined
     storage: StorageItems | undefined
     permissionOrigins: string[]
+    invalidSyncItems: InvalidStorageItem[]
+    invalidLocalItems: InvalidStorageItem[]
 }
 
 /**
@@ -27,6 +32,8 @@ export class OptionsConfiguration extends React.Component<Props, State> {
             storage: undefined,
             currentUser: undefined,
             permissionOrigins: [],
+            invalidSyncItems: [],
+            invalidLocalItems: [],
         }
     }
 
@@ -51,6 +58,12 @@ export class OptionsConfiguration extends React.Component<Props, State> {
         storage.getSync(items => {
             this.setState(() => ({ storage: items }))
         })
+        storage.validateSync(invalidSyncItems => {
+            this.setState(() => ({ invalidSyncItems }))
+        })
+        storage.validateLocal(invalidLocalItems => {
+            this.setState(() => ({ invalidLocalItems }))
+        })
     }
 
     private updateForPermissions = () => {
@@ -69,7 +82,7 @@ export class OptionsConfiguration extends React.Component<Props, State> {
     }
 
     public render(): JSX.Element | null {
-        const { storage, currentUser, permissionOrigins } = this.state
+        const { storage, currentUser, permissionOrigins, invalidSyncItems, invalidLocalItems } = this.state
         if (!storage) {
             return null
         }
@@ -77,6 +90,8 @@ export class OptionsConfiguration extends React.Component<Props, State> {
             <div className="options-configuation-page">
                 <ConnectionCard permissionOrigins={permissionOrigins} storage={storage} currentUser={currentUser} />
                 <FeatureFlagCard storage={storage} />
+                <InvalidStorageItemsCard invalidSyncItems={invalidSyncItems} invalidLocalItems={invalidLocalItems} />
+                <ImportExportCard storage={storage} />
             </div>
         )
     }
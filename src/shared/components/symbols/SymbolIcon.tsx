@@ -90,6 +90,11 @@ const getSymbolIconComponent = (kind: GQL.SymbolKind): MdiReactIconComponentType
     }
 }
 
+/**
+ * Returns the label of a symbol kind, e.g. "function"
+ */
+export const getSymbolKindLabel = (kind: GQL.SymbolKind): string => kind.toLowerCase()
+
 interface SymbolIconProps {
     kind: GQL.SymbolKind
     className?: string
@@ -103,7 +108,7 @@ export const SymbolIcon: React.StatelessComponent<SymbolIconProps> = ({ kind, cl
     return (
         <Icon
             className={`symbol-icon symbol-icon--kind-${kebabCase(kind)} ${className}`}
-            data-tooltip={kind.toLowerCase()}
+            data-tooltip={getSymbolKindLabel(kind)}
         />
     )
 }
@@ -0,0 +1,130 @@
+import { expect } from 'chai'
+import { afterEach, beforeEach, describe, it } from 'mocha'
+import { stubNetwork } from '../../testing/network'
+import { MockSourcegraphServer, useSourcegraphURL } from '../../testing/server'
+import { ECLONEINPROGESS } from '../backend/errors'
+import { DEFAULT_SOURCEGRAPH_URL } from '../util/context'
+import { fetchBlobContentLines, fetchTree, fetchTreeEntries, resolveRev, searchFilePaths } from './backend'
+
+const COMMIT_ID = '5'.repeat(40)
+
+describe('repository backend', () => {
+    let restoreNetwork: () => void
+
+    beforeEach(() => {
+        useSourcegraphURL(DEFAULT_SOURCEGRAPH_URL)
+        const server = new MockSourcegraphServer(DEFAULT_SOURCEGRAPH_URL, {
+            repositories: {
+                'github.com/gorilla/mux': {
+                    revisions: { HEAD: COMMIT_ID, master: COMMIT_ID },
+                    files: { 'mux.go': 'package mux\n\nimport (\n', 'doc/README.md': '# mux\n' },
+                },
+                'github.com/gorilla/cloning': { revisions: {}, files: {}, cloneInProgress: true },
+            },
+        })
+        restoreNetwork = stubNetwork(server.handlers)
+    })
+
+    afterEach(() => restoreNetwork())
+
+    describe('resolveRev', () => {
+        it('resolves revisions to commit IDs', async () => {
+            expect(await resolveRev({ repoPath: 'github.com/gorilla/mux', rev: 'master' }).toPromise()).to.equal(
+                COMMIT_ID
+            )
+        })
+
+        it('resolves the default branch when no revision is given', async () => {
+            expect(await resolveRev({ repoPath: 'github.com/gorilla/mux' }).toPromise()).to.equal(COMMIT_ID)
+        })
+
+        it('errors for repositories that are still being cloned', async () => {
+            let error: any
+            try {
+                await resolveRev({ repoPath: 'github.com/gorilla/cloning' }).toPromise()
+            } catch (err) {
+                error = err
+            }
+            expect(error.code).to.equal(ECLONEINPROGESS)
+        })
+    })
+
+    describe('fetchTree', () => {
+        it('lists the paths of the files at a commit', async () => {
+            expect(
+                await fetchTree({ repoPath: 'github.com/gorilla/mux', commitID: COMMIT_ID }).toPromise()
+            ).to.deep.equal(['mux.go', 'doc/README.md'])
+        })
+    })
+
+    describe('fetchTreeEntries', () => {
+        it('lists the files and directories in the root directory', async () => {
+            expect(
+                await fetchTreeEntries({
+                    repoPath: 'github.com/gorilla/mux',
+                    commitID: COMMIT_ID,
+                    filePath: '',
+                }).toPromise()
+            ).to.deep.equal([{ path: 'mux.go', isDirectory: false }, { path: 'doc', isDirectory: true }])
+        })
+
+        it('lists the files and directories in a directory', async () => {
+            expect(
+                await fetchTreeEntries({
+                    repoPath: 'github.com/gorilla/mux',
+                    commitID: COMMIT_ID,
+                    filePath: 'doc',
+                }).toPromise()
+            ).to.deep.equal([{ path: 'doc/README.md', isDirectory: false }])
+        })
+
+        it('errors for directories that do not exist', async () => {
+            let error: any
+            try {
+                await fetchTreeEntries({
+                    repoPath: 'github.com/gorilla/mux',
+                    commitID: COMMIT_ID,
+                    filePath: 'missing',
+                }).toPromise()
+            } catch (err) {
+                error = err
+            }
+            expect(error).to.be.an('error')
+        })
+    })
+
+    describe('searchFilePaths', () => {
+        it('searches the paths of the files at a commit', async () => {
+            expect(
+                await searchFilePaths({
+                    repoPath: 'github.com/gorilla/mux',
+                    commitID: COMMIT_ID,
+                    query: 'readme',
+                    first: 10,
+                }).toPromise()
+            ).to.deep.equal(['doc/README.md'])
+        })
+    })
+
+    describe('fetchBlobContentLines', () => {
+        it('fetches the lines of a file', async () => {
+            expect(
+                await fetchBlobContentLines({
+                    repoPath: 'github.com/gorilla/mux',
+                    commitID: COMMIT_ID,
+                    filePath: 'mux.go',
+                }).toPromise()
+            ).to.deep.equal(['package mux', '', 'import (', ''])
+        })
+
+        it('returns no lines for files that do not exist', async () => {
+            expect(
+                await fetchBlobContentLines({
+                    repoPath: 'github.com/gorilla/mux',
+                    commitID: COMMIT_ID,
+                    filePath: 'missing.go',
+                }).toPromise()
+            ).to.deep.equal([])
+        })
+    })
+})
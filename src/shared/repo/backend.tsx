@@ -1,3 +1,4 @@
+import { escapeRegExp } from 'lodash'
 import { Observable } from 'rxjs'
 import { catchError, delay, filter, map, retryWhen } from 'rxjs/operators'
 import { AbsoluteRepoFile, makeRepoURI, parseBrowserRepoURL } from '.'
@@ -11,6 +12,7 @@ import {
     RevNotFoundError,
 } from '../backend/errors'
 import { queryGraphQL } from '../backend/graphql'
+import { cachedInBackground, isAbsoluteCommitID } from '../backend/persistentCache'
 import { memoizeAsync, memoizeObservable } from '../util/memoize'
 
 /**
@@ -197,7 +199,7 @@ export const fetchTree = memoizeObservable(
                         commit(rev: $commitID) {
                             tree(recursive: true) {
                                 files {
-                                    name
+                                    path
                                 }
                             }
                         }
@@ -216,12 +218,95 @@ export const fetchTree = memoizeObservable(
                 ) {
                     throw Object.assign(new Error((errors || []).map(e => e.message).join('\n')), { errors })
                 }
-                return data.repository.commit.tree.files.map(file => file.name)
+                return data.repository.commit.tree.files.map(file => file.path)
             })
         ),
     makeRepoURI
 )
 
+/** A file or directory of a tree. */
+export interface TreeEntry {
+    path: string
+    isDirectory: boolean
+}
+
+/**
+ * Fetches the files and directories directly in a directory ('' is the root
+ * directory). Unlike `fetchTree`, it doesn't fetch the whole tree.
+ */
+export const fetchTreeEntries = memoizeObservable(
+    (args: { repoPath: string; commitID: string; filePath: string }): Observable<TreeEntry[]> =>
+        queryGraphQL({
+            ctx: getContext({ repoKey: args.repoPath }),
+            request: `
+                query TreeEntries($repoPath: String!, $commitID: String!, $filePath: String!) {
+                    repository(uri: $repoPath) {
+                        commit(rev: $commitID) {
+                            tree(path: $filePath) {
+                                entries {
+                                    path
+                                    isDirectory
+                                }
+                            }
+                        }
+                    }
+                }
+            `,
+            variables: args,
+        }).pipe(
+            map(({ data, errors }) => {
+                if (!data || !data.repository || !data.repository.commit || !data.repository.commit.tree) {
+                    throw createAggregateError(errors)
+                }
+                return data.repository.commit.tree.entries.map(({ path, isDirectory }) => ({ path, isDirectory }))
+            })
+        ),
+    makeRepoURI
+)
+
+/**
+ * Searches the paths of the files at a commit on the Sourcegraph instance,
+ * e.g. for `mux test` or `\.go$`.
+ */
+export const searchFilePaths = memoizeObservable(
+    (args: { repoPath: string; commitID: string; query: string; first: number }): Observable<string[]> =>
+        queryGraphQL({
+            ctx: getContext({ repoKey: args.repoPath }),
+            request: `
+                query FilePathSearch($query: String!) {
+                    search(query: $query) {
+                        results {
+                            results {
+                                __typename
+                                ... on FileMatch {
+                                    file {
+                                        path
+                                    }
+                                }
+                            }
+                        }
+                    }
+                }
+            `,
+            variables: {
+                query: `repo:^${escapeRegExp(args.repoPath)}$@${args.commitID} type:path count:${args.first} ${
+                    args.query
+                }`,
+            },
+        }).pipe(
+            map(({ data, errors }) => {
+                if (!data || !data.search || !data.search.results) {
+                    throw createAggregateError(errors)
+                }
+                return (data.search.results.results as GQL.IFileMatch[])
+                    .filter(result => result.__typename === 'FileMatch')
+                    .map(match => match.file.path)
+                    .slice(0, args.first)
+            })
+        ),
+    ({ repoPath, commitID, query, first }) => `${repoPath}@${commitID}:${first}:${query}`
+)
+
 export const listAllSearchResults = memoizeAsync(
     (ctx: { query: string }): Promise<number> =>
         queryGraphQL({
@@ -251,10 +336,12 @@ export const listAllSearchResults = memoizeAsync(
 const trimRepoPath = ({ repoPath, ...rest }) => ({ ...rest, repoPath: repoPath.replace(/.git$/, '') })
 
 export const fetchBlobContentLines = memoizeObservable(
-    (ctx: AbsoluteRepoFile): Observable<string[]> =>
-        queryGraphQL({
-            ctx: getContext({ repoKey: ctx.repoPath }),
-            request: `query BlobContent($repoPath: String!, $commitID: String!, $filePath: String!) {
+    cachedInBackground(
+        'blob',
+        (ctx: AbsoluteRepoFile): Observable<string[]> =>
+            queryGraphQL({
+                ctx: getContext({ repoKey: ctx.repoPath }),
+                request: `query BlobContent($repoPath: String!, $commitID: String!, $filePath: String!) {
                 repository(uri: $repoPath) {
                     commit(rev: $commitID) {
                         file(path: $filePath) {
@@ -263,36 +350,38 @@ export const fetchBlobContentLines = memoizeObservable(
                     }
                 }
             }`,
-            variables: trimRepoPath(ctx),
-        }).pipe(
-            map(({ data, errors }) => {
-                if (
-                    !data ||
-                    !data.repository ||
-                    !data.repository.commit ||
-                    !data.repository.commit.file ||
-                    !data.repository.commit.file.content
-                ) {
-                    return []
-                }
-                return data.repository.commit.file!.content.split('\n')
-            }),
-            catchError(({ errors, ...rest }) => {
-                if (errors && errors.length === 1) {
-                    const err = errors[0]
-                    const isFileContent = err.path.join('.') === 'repository.commit.file.content'
-                    const isDNE = /does not exist/.test(err.message)
-
-                    // The error is the file DNE. Just ignore it and pass an empty array
-                    // to represent this.
-                    if (isFileContent && isDNE) {
+                variables: trimRepoPath(ctx),
+            }).pipe(
+                map(({ data, errors }) => {
+                    if (
+                        !data ||
+                        !data.repository ||
+                        !data.repository.commit ||
+                        !data.repository.commit.file ||
+                        !data.repository.commit.file.content
+                    ) {
                         return []
                     }
-                }
+                    return data.repository.commit.file!.content.split('\n')
+                }),
+                catchError(({ errors, ...rest }) => {
+                    if (errors && errors.length === 1) {
+                        const err = errors[0]
+                        const isFileContent = err.path.join('.') === 'repository.commit.file.content'
+                        const isDNE = /does not exist/.test(err.message)
 
-                // Don't swollow unexpected errors
-                throw { errors, ...rest }
-            })
-        ),
+                        // The error is the file DNE. Just ignore it and pass an empty array
+                        // to represent this.
+                        if (isFileContent && isDNE) {
+                            return []
+                        }
+                    }
+
+                    // Don't swollow unexpected errors
+                    throw { errors, ...rest }
+                })
+            ),
+        ctx => (isAbsoluteCommitID(ctx.commitID) ? makeRepoURI(ctx) : undefined)
+    ),
     makeRepoURI
 )
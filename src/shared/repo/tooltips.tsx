@@ -1,10 +1,14 @@
 import { highlightBlock, registerLanguage } from 'highlight.js/lib/highlight'
 import * as _ from 'lodash'
 import marked from 'marked'
+import * as React from 'react'
+import { render, unmountComponentAtNode } from 'react-dom'
 import { MarkupContent } from 'sourcegraph'
 import { HoverMerged } from 'sourcegraph/module/client/types/hover'
 import { MarkedString } from 'vscode-languageserver-types'
 import { AbsoluteRepoFile, AbsoluteRepoFilePosition, parseBrowserRepoURL } from '.'
+import { DefinitionLocation } from '../backend/lsp'
+import { DefinitionPicker } from '../components/DefinitionPicker'
 import { makeCloseIcon, makeSourcegraphIcon } from '../components/Icons'
 import { getModeFromPath, sourcegraphUrl } from '../util/context'
 import { toAbsoluteBlobURL } from '../util/url'
@@ -37,6 +41,8 @@ let tooltipActions: HTMLElement
 let j2dAction: HTMLAnchorElement
 let findRefsAction: HTMLAnchorElement
 let moreContext: HTMLElement
+let definitionPickerMount: HTMLElement
+let definitionPicker: DefinitionPicker | null = null
 
 // tslint:disable-next-line:max-line-length prettier
 const referencesIconSVG =
@@ -49,6 +55,8 @@ export interface TooltipData extends Partial<HoverMerged> {
     target: HTMLElement
     ctx: AbsoluteRepoFilePosition
     defUrl?: string
+    /** All definitions of the token. The user picks one of them when there is more than one. */
+    definitions?: DefinitionLocation[]
     asyncDefUrl?: boolean
     loading?: boolean
 }
@@ -102,12 +110,42 @@ export function createTooltips(): void {
 
     tooltipActions.appendChild(j2dAction)
     tooltipActions.appendChild(findRefsAction)
+
+    definitionPickerMount = document.createElement('DIV')
+    definitionPickerMount.className = 'sg-tooltip__definitions'
 }
 
 function constructBaseTooltip(): void {
     tooltip.appendChild(loadingTooltip)
     tooltip.appendChild(moreContext)
     tooltip.appendChild(tooltipActions)
+    tooltip.appendChild(definitionPickerMount)
+}
+
+const setDefinitionPicker = (picker: DefinitionPicker | null) => (definitionPicker = picker)
+
+/**
+ * Shows a picker for the definitions in the docked tooltip when there is more
+ * than one, and returns whether it is shown.
+ */
+function renderDefinitionPicker(definitions: DefinitionLocation[] = [], docked: boolean): boolean {
+    if (!docked || definitions.length <= 1) {
+        unmountComponentAtNode(definitionPickerMount)
+        definitionPickerMount.style.display = 'none'
+        return false
+    }
+
+    definitionPickerMount.style.display = 'block'
+    render(
+        <DefinitionPicker
+            // Reset the selection when the definitions change.
+            key={definitions.map(({ url }) => url).join()}
+            definitions={definitions}
+            ref={setDefinitionPicker}
+        />,
+        definitionPickerMount
+    )
+    return true
 }
 
 // This global refers to the element the tooltip should be positioned relative to.
@@ -127,6 +165,7 @@ export function hideTooltip(): void {
         previousTarget.classList.remove('selection-highlight-sticky')
     }
 
+    unmountComponentAtNode(definitionPickerMount)
     while (tooltip.firstChild) {
         tooltip.removeChild(tooltip.firstChild)
     }
@@ -200,7 +239,16 @@ export function updateTooltip(data: TooltipData, docked: boolean, actions: Actio
     j2dAction.style.display = 'block'
     j2dAction.href = data.defUrl ? new URL(data.defUrl, sourcegraphUrl).href : ''
 
-    if (data.asyncDefUrl) {
+    if (renderDefinitionPicker(data.definitions, docked)) {
+        // Let the user pick one of the definitions instead of jumping to the first one.
+        j2dAction.style.cursor = 'pointer'
+        j2dAction.onclick = (e: MouseEvent) => {
+            e.preventDefault()
+            if (definitionPicker) {
+                definitionPicker.focus()
+            }
+        }
+    } else if (data.asyncDefUrl) {
         j2dAction.style.cursor = 'pointer'
         j2dAction.onclick = actions.definition(data.ctx)
     } else if (data.defUrl && j2dAction.href !== window.location.href) {
@@ -1,64 +1,11 @@
 import CloseIcon from 'mdi-react/CloseIcon'
 import FormatListBulletedIcon from 'mdi-react/FormatListBulletedIcon'
 import * as React from 'react'
-import { Observable, Subject, Subscription } from 'rxjs'
-import { map, switchMap, tap } from 'rxjs/operators'
 import * as runtime from '../../browser/runtime'
-import { getContext } from '../backend/context'
-import { queryGraphQL } from '../backend/graphql'
 import { isExtension } from '../context'
-import { makeRepoURI } from '../repo'
-import { memoizeObservable } from '../util/memoize'
 import { Resizable } from './Resizable'
 import { Tab, Tabs } from './Tabs'
-import { Tree } from './Tree'
-
-const fetchTree = memoizeObservable(
-    (args: { repoPath: string; commitID: string; rev: string }): Observable<string[]> =>
-        queryGraphQL({
-            ctx: getContext({ repoKey: args.repoPath }),
-            request: `
-                query FileTree($repoPath: String!, $commitID: String!) {
-                    repository(uri: $repoPath) {
-                        commit(rev: $commitID) {
-                            tree(recursive: true) {
-                                files {
-                                    path
-                                }
-                            }
-                        }
-                    }
-                }
-            `,
-            variables: args,
-        }).pipe(
-            map(({ data, errors }) => {
-                if (
-                    !data ||
-                    !data.repository ||
-                    !data.repository.commit ||
-                    !data.repository.commit.tree ||
-                    !data.repository.commit.tree.files
-                ) {
-                    throw new Error('could not fetch file tree data.')
-                }
-                return data.repository.commit.tree.files.map(file => (file as any).path)
-            }),
-            tap(files => {
-                if (isExtension) {
-                    runtime.sendMessage({
-                        type: 'fetched-files',
-                        payload: {
-                            name: args.repoPath,
-                            rev: args.rev,
-                            files,
-                        },
-                    })
-                }
-            })
-        ),
-    makeRepoURI
-)
+import { Tree, TreeURLBuilder } from './Tree'
 
 const showSymbols = localStorage.getItem('symbols') !== null
 
@@ -72,18 +19,11 @@ interface Props {
     filePath: string
     defaultBranch: string
     className: string
+    buildURL: TreeURLBuilder
 }
 
 interface State {
-    loading: boolean
-    error?: string
-
     showSidebar: boolean
-
-    /**
-     * All file paths in the repository.
-     */
-    files?: string[]
 }
 
 /**
@@ -99,44 +39,20 @@ export class RepoRevSidebar extends React.PureComponent<Props, State> {
     ] as Tab<SidebarTabID>[]).slice(0, showSymbols ? 2 : 1)
 
     public state: State = {
-        loading: true,
         showSidebar: localStorage.getItem(RepoRevSidebar.HIDDEN_STORAGE_KEY) === 'true',
     }
 
-    private specChanges = new Subject<{ repoPath: string; commitID: string }>()
-    private subscriptions = new Subscription()
-
     public componentDidMount(): void {
-        // Fetch repository revision.
-        this.subscriptions.add(
-            this.specChanges
-                .pipe(
-                    switchMap(({ repoPath, commitID }) =>
-                        fetchTree({ repoPath, commitID, rev: this.props.rev || this.props.defaultBranch })
-                    )
-                )
-                .subscribe(
-                    files => this.setState({ files, loading: false }),
-                    err => this.setState({ error: err.message })
-                )
-        )
-        this.specChanges.next({ repoPath: this.props.repoPath, commitID: this.props.commitID })
+        this.notifyRepoOpened(this.props)
     }
 
     public componentWillReceiveProps(props: Props): void {
         if (props.repoPath !== this.props.repoPath || props.commitID !== this.props.commitID) {
-            this.specChanges.next({ repoPath: props.repoPath, commitID: props.commitID })
+            this.notifyRepoOpened(props)
         }
     }
 
-    public componentWillUnmount(): void {
-        this.subscriptions.unsubscribe()
-    }
-
     public render(): JSX.Element | null {
-        if (this.state.loading) {
-            return null
-        }
         if (!this.state.showSidebar) {
             return (
                 <button
@@ -182,22 +98,32 @@ export class RepoRevSidebar extends React.PureComponent<Props, State> {
                         } ${showSymbols ? '' : 'repo-rev-sidebar--no-symbols'}`}
                         tabClassName="repo-rev-sidebar__tab"
                     >
-                        {this.state.files && (
-                            <Tree
-                                key="files"
-                                repoPath={this.props.repoPath}
-                                rev={this.props.commitID}
-                                scrollRootSelector="#explorer"
-                                selectedPath={this.props.filePath || ''}
-                                paths={this.state.files}
-                            />
-                        )}
+                        <Tree
+                            key="files"
+                            repoPath={this.props.repoPath}
+                            rev={this.props.commitID}
+                            buildURL={this.props.buildURL}
+                            selectedPath={this.props.filePath || ''}
+                        />
                     </Tabs>
                 }
             />
         )
     }
 
+    /**
+     * Tells the omnibox about the repository, so that the `:file` command can
+     * search its files.
+     */
+    private notifyRepoOpened({ repoPath, rev, commitID, defaultBranch }: Props): void {
+        if (isExtension) {
+            runtime.sendMessage({
+                type: 'repo-opened',
+                payload: { name: repoPath, rev: rev || defaultBranch, commitID },
+            })
+        }
+    }
+
     private onSidebarToggle = () => {
         if (!this.state.showSidebar) {
             localStorage.setItem(RepoRevSidebar.HIDDEN_STORAGE_KEY, 'true')
@@ -0,0 +1,53 @@
+import { expect } from 'chai'
+import { afterEach, beforeEach, describe, it } from 'mocha'
+import * as React from 'react'
+import { render, unmountComponentAtNode } from 'react-dom'
+import { getFileTreeMount } from '../../libs/code_intelligence/file_tree'
+import { Resizable } from './Resizable'
+
+describe('Resizable', () => {
+    let layout: HTMLElement
+    let mount: HTMLElement
+
+    beforeEach(() => {
+        localStorage.clear()
+        document.body.innerHTML = ''
+        layout = document.createElement('div')
+        document.body.appendChild(layout)
+        mount = getFileTreeMount(layout)
+    })
+
+    afterEach(() => unmountComponentAtNode(mount))
+
+    const renderResizable = () =>
+        render(<Resizable handlePosition="right" storageKey="test" defaultSize={200} element={<div />} />, mount)
+
+    it('makes room for itself in the container it is mounted in', () => {
+        renderResizable()
+        expect(layout.style.marginLeft).to.equal('200px')
+        expect(document.body.style.marginLeft).to.equal('')
+
+        unmountComponentAtNode(mount)
+        expect(layout.style.marginLeft).to.equal('')
+    })
+
+    it('restores its size', () => {
+        localStorage.setItem('Resizable:test', '300')
+        renderResizable()
+        expect(layout.style.marginLeft).to.equal('300px')
+    })
+
+    it('moves centered repository content when it does not fit next to it', () => {
+        const content = document.createElement('div')
+        content.className = 'repository-content'
+        layout.appendChild(content)
+        Object.defineProperty(content, 'clientWidth', { value: window.innerWidth - 100 })
+
+        renderResizable()
+        expect(layout.style.marginLeft).to.equal('')
+        expect(document.body.style.marginLeft).to.equal('200px')
+
+        unmountComponentAtNode(mount)
+        expect(document.body.style.marginLeft).to.equal('')
+    })
+})
@@ -43,7 +43,10 @@ export class Resizable<C extends React.ReactElement<any>> extends React.PureComp
 
     private containerRef: HTMLElement | null = null
     private ghostRef: HTMLElement | null = null
+    /** The element containing the content of the page, which makes room for the sidebar. */
     private repoContentContainer: HTMLElement | null = null
+    /** The element whose left margin makes room for the sidebar. */
+    private marginElement: HTMLElement | null = null
 
     constructor(props: Props<C>) {
         super(props)
@@ -73,7 +76,12 @@ export class Resizable<C extends React.ReactElement<any>> extends React.PureComp
         this.subscriptions.add(
             this.sizeUpdates.pipe(distinctUntilChanged(), debounceTime(250)).subscribe(size => this.setSize(size))
         )
-        this.repoContentContainer = document.querySelector('.repository-content') as HTMLElement
+        // GitHub centers the repository content in the page. Other code hosts lay out their content in the
+        // container the sidebar is mounted in, next to their own navigation.
+        const repositoryContent = document.querySelector<HTMLElement>('.repository-content')
+        const mount = this.containerRef && this.containerRef.closest('.tree-mount')
+        this.repoContentContainer = repositoryContent || (mount && (mount.parentElement as HTMLElement))
+        this.marginElement = repositoryContent ? document.body : this.repoContentContainer
         this.updateMargin(this.getSize())
     }
 
@@ -118,16 +126,24 @@ export class Resizable<C extends React.ReactElement<any>> extends React.PureComp
     }
 
     private resetMargin(): void {
-        document.body.style.marginLeft = '0px'
+        if (this.marginElement) {
+            this.marginElement.style.removeProperty('margin-left')
+        }
     }
 
     private updateMargin = (size: number) => {
-        if (!this.repoContentContainer) {
+        if (!this.repoContentContainer || !this.marginElement) {
+            return
+        }
+        if (this.marginElement === this.repoContentContainer) {
+            this.marginElement.style.marginLeft = `${size}px`
             return
         }
+        // Centered content only needs to move when it doesn't fit next to the sidebar.
         const widthDiff = window.innerWidth - this.repoContentContainer.clientWidth
 
-        document.body.style.marginLeft = widthDiff / 2 > size ? '0px' : `${Math.min(window.innerWidth / 2, size)}px`
+        this.marginElement.style.marginLeft =
+            widthDiff / 2 > size ? '0px' : `${Math.min(window.innerWidth / 2, size)}px`
     }
 
     private onMouseUp = (e: React.MouseEvent<HTMLDivElement>) => {
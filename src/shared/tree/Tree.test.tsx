@@ -0,0 +1,219 @@
+import { expect } from 'chai'
+import { afterEach, beforeEach, describe, it } from 'mocha'
+import * as React from 'react'
+import { render, unmountComponentAtNode } from 'react-dom'
+import { Simulate } from 'react-dom/test-utils'
+import { timer } from 'rxjs'
+import { stubNetwork } from '../../testing/network'
+import { MockSourcegraphServer, useSourcegraphURL } from '../../testing/server'
+import { DEFAULT_SOURCEGRAPH_URL } from '../util/context'
+import { Tree, TreeURLLocation } from './Tree'
+
+const buildURL = ({ repoPath, rev, filePath, type }: TreeURLLocation) =>
+    `https://${repoPath}/${type}/${rev}/${filePath}`
+
+/** Files in the root directory of the large repository, enough to need scrolling. */
+const MANY_FILES = Array.from({ length: 200 }, (_, i) => `file${String(i).padStart(3, '0')}.go`)
+
+/** Waits for the mock server to answer and the tree to render the response. */
+const settle = (ms = 20) => timer(ms).toPromise()
+
+describe('Tree', () => {
+    let server: MockSourcegraphServer
+    let restoreNetwork: () => void
+    let container: HTMLElement
+    /** Whether the next request for the entries of `doc` fails. */
+    let failDocEntries: boolean
+    /**
+     * The commit the tree is shown for. It differs between tests, so that
+     * entries fetched by one test aren't cached for the next one.
+     */
+    let commitID: string
+    let testCount = 0
+
+    beforeEach(() => {
+        testCount++
+        commitID = String(testCount).padStart(40, '0')
+        useSourcegraphURL(DEFAULT_SOURCEGRAPH_URL)
+        failDocEntries = false
+        server = new MockSourcegraphServer(DEFAULT_SOURCEGRAPH_URL, {
+            repositories: {
+                'github.com/gorilla/mux': {
+                    revisions: { HEAD: commitID },
+                    files: { 'mux.go': '', 'doc/README.md': '', 'doc/api/routes.md': '' },
+                },
+                'github.com/gorilla/large': {
+                    revisions: { HEAD: commitID },
+                    files: MANY_FILES.reduce<{ [path: string]: string }>(
+                        (files, path) => ({ ...files, [path]: '' }),
+                        {}
+                    ),
+                },
+            },
+        })
+        const { handlers } = server
+        const treeEntries = handlers[`${DEFAULT_SOURCEGRAPH_URL}/.api/graphql?TreeEntries`]
+        handlers[`${DEFAULT_SOURCEGRAPH_URL}/.api/graphql?TreeEntries`] = request => {
+            const response = treeEntries(request)
+            if (failDocEntries && request.body.variables.filePath === 'doc') {
+                failDocEntries = false
+                return { data: null, errors: [{ message: 'internal error', path: [] }] }
+            }
+            return response
+        }
+        restoreNetwork = stubNetwork(handlers)
+
+        container = document.createElement('div')
+        document.body.appendChild(container)
+        // Follow no links, so that clicks can be checked without navigating.
+        container.addEventListener('click', event => event.preventDefault())
+    })
+
+    afterEach(() => {
+        unmountComponentAtNode(container)
+        container.remove()
+        restoreNetwork()
+    })
+
+    const renderTree = (repoPath = 'github.com/gorilla/mux', selectedPath = '') =>
+        render(<Tree repoPath={repoPath} rev={commitID} buildURL={buildURL} selectedPath={selectedPath} />, container)
+
+    const getViewport = () => container.querySelector<HTMLElement>('.tree__viewport')!
+    const getRowLabels = () => Array.from(container.querySelectorAll('.tree__row')).map(row => row.textContent!.trim())
+    const getRow = (path: string) => container.querySelector<HTMLElement>(`[data-tree-path="${path}"]`)!
+    const getSelectedPath = () => {
+        const selected = container.querySelector('.tree__row--selected')
+        return selected && selected.getAttribute('data-tree-path')
+    }
+    const getEntryRequests = () =>
+        server.requests.filter(({ url }) => url.endsWith('?TreeEntries')).map(({ body }) => body.variables.filePath)
+
+    it('fetches the entries of a directory when it is expanded', async () => {
+        renderTree()
+        expect(getRowLabels()).to.deep.equal(['Loading...'])
+
+        await settle()
+        expect(getRowLabels()).to.deep.equal(['doc', 'mux.go'])
+        expect(getEntryRequests()).to.deep.equal([''])
+
+        Simulate.click(getRow('doc'))
+        expect(getRowLabels()).to.deep.equal(['doc', 'Loading...', 'mux.go'])
+
+        await settle()
+        expect(getRowLabels()).to.deep.equal(['doc', 'api', 'README.md', 'mux.go'])
+        expect(getEntryRequests()).to.deep.equal(['', 'doc'])
+
+        Simulate.click(getRow('doc'))
+        expect(getRowLabels()).to.deep.equal(['doc', 'mux.go'])
+    })
+
+    it('expands the directories containing the selected file', async () => {
+        renderTree('github.com/gorilla/mux', 'doc/api/routes.md')
+        await settle()
+
+        expect(getRowLabels()).to.deep.equal(['doc', 'api', 'routes.md', 'README.md', 'mux.go'])
+        expect(getSelectedPath()).to.equal('doc/api/routes.md')
+    })
+
+    it('fetches the entries of a directory again after they failed to load', async () => {
+        failDocEntries = true
+        renderTree()
+        await settle()
+
+        Simulate.click(getRow('doc'))
+        await settle()
+        expect(getRowLabels()).to.deep.equal(['doc', 'Error loading files', 'mux.go'])
+
+        // Collapse and expand the directory.
+        Simulate.click(getRow('doc'))
+        Simulate.click(getRow('doc'))
+        expect(getRowLabels()).to.deep.equal(['doc', 'Loading...', 'mux.go'])
+
+        await settle()
+        expect(getRowLabels()).to.deep.equal(['doc', 'api', 'README.md', 'mux.go'])
+        expect(getEntryRequests()).to.deep.equal(['', 'doc', 'doc'])
+    })
+
+    it('searches the paths of files matching the filter', async () => {
+        renderTree()
+        await settle()
+
+        const input = container.querySelector<HTMLInputElement>('.tree__filter')!
+        input.value = 'readme'
+        Simulate.change(input)
+        await settle(250)
+        expect(getRowLabels()).to.deep.equal(['doc/README.md'])
+
+        input.value = 'missing'
+        Simulate.change(input)
+        await settle(250)
+        expect(getRowLabels()).to.deep.equal([])
+        expect(container.querySelector('.tree__message')!.textContent).to.equal('No matching files')
+
+        Simulate.keyDown(input, { key: 'Escape' })
+        expect(getRowLabels()).to.deep.equal(['doc', 'mux.go'])
+    })
+
+    it('shows the entries of a tree again after switching back to it', async () => {
+        renderTree()
+        await settle()
+        renderTree('github.com/gorilla/large')
+        await settle()
+        expect(getRowLabels()[0]).to.equal(MANY_FILES[0])
+
+        // The entries of the first tree are cached now.
+        renderTree()
+        await settle()
+        expect(getRowLabels()).to.deep.equal(['doc', 'mux.go'])
+        expect(getEntryRequests()).to.deep.equal(['', ''])
+    })
+
+    it('only renders the rows in view', async () => {
+        renderTree('github.com/gorilla/large')
+        const viewport = getViewport()
+        Object.defineProperty(viewport, 'clientHeight', { value: 10 * 28 })
+        const resize = document.createEvent('Event')
+        resize.initEvent('resize', false, false)
+        window.dispatchEvent(resize)
+        await settle()
+
+        // 10 rows fit in the viewport, and 10 more are rendered below it.
+        expect(getRowLabels()).to.deep.equal(MANY_FILES.slice(0, 20))
+        expect(container.querySelector<HTMLElement>('.tree__rows')!.style.height).to.equal(`${200 * 28}px`)
+
+        Object.defineProperty(viewport, 'scrollTop', { value: 100 * 28 })
+        Simulate.scroll(viewport)
+        expect(getRowLabels()).to.deep.equal(MANY_FILES.slice(90, 120))
+    })
+
+    it('navigates the tree with the keyboard', async () => {
+        const clicked: string[] = []
+        container.addEventListener('click', event => clicked.push((event.target as HTMLElement).closest('a')!.href))
+        renderTree()
+        await settle()
+        const viewport = getViewport()
+
+        Simulate.keyDown(viewport, { key: 'ArrowDown' })
+        expect(getSelectedPath()).to.equal('doc')
+
+        Simulate.keyDown(viewport, { key: 'ArrowRight' })
+        await settle()
+        expect(getRowLabels()).to.deep.equal(['doc', 'api', 'README.md', 'mux.go'])
+
+        Simulate.keyDown(viewport, { key: 'ArrowDown' })
+        Simulate.keyDown(viewport, { key: 'ArrowDown' })
+        expect(getSelectedPath()).to.equal('doc/README.md')
+
+        Simulate.keyDown(viewport, { key: 'Enter' })
+        expect(clicked).to.deep.equal([`https://github.com/gorilla/mux/blob/${commitID}/doc/README.md`])
+
+        Simulate.keyDown(viewport, { key: 'ArrowLeft' })
+        expect(getSelectedPath()).to.equal('doc')
+
+        Simulate.keyDown(viewport, { key: 'ArrowLeft' })
+        expect(getRowLabels()).to.deep.equal(['doc', 'mux.go'])
+
+        Simulate.keyDown(viewport, { key: 'ArrowUp' })
+        expect(getSelectedPath()).to.equal('mux.go')
+    })
+})
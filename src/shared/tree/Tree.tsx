@@ -1,42 +1,62 @@
-// tslint:disable:no-use-before-declare
-
-import flatten from 'lodash/flatten'
-import groupBy from 'lodash/groupBy'
-import sortBy from 'lodash/sortBy'
+import { isEqual } from 'lodash'
 import ChevronDownIcon from 'mdi-react/ChevronDownIcon'
 import ChevronRightIcon from 'mdi-react/ChevronRightIcon'
 import * as React from 'react'
-import { BehaviorSubject, Subscription } from 'rxjs'
-import { Repo } from '../repo'
-import { toTreeURL } from '../util/url'
-import { getParentDir, scrollIntoView } from './util'
-
-export interface Props extends Repo {
-    paths: string[]
-    scrollRootSelector?: string
-    selectedPath: string
+import { fromEvent, of, Subject, Subscription } from 'rxjs'
+import {
+    catchError,
+    debounceTime,
+    distinctUntilChanged,
+    filter,
+    map,
+    mergeMap,
+    startWith,
+    switchMap,
+} from 'rxjs/operators'
+import { asError, ErrorLike, isErrorLike } from '../backend/errors'
+import { FileSpec, RepoSpec, RevSpec } from '../repo'
+import { fetchTreeEntries, searchFilePaths, TreeEntry } from '../repo/backend'
+import { getAncestorDirs, getParentDir, getTreeRows, getVisibleRowRange, sortTreeEntries, TreeRow } from './util'
+
+/** The location of a directory (`tree`) or a file (`blob`) of the tree. */
+export interface TreeURLLocation extends RepoSpec, RevSpec, FileSpec {
+    type: 'tree' | 'blob'
 }
 
-interface TreeNodeState {
-    collapsed: boolean
-    selected: boolean
-}
+/** Builds the URL of a directory or a file of the tree on the code host. */
+export type TreeURLBuilder = (location: TreeURLLocation) => string
 
-interface TreeNode {
-    filePath: string
-    children: TreeNode[]
-    state: BehaviorSubject<TreeNodeState>
+export interface Props extends RepoSpec, RevSpec {
+    buildURL: TreeURLBuilder
+    selectedPath: string
 }
 
-interface Store {
-    nodes: TreeNode[]
-    nodeMap: Map<string, TreeNode>
+interface State {
+    /** The fetched entries of directories, keyed by path ('' is the root directory). */
+    entries: Map<string, TreeEntry[] | ErrorLike>
+    /** The paths of the expanded directories. */
+    expanded: Set<string>
     selectedPath: string
+
+    /** The query to search file paths for. The tree is shown while it's empty. */
+    filterQuery: string
+    /** The paths of the files matching the filter. `undefined` while they are being searched. */
+    filterResultsOrError?: string[] | ErrorLike
+
+    scrollTop: number
+    viewportHeight: number
 }
 
-interface State {
-    store: Store
-    relativeDir?: string
+/** The height of a row in px, which must match the height of `.tree__row`. */
+const ROW_HEIGHT = 28
+
+/** The number of file paths matching the filter that are shown. */
+const MAX_FILTER_RESULTS = 500
+
+/** The tree that a request is made for, so that responses for a previous tree are ignored. */
+interface TreeRequest {
+    repoPath: string
+    commitID: string
 }
 
 const treePadding = (depth: number, directory: boolean) => ({
@@ -44,518 +64,405 @@ const treePadding = (depth: number, directory: boolean) => ({
     paddingRight: '16px',
 })
 
-function selectRow(store: Store, path: string): void {
-    const currSelectedNode = store.nodeMap.get(store.selectedPath)
-    if (currSelectedNode) {
-        currSelectedNode.state.next({ ...currSelectedNode.state.getValue(), selected: false })
-    }
-    store.selectedPath = path
-    const nextSelectedNode = store.nodeMap.get(path)
-    if (nextSelectedNode) {
-        nextSelectedNode.state.next({ ...nextSelectedNode.state.getValue(), selected: true })
-    }
-}
+/**
+ * The file tree of a repository at a commit. The entries of directories are
+ * fetched when they are expanded, and only the rows in view are rendered, so
+ * that the tree stays fast for repositories with very many files.
+ */
+export class Tree extends React.PureComponent<Props, State> {
+    private directoryRequests = new Subject<TreeRequest & { filePath: string }>()
+    private filterChanges = new Subject<TreeRequest & { query: string }>()
+    private subscriptions = new Subscription()
 
-function closeDirectory(store: Store, dir: string): void {
-    selectRow(store, dir)
-    const node = store.nodeMap.get(dir)
-    if (node) {
-        node.state.next({ ...node.state.getValue(), collapsed: true })
-    } else {
-        console.error('could not locate node', dir)
-    }
-}
+    private viewport: HTMLElement | null = null
+    /** Whether to scroll the selected row into view once it's shown. */
+    private shouldScrollToSelected = true
+
+    /** The rows returned by `getRows` last, and the state they were computed from. */
+    private lastRows?: TreeRow[]
+    private lastRowsState?: Pick<State, 'entries' | 'expanded' | 'filterQuery' | 'filterResultsOrError'>
 
-export class Tree extends React.PureComponent<Props, State> {
     constructor(props: Props) {
         super(props)
-        const { nodes, nodeMap } = this.parseNodes(props.paths, props.selectedPath)
         this.state = {
-            store: { nodes, nodeMap, selectedPath: props.selectedPath },
-            relativeDir: nodes.length > 0 ? getParentDir(nodes[0].filePath) : undefined,
+            entries: new Map(),
+            expanded: new Set(getAncestorDirs(props.selectedPath)),
+            selectedPath: props.selectedPath,
+            filterQuery: '',
+            scrollTop: 0,
+            viewportHeight: 0,
         }
     }
 
     public componentDidMount(): void {
-        if (this.props.selectedPath) {
-            const el = this.locateDomNode(this.props.selectedPath!)
-            if (el && !this.elementInViewport(el)) {
-                el.scrollIntoView({ behavior: 'instant', inline: 'nearest' })
-            }
+        this.subscriptions.add(
+            this.directoryRequests
+                .pipe(
+                    mergeMap(request =>
+                        fetchTreeEntries(request).pipe(
+                            map(sortTreeEntries),
+                            catchError(err => [asError(err)]),
+                            map(entriesOrError => ({ request, entriesOrError }))
+                        )
+                    ),
+                    filter(({ request }) => this.isCurrentTree(request))
+                )
+                .subscribe(({ request, entriesOrError }) =>
+                    this.setState(({ entries }) => ({
+                        entries: new Map(entries).set(request.filePath, entriesOrError),
+                    }))
+                )
+        )
+
+        this.subscriptions.add(
+            this.filterChanges
+                .pipe(
+                    debounceTime(200),
+                    distinctUntilChanged(isEqual),
+                    switchMap(
+                        request =>
+                            request.query
+                                ? searchFilePaths({ ...request, first: MAX_FILTER_RESULTS }).pipe(
+                                      catchError(err => [asError(err)]),
+                                      startWith<string[] | ErrorLike | undefined>(undefined)
+                                  )
+                                : of(undefined)
+                    )
+                )
+                .subscribe(filterResultsOrError => this.setState({ filterResultsOrError }))
+        )
+
+        this.subscriptions.add(fromEvent(window, 'resize').subscribe(() => this.updateViewportHeight()))
+        this.updateViewportHeight()
+
+        for (const dir of ['', ...this.state.expanded]) {
+            this.fetchEntries(dir, this.props)
         }
     }
 
     public componentWillReceiveProps(nextProps: Props): void {
-        const selectedPath = nextProps.selectedPath
-        if (this.props.paths !== nextProps.paths) {
-            const { nodes, nodeMap } = this.parseNodes(nextProps.paths, selectedPath)
-            this.setState({
-                store: { nodes, nodeMap, selectedPath },
-                relativeDir: nodes.length > 0 ? getParentDir(nodes[0].filePath) : undefined,
-            })
-        } else {
-            // If we are trying to show a path not available on the tree, recreate the nodes.
-            const loc = this.locateDomNodeInCollection(selectedPath)
-            if (!loc) {
-                const { nodes, nodeMap } = this.parseNodes(nextProps.paths, selectedPath)
-                this.setState({
-                    store: { nodes, nodeMap, selectedPath },
-                    relativeDir: nodes.length > 0 ? getParentDir(nodes[0].filePath) : undefined,
-                })
-            } else {
-                selectRow(this.state.store, selectedPath)
+        if (nextProps.repoPath !== this.props.repoPath || nextProps.rev !== this.props.rev) {
+            // Start over for the other tree, keeping the filter. The entries
+            // are requested once the props changed (see componentDidUpdate),
+            // as cached responses arrive right away and would be ignored
+            // for the previous tree.
+            const expanded = new Set(getAncestorDirs(nextProps.selectedPath))
+            this.setState({ entries: new Map(), expanded, selectedPath: nextProps.selectedPath })
+            this.shouldScrollToSelected = true
+        } else if (nextProps.selectedPath !== this.props.selectedPath) {
+            const ancestors = getAncestorDirs(nextProps.selectedPath)
+            this.setState(({ expanded }) => ({
+                selectedPath: nextProps.selectedPath,
+                expanded: new Set([...expanded, ...ancestors]),
+            }))
+            for (const dir of ancestors) {
+                this.fetchEntries(dir, nextProps)
             }
+            this.shouldScrollToSelected = true
         }
-        if (this.props.selectedPath !== selectedPath) {
-            setTimeout(() => {
-                if (selectedPath) {
-                    const el = this.locateDomNode(selectedPath)
-                    if (el && !this.elementInViewport(el)) {
-                        el.scrollIntoView({ behavior: 'instant', inline: 'nearest' })
-                    }
-                }
-            }, 250)
-        }
-    }
-
-    public render(): JSX.Element | null {
-        return (
-            <div className="github-tree" tabIndex={1} onKeyDown={this.onKeyDown}>
-                <TreeLayer
-                    repoPath={this.props.repoPath}
-                    rev={this.props.rev}
-                    store={this.state.store}
-                    currSubpath=""
-                    relativeDir={this.state.relativeDir}
-                />
-            </div>
-        )
     }
 
-    public ArrowDown = () => {
-        const loc = this.locateDomNodeInCollection(this.state.store.selectedPath)
-        if (loc) {
-            const { items, i } = loc
-            if (i < items.length - 1) {
-                // select next
-                this.selectElement(items[i + 1])
-            } else {
-                // select first
-                this.selectElement(items[0])
+    public componentDidUpdate(prevProps: Props): void {
+        if (prevProps.repoPath !== this.props.repoPath || prevProps.rev !== this.props.rev) {
+            const { repoPath, rev } = this.props
+            for (const dir of ['', ...this.state.expanded]) {
+                this.directoryRequests.next({ repoPath, commitID: rev, filePath: dir })
             }
+            this.filterChanges.next({ repoPath, commitID: rev, query: this.state.filterQuery.trim() })
         }
-    }
 
-    public ArrowUp = () => {
-        const loc = this.locateDomNodeInCollection(this.state.store.selectedPath)
-        if (loc) {
-            const { items, i } = loc
-            if (i > 0) {
-                // select previous
-                this.selectElement(items[i - 1])
-            } else {
-                // select last
-                this.selectElement(items[items.length - 1])
+        if (this.shouldScrollToSelected && !this.state.filterQuery) {
+            const index = this.getRows().findIndex(row => row.type === 'entry' && row.path === this.state.selectedPath)
+            if (index !== -1) {
+                this.shouldScrollToSelected = false
+                this.scrollToRow(index)
             }
         }
     }
 
-    public ArrowLeft = () => {
-        const selectedPath = this.state.store.selectedPath
-        const node = this.state.store.nodeMap.get(selectedPath)
-        if (!node) {
-            console.error('could not locate node (arrow down)', selectedPath)
-            return
-        }
-        const isOpenDir = !node.state.getValue().collapsed
-        if (isOpenDir) {
-            closeDirectory(this.state.store, selectedPath)
-            return
-        }
-        const loc = this.locateDomNodeInCollection(selectedPath)
-        if (loc) {
-            const { items, i } = loc
-            const pathSplit = selectedPath.split('/')
-            const dir = pathSplit.splice(0, pathSplit.length - 1).join('/')
-            const parentDir = dir ? this.locateDomNode(dir) : undefined
-            if (parentDir) {
-                this.selectElement(parentDir)
-                return
-            }
+    public componentWillUnmount(): void {
+        this.subscriptions.unsubscribe()
+    }
 
-            if (i > 0) {
-                // select previous
-                this.selectElement(items[i - 1])
-            } else {
-                // select last
-                this.selectElement(items[items.length - 1])
-            }
-        }
+    public render(): JSX.Element | null {
+        const rows = this.getRows()
+        const { start, end } = getVisibleRowRange(
+            this.state.scrollTop,
+            this.state.viewportHeight,
+            ROW_HEIGHT,
+            rows.length
+        )
+
+        return (
+            <div className="tree">
+                <input
+                    className="tree__filter"
+                    type="search"
+                    placeholder="Filter files..."
+                    spellCheck={false}
+                    value={this.state.filterQuery}
+                    onChange={this.onFilterChange}
+                    onKeyDown={this.onFilterKeyDown}
+                />
+                <div
+                    className="tree__viewport"
+                    tabIndex={1}
+                    ref={this.setViewport}
+                    onScroll={this.onScroll}
+                    onKeyDown={this.onKeyDown}
+                >
+                    {this.renderFilterMessage()}
+                    {/* tslint:disable-next-line:jsx-ban-props (needed because of dynamic styling) */}
+                    <div className="tree__rows" style={{ height: rows.length * ROW_HEIGHT + 'px' }}>
+                        {/* tslint:disable-next-line:jsx-ban-props (needed because of dynamic styling) */}
+                        <div style={{ transform: `translateY(${start * ROW_HEIGHT}px)` }}>
+                            {rows.slice(start, end).map(row => this.renderRow(row))}
+                        </div>
+                    </div>
+                </div>
+            </div>
+        )
     }
 
-    public ArrowRight = () => {
-        const selectedPath = this.state.store.selectedPath
-        const node = this.state.store.nodeMap.get(selectedPath)
-        if (!node) {
-            console.error('could not locate node (arrow right)', selectedPath)
-            return
+    private renderFilterMessage(): React.ReactNode {
+        const { filterQuery, filterResultsOrError } = this.state
+        if (!filterQuery) {
+            return null
         }
-        const loc = this.locateDomNodeInCollection(selectedPath)
-        if (loc) {
-            const { items, i } = loc
-            const isDirectory = Boolean(items[i].getAttribute('data-tree-directory'))
-            if (node.state.getValue().collapsed && isDirectory) {
-                // First, show the group (but don't update selection)
-                node.state.next({ collapsed: false, selected: true })
-            } else {
-                if (i < items.length - 1) {
-                    // select next
-                    this.selectElement(items[i + 1])
-                } else {
-                    // select first
-                    this.selectElement(items[0])
-                }
-            }
+        if (filterResultsOrError === undefined) {
+            return <div className="tree__message">Searching...</div>
         }
-    }
-
-    public Enter = () => {
-        const selectedPath = this.state.store.selectedPath
-        const node = this.state.store.nodeMap.get(selectedPath)
-        if (!node) {
-            console.error('could not locate node (enter)', selectedPath)
-            return
+        if (isErrorLike(filterResultsOrError)) {
+            return <div className="tree__message">{filterResultsOrError.message}</div>
         }
-        const loc = this.locateDomNodeInCollection(selectedPath)
-        if (loc) {
-            const { items, i } = loc
-            const isDir = Boolean(items[i].getAttribute('data-tree-directory'))
-            if (isDir) {
-                const isOpen = !node.state.getValue().collapsed
-                if (isOpen) {
-                    closeDirectory(this.state.store, selectedPath)
-                    return
-                }
-            }
-            node.state.next({ collapsed: false, selected: true })
-            const element = this.locateDomNode(selectedPath) as HTMLElement
-            if (element && !isDir) {
-                element.click()
-            }
+        if (filterResultsOrError.length === 0) {
+            return <div className="tree__message">No matching files</div>
         }
+        return null
     }
 
-    private elementInViewport(el: any): boolean {
-        const rect = el.getBoundingClientRect()
+    private renderRow(row: TreeRow): JSX.Element {
+        if (row.type !== 'entry') {
+            return (
+                <div
+                    key={`${row.type}:${row.path}`}
+                    className="tree__row tree__row--placeholder"
+                    // tslint:disable-next-line:jsx-ban-props (needed because of dynamic styling)
+                    style={treePadding(row.depth, false)}
+                >
+                    {row.type === 'loading' ? 'Loading...' : row.message}
+                </div>
+            )
+        }
+
+        const { path, isDirectory, depth, expanded } = row
         return (
-            rect.top >= 0 &&
-            rect.left >= 0 &&
-            rect.bottom <= (window.innerHeight || document.documentElement.clientHeight) /*or $(window).height() */ &&
-            rect.right <= (window.innerWidth || document.documentElement.clientWidth) /*or $(window).width() */
+            <a
+                key={path}
+                className={`tree__row ${path === this.state.selectedPath ? 'tree__row--selected' : ''}`}
+                // tslint:disable-next-line:jsx-ban-props (needed because of dynamic styling)
+                style={treePadding(depth, isDirectory)}
+                href={this.props.buildURL({
+                    repoPath: this.props.repoPath,
+                    rev: this.props.rev,
+                    filePath: path,
+                    type: isDirectory ? 'tree' : 'blob',
+                })}
+                data-pjax="true"
+                data-tree-path={path}
+                draggable={false}
+                title={path}
+                onClick={isDirectory ? this.onDirectoryClick : this.onFileClick}
+            >
+                {isDirectory && (
+                    <span className="tree__row-icon">
+                        {expanded ? <ChevronDownIcon size={17} /> : <ChevronRightIcon size={17} />}
+                    </span>
+                )}
+                <span className="tree__row-label">
+                    {this.state.filterQuery ? path : path.slice(path.lastIndexOf('/') + 1)}
+                </span>
+            </a>
         )
     }
 
-    private selectElement(el: HTMLElement): void {
-        const root = (this.props.scrollRootSelector
-            ? document.querySelector(this.props.scrollRootSelector)
-            : document.querySelector('.tree-container')) as HTMLElement
-        if (!this.elementInViewport(el)) {
-            scrollIntoView(el, root)
+    /** Returns the rows to show, which are only recomputed when the entries, expansions or filter change. */
+    private getRows(): TreeRow[] {
+        const { entries, expanded, filterQuery, filterResultsOrError } = this.state
+        const last = this.lastRowsState
+        if (
+            !this.lastRows ||
+            !last ||
+            last.entries !== entries ||
+            last.expanded !== expanded ||
+            last.filterQuery !== filterQuery ||
+            last.filterResultsOrError !== filterResultsOrError
+        ) {
+            this.lastRowsState = { entries, expanded, filterQuery, filterResultsOrError }
+            this.lastRows = filterQuery
+                ? filterResultsOrError === undefined || isErrorLike(filterResultsOrError)
+                    ? []
+                    : filterResultsOrError.map(
+                          (path): TreeRow => ({ type: 'entry', path, isDirectory: false, depth: 0, expanded: false })
+                      )
+                : getTreeRows(entries, expanded)
         }
-        const path = el.getAttribute('data-tree-path')!
-        selectRow(this.state.store, path)
+        return this.lastRows
     }
 
-    private locateDomNode(path: string): HTMLElement | undefined {
-        return document.querySelector(`[data-tree-path = '${path}']`) as any
+    private isCurrentTree({ repoPath, commitID }: TreeRequest): boolean {
+        return repoPath === this.props.repoPath && commitID === this.props.rev
     }
 
-    private locateDomNodeInCollection(path: string): { items: HTMLElement[]; i: number } | undefined {
-        const items = document.querySelectorAll('.tree__row-contents') as any
-        let i = 0
-        for (i; i < items.length; ++i) {
-            if (items[i].getAttribute('data-tree-path') === path) {
-                return { items, i }
-            }
+    /** Fetches the entries of dir, unless they were fetched already. Failed fetches are retried. */
+    private fetchEntries(dir: string, { repoPath, rev }: Props): void {
+        const entriesOrError = this.state.entries.get(dir)
+        if (entriesOrError && !isErrorLike(entriesOrError)) {
+            return
         }
-        return undefined
-    }
-
-    private onKeyDown = (event: React.KeyboardEvent<HTMLElement>): void => {
-        const handler = (this as any)[event.key]
-        if (handler) {
-            event.preventDefault()
-            handler.call(this, event)
+        if (entriesOrError) {
+            // Show the directory as loading again.
+            this.setState(({ entries }) => {
+                const next = new Map(entries)
+                next.delete(dir)
+                return { entries: next }
+            })
         }
+        this.directoryRequests.next({ repoPath, commitID: rev, filePath: dir })
     }
 
-    private parseNodes = (paths: string[], selectedPath: string) => {
-        const getFilePath = (prefix: string, restParts: string[]) => {
-            if (prefix === '') {
-                return restParts.join('/')
-            }
-            return prefix + '/' + restParts.join('/')
-        }
-
-        const parseHelper = (
-            splits: string[][],
-            subpath = '',
-            nodeMap = new Map<string, TreeNode>()
-        ): { nodes: TreeNode[]; nodeMap: Map<string, TreeNode> } => {
-            const splitsByDir = groupBy(splits, split => {
-                if (split.length === 1) {
-                    return ''
-                }
-                return split[0]
+    private toggleDirectory(dir: string): void {
+        if (this.state.expanded.has(dir)) {
+            this.setState(({ expanded }) => {
+                const next = new Set(expanded)
+                next.delete(dir)
+                return { expanded: next }
             })
-            const entries = flatten<TreeNode>(
-                Object.entries(splitsByDir).map(([dir, pathSplits]) => {
-                    if (dir === '') {
-                        return pathSplits.map(split => {
-                            const filePath = getFilePath(subpath, split)
-                            const node: TreeNode = {
-                                children: [],
-                                filePath,
-                                state: new BehaviorSubject<TreeNodeState>({
-                                    selected: filePath === selectedPath,
-                                    collapsed: true,
-                                }),
-                            }
-                            nodeMap.set(filePath, node)
-                            return node
-                        })
-                    }
-                    const splits = subpath ? subpath + '/' + dir : dir
-
-                    const dirPath = getFilePath(subpath, [dir])
-                    const dirNode: TreeNode = {
-                        children: parseHelper(
-                            pathSplits.map(split => split.slice(1)),
-                            subpath ? subpath + '/' + dir : dir,
-                            nodeMap
-                        ).nodes,
-                        filePath: dirPath,
-                        state: new BehaviorSubject<TreeNodeState>({
-                            selected: dirPath === selectedPath,
-                            collapsed: selectedPath.indexOf(splits) === -1,
-                        }),
-                    }
-                    nodeMap.set(dirPath, dirNode)
-                    return [dirNode]
-                })
-            )
-
-            // directories first (nodes w/ children), then sort lexicographically
-            return { nodes: sortBy(entries, [(e: TreeNode) => (e.children.length > 0 ? 0 : 1), 'text']), nodeMap }
+            return
         }
 
-        return parseHelper(paths.map(path => path.split('/')))
+        this.setState(({ expanded }) => ({ expanded: new Set(expanded).add(dir) }))
+        this.fetchEntries(dir, this.props)
     }
-}
 
-interface TreeLayerProps extends Repo {
-    currSubpath: string
-    relativeDir?: string
-    store: Store
-}
-
-class TreeLayer extends React.PureComponent<TreeLayerProps, {}> {
-    public getDepth(): number {
-        if (this.props.currSubpath === '') {
-            return 0
-        }
-        const subpathDepth = this.props.currSubpath.split('/').length
-        if (this.props.relativeDir) {
-            const relativeDirDepth = this.props.relativeDir.split('/').length
-            return Math.max(0, subpathDepth - relativeDirDepth)
+    private select(path: string): void {
+        this.setState({ selectedPath: path })
+        const index = this.getRows().findIndex(row => row.type === 'entry' && row.path === path)
+        if (index !== -1) {
+            this.scrollToRow(index)
         }
-        return subpathDepth
     }
 
-    public render(): JSX.Element | null {
-        const { currSubpath, store } = this.props
-        const nodes = currSubpath === '' ? store.nodes : store.nodeMap.get(currSubpath)!.children
-        return (
-            <table className="tree-layer">
-                <tbody>
-                    <tr>
-                        <td>
-                            {nodes.map((node, i) => (
-                                <TreeRow key={i} {...this.props} depth={this.getDepth()} node={node} />
-                            ))}
-                        </td>
-                    </tr>
-                </tbody>
-            </table>
-        )
-    }
-}
-
-interface TreeRowProps extends TreeLayerProps {
-    depth: number
-    node: TreeNode
-}
-
-class TreeRow extends React.PureComponent<TreeRowProps, TreeNodeState> {
-    private subscriptions = new Subscription()
-
-    constructor(props: TreeRowProps) {
-        super(props)
-        this.state = props.node.state.getValue()
-    }
-
-    public componentDidMount(): void {
-        this.subscriptions.add(
-            this.props.node.state.subscribe(state => {
-                this.setState(state)
-            })
-        )
-    }
-
-    public componentWillReceiveProps(nextProps: TreeRowProps): void {
-        if (this.props.node !== nextProps.node) {
-            if (this.subscriptions) {
-                this.subscriptions.unsubscribe()
-                this.subscriptions = new Subscription()
-            }
-            this.subscriptions.add(
-                nextProps.node.state.subscribe(state => {
-                    this.setState(state)
-                })
-            )
+    /** Scrolls the viewport so that the row at index is in view. */
+    private scrollToRow(index: number): void {
+        if (!this.viewport) {
+            return
+        }
+        const top = index * ROW_HEIGHT
+        if (top < this.viewport.scrollTop) {
+            this.viewport.scrollTop = top
+        } else if (top + ROW_HEIGHT > this.viewport.scrollTop + this.viewport.clientHeight) {
+            this.viewport.scrollTop = top + ROW_HEIGHT - this.viewport.clientHeight
         }
     }
 
-    public componentWillUnmount(): void {
-        if (this.subscriptions) {
-            this.subscriptions.unsubscribe()
+    private updateViewportHeight(): void {
+        if (this.viewport) {
+            this.setState({ viewportHeight: this.viewport.clientHeight })
         }
     }
 
-    public render(): JSX.Element | null {
-        const { node, store } = this.props
-        return (
-            <table className="tree-row">
-                <tbody>
-                    {node.children.length > 0 && [
-                        <tr
-                            key={node.filePath}
-                            className={[
-                                'tree__row',
-                                this.showSubpath(node.filePath) && 'tree__row--expanded',
-                                node.filePath === store.selectedPath && 'tree__row--selected',
-                            ]
-                                .filter(c => !!c)
-                                .join(' ')}
-                        >
-                            <td onClick={this.handleDirClick}>
-                                <div
-                                    className="tree__row-contents"
-                                    data-tree-directory="true"
-                                    data-tree-path={node.filePath}
-                                    // tslint:disable-next-line:jsx-ban-props (needed because of dynamic styling)
-                                    style={treePadding(this.props.depth, true)}
-                                >
-                                    <a
-                                        data-pjax="true"
-                                        className="tree__row-icon"
-                                        onClick={this.noopRowClick}
-                                        href={toTreeURL({
-                                            repoPath: this.props.repoPath,
-                                            rev: this.props.rev,
-                                            filePath: node.filePath,
-                                        })}
-                                    >
-                                        {this.showSubpath(node.filePath) ? (
-                                            <span className="icon-inline">
-                                                <ChevronDownIcon size={17} />
-                                            </span>
-                                        ) : (
-                                            <span className="icon-inline">
-                                                <ChevronRightIcon size={17} />
-                                            </span>
-                                        )}
-                                    </a>
-                                    <a className="tree__row-label" draggable={false} title={node.filePath}>
-                                        {node.filePath.split('/').pop()}
-                                    </a>
-                                </div>
-                            </td>
-                        </tr>,
-                        this.showSubpath(node.filePath) && (
-                            <tr key={'layer-' + node.filePath}>
-                                <td>
-                                    <TreeLayer
-                                        repoPath={this.props.repoPath}
-                                        rev={this.props.rev}
-                                        store={this.props.store}
-                                        currSubpath={node.filePath}
-                                        relativeDir={this.props.relativeDir}
-                                    />
-                                </td>
-                            </tr>
-                        ),
-                    ]}
-                    {node.children.length === 0 && (
-                        <tr
-                            key={node.filePath}
-                            className={'tree__row' + (node.filePath === store.selectedPath ? '--selected' : '')}
-                        >
-                            {/* tslint:disable-next-line:jsx-ban-props (needed because of dynamic styling) */}
-                            <td className="tree__row-label" style={treePadding(this.props.depth, false)}>
-                                <a
-                                    href={`https://${this.props.repoPath}/blob/${this.props.rev}/${node.filePath}`}
-                                    data-pjax="true"
-                                    className="tree__row-contents"
-                                    onClick={this.linkRowClick}
-                                    data-tree-path={node.filePath}
-                                    draggable={false}
-                                    title={node.filePath}
-                                >
-                                    {node.filePath.split('/').pop()}
-                                </a>
-                            </td>
-                        </tr>
-                    )}
-                </tbody>
-            </table>
-        )
-    }
+    private setViewport = (element: HTMLElement | null) => (this.viewport = element)
+
+    private onScroll = (event: React.UIEvent<HTMLElement>) =>
+        this.setState({ scrollTop: event.currentTarget.scrollTop, viewportHeight: event.currentTarget.clientHeight })
 
-    private handleDirClick = () => {
-        const state = this.props.node.state.getValue()
-        selectRow(this.props.store, this.props.node.filePath)
-        if (!state.collapsed) {
-            closeDirectory(this.props.store, this.props.node.filePath)
-        } else {
-            this.props.node.state.next({ collapsed: false, selected: true })
+    private onFilterChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const filterQuery = event.currentTarget.value
+        this.setState({ filterQuery, scrollTop: 0 })
+        if (this.viewport) {
+            this.viewport.scrollTop = 0
         }
+        this.filterChanges.next({ repoPath: this.props.repoPath, commitID: this.props.rev, query: filterQuery.trim() })
     }
 
-    private showSubpath(dir: string): boolean {
-        const node = this.props.store.nodeMap.get(dir)
-        if (!node) {
-            return false
+    private onFilterKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+        if (event.key === 'Escape') {
+            this.setState({ filterQuery: '' })
+            this.filterChanges.next({ repoPath: this.props.repoPath, commitID: this.props.rev, query: '' })
+            this.shouldScrollToSelected = true
+        } else if (event.key === 'ArrowDown' && this.viewport) {
+            event.preventDefault()
+            this.viewport.focus()
         }
-        return !node.state.getValue().collapsed
     }
 
     /**
-     * noopRowClick is the click handler for <a> rows of the tree element
-     * that shouldn't update URL on click w/o modifier key (but should retain
-     * anchor element properties, like right click "Copy link address").
+     * Toggles the directory, without following the link unless a modifier key
+     * is held (so that the link can still be opened in a new tab).
      */
-    private noopRowClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
-        if (!e.altKey && !e.metaKey && !e.shiftKey && !e.ctrlKey) {
-            e.preventDefault()
+    private onDirectoryClick = (event: React.MouseEvent<HTMLAnchorElement>) => {
+        const path = event.currentTarget.getAttribute('data-tree-path')!
+        this.setState({ selectedPath: path })
+        if (!event.altKey && !event.metaKey && !event.shiftKey && !event.ctrlKey) {
+            event.preventDefault()
+            this.toggleDirectory(path)
         }
-        selectRow(this.props.store, this.props.node.filePath)
     }
 
-    /**
-     * linkRowClick is the click handler for <Link>
-     */
-    private linkRowClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
-        selectRow(this.props.store, this.props.node.filePath)
+    private onFileClick = (event: React.MouseEvent<HTMLAnchorElement>) =>
+        this.setState({ selectedPath: event.currentTarget.getAttribute('data-tree-path')! })
+
+    private onKeyDown = (event: React.KeyboardEvent<HTMLElement>): void => {
+        const rows = this.getRows()
+        const index = rows.findIndex(row => row.type === 'entry' && row.path === this.state.selectedPath)
+        const row = rows[index]
+        const entryAt = (i: number) => {
+            const candidate = rows[i]
+            return candidate && candidate.type === 'entry' ? candidate : undefined
+        }
+
+        switch (event.key) {
+            case 'ArrowDown': {
+                const next = entryAt(index + 1) || entryAt(0)
+                if (next) {
+                    this.select(next.path)
+                }
+                break
+            }
+            case 'ArrowUp': {
+                const previous = entryAt(index - 1) || entryAt(rows.length - 1)
+                if (previous) {
+                    this.select(previous.path)
+                }
+                break
+            }
+            case 'ArrowRight':
+                if (row && row.type === 'entry' && row.isDirectory && !row.expanded) {
+                    this.toggleDirectory(row.path)
+                }
+                break
+            case 'ArrowLeft':
+                if (row && row.type === 'entry' && row.isDirectory && row.expanded) {
+                    this.toggleDirectory(row.path)
+                } else if (row && getParentDir(row.path) && !this.state.filterQuery) {
+                    this.select(getParentDir(row.path))
+                }
+                break
+            case 'Enter':
+                if (row && row.type === 'entry') {
+                    // Click the link, so that code hosts can navigate without a page reload (e.g. with pjax).
+                    const link =
+                        this.viewport &&
+                        this.viewport.querySelector<HTMLElement>(`[data-tree-path="${row.path.replace(/"/g, '\\"')}"]`)
+                    if (link) {
+                        link.click()
+                    }
+                }
+                break
+            default:
+                return
+        }
+        event.preventDefault()
     }
 }
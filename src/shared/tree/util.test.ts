@@ -0,0 +1,61 @@
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import { TreeEntry } from '../repo/backend'
+import { getAncestorDirs, getTreeRows, getVisibleRowRange, sortTreeEntries } from './util'
+
+describe('tree', () => {
+    it('getAncestorDirs returns the directories containing a path, outermost first', () => {
+        expect(getAncestorDirs('a/b/c.go')).to.deep.equal(['a', 'a/b'])
+        expect(getAncestorDirs('c.go')).to.deep.equal([])
+    })
+
+    it('sortTreeEntries sorts directories first', () => {
+        expect(
+            sortTreeEntries([
+                { path: 'mux.go', isDirectory: false },
+                { path: 'doc', isDirectory: true },
+                { path: 'bench.go', isDirectory: false },
+            ]).map(({ path }) => path)
+        ).to.deep.equal(['doc', 'bench.go', 'mux.go'])
+    })
+
+    describe('getTreeRows', () => {
+        const entries = new Map<string, TreeEntry[] | Error>([
+            [
+                '',
+                [
+                    { path: 'doc', isDirectory: true },
+                    { path: 'vendor', isDirectory: true },
+                    { path: 'mux.go', isDirectory: false },
+                ],
+            ],
+            ['doc', [{ path: 'doc/README.md', isDirectory: false }]],
+            ['vendor', new Error('timeout')],
+        ])
+
+        it('shows the entries of expanded directories below them', () => {
+            expect(getTreeRows(entries, new Set(['doc']))).to.deep.equal([
+                { type: 'entry', path: 'doc', isDirectory: true, depth: 0, expanded: true },
+                { type: 'entry', path: 'doc/README.md', isDirectory: false, depth: 1, expanded: false },
+                { type: 'entry', path: 'vendor', isDirectory: true, depth: 0, expanded: false },
+                { type: 'entry', path: 'mux.go', isDirectory: false, depth: 0, expanded: false },
+            ])
+        })
+
+        it('shows placeholders for entries that are being fetched or failed to be fetched', () => {
+            expect(getTreeRows(new Map(), new Set())).to.deep.equal([{ type: 'loading', path: '', depth: 0 }])
+            expect(getTreeRows(entries, new Set(['vendor']))[2]).to.deep.equal({
+                type: 'error',
+                path: 'vendor',
+                depth: 1,
+                message: 'timeout',
+            })
+        })
+    })
+
+    it('getVisibleRowRange returns the rows in the viewport and the overscan', () => {
+        expect(getVisibleRowRange(0, 100, 20, 1000, 2)).to.deep.equal({ start: 0, end: 7 })
+        expect(getVisibleRowRange(400, 100, 20, 1000, 2)).to.deep.equal({ start: 18, end: 27 })
+        expect(getVisibleRowRange(19900, 100, 20, 1000, 2)).to.deep.equal({ start: 993, end: 1000 })
+    })
+})
@@ -1,3 +1,7 @@
+import sortBy from 'lodash/sortBy'
+import { ErrorLike, isErrorLike } from '../backend/errors'
+import { TreeEntry } from '../repo/backend'
+
 export function getParentDir(path: string): string {
     const split = path.split('/')
     if (split.length === 1) {
@@ -31,3 +35,76 @@ export function scrollIntoView(el: Element, scrollRoot: Element): void {
         el.scrollIntoView(false)
     }
 }
+
+/**
+ * Returns the paths of the directories that contain path, outermost first.
+ */
+export function getAncestorDirs(path: string): string[] {
+    const dirs: string[] = []
+    for (let dir = getParentDir(path); dir !== ''; dir = getParentDir(dir)) {
+        dirs.unshift(dir)
+    }
+    return dirs
+}
+
+/** Sorts the entries of a directory like the code hosts do: directories first, then by path. */
+export function sortTreeEntries(entries: TreeEntry[]): TreeEntry[] {
+    return sortBy(entries, [(entry: TreeEntry) => (entry.isDirectory ? 0 : 1), 'path'])
+}
+
+/**
+ * A row of the tree: an entry, or the placeholder for the entries of an
+ * expanded directory that are being fetched or couldn't be fetched.
+ */
+export type TreeRow =
+    | { type: 'entry'; path: string; isDirectory: boolean; depth: number; expanded: boolean }
+    | { type: 'loading'; path: string; depth: number }
+    | { type: 'error'; path: string; depth: number; message: string }
+
+/**
+ * Returns the rows of the tree in the order they are shown, i.e. the entries
+ * of dir and, depth first, of its expanded subdirectories.
+ *
+ * @param entries The fetched entries of directories, keyed by path ('' is the root directory).
+ * @param expanded The paths of the expanded directories.
+ */
+export function getTreeRows(
+    entries: Map<string, TreeEntry[] | ErrorLike>,
+    expanded: Set<string>,
+    dir = '',
+    depth = 0
+): TreeRow[] {
+    const dirEntries = entries.get(dir)
+    if (dirEntries === undefined) {
+        return [{ type: 'loading', path: dir, depth }]
+    }
+    if (isErrorLike(dirEntries)) {
+        return [{ type: 'error', path: dir, depth, message: dirEntries.message || 'Error loading files' }]
+    }
+
+    const rows: TreeRow[] = []
+    for (const { path, isDirectory } of dirEntries) {
+        const isExpanded = isDirectory && expanded.has(path)
+        rows.push({ type: 'entry', path, isDirectory, depth, expanded: isExpanded })
+        if (isExpanded) {
+            rows.push(...getTreeRows(entries, expanded, path, depth + 1))
+        }
+    }
+    return rows
+}
+
+/**
+ * Returns the range of rows [start, end) to render for a scroll position, with
+ * a few rows more on either side so that scrolling doesn't show blank rows.
+ */
+export function getVisibleRowRange(
+    scrollTop: number,
+    viewportHeight: number,
+    rowHeight: number,
+    rowCount: number,
+    overscan = 10
+): { start: number; end: number } {
+    const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan)
+    const end = Math.min(rowCount, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan)
+    return { start, end }
+}
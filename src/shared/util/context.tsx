@@ -1,6 +1,8 @@
+import { escapeRegExp } from 'lodash'
 import * as path from 'path'
 import * as runtime from '../../browser/runtime'
 import storage from '../../browser/storage'
+import { RoutingRule } from '../../browser/types'
 import { isPhabricator } from '../context'
 import { EventLogger } from '../tracking/EventLogger'
 
@@ -21,15 +23,28 @@ export let inlineSymbolSearchEnabled = false
 
 export let useExtensions = false
 
+export let routingRules: RoutingRule[] = []
+
 interface UrlCache {
     [key: string]: string
 }
 
+/**
+ * The URLs of the Sourcegraph instances repositories were last found on, keyed
+ * by repository path. Use `setRepoURL` and `deleteRepoURL` to update it, so the
+ * extension remembers them across page loads.
+ */
 export const repoUrlCache: UrlCache = {}
 
 if (window.SG_ENV === 'EXTENSION') {
+    storage.getLocal(items => {
+        // Don't overwrite URLs that were learned while storage was being read.
+        Object.assign(repoUrlCache, { ...items.repoLocations, ...repoUrlCache })
+    })
+
     storage.getSync(items => {
         sourcegraphUrl = items.sourcegraphURL
+        routingRules = items.routingRules || []
 
         executeSearchEnabled = items.executeSearchEnabled
 
@@ -46,6 +61,99 @@ export function setSourcegraphUrl(url: string): void {
     sourcegraphUrl = url
 }
 
+export function setRoutingRules(rules: RoutingRule[]): void {
+    routingRules = rules
+}
+
+/**
+ * The most repositories whose URLs are remembered across page loads. The ones
+ * learned least recently are forgotten first.
+ */
+export const MAX_REPO_LOCATIONS = 1000
+
+let repoURLsPersisted = Promise.resolve()
+
+/** Resolves when the updates of stored URLs made so far are written. */
+export const whenRepoURLsPersisted = (): Promise<void> => repoURLsPersisted
+
+/**
+ * Updates the stored URL of a single repository, leaving the URLs other tabs
+ * stored alone. Updates are written one at a time, so they don't overwrite
+ * each other.
+ */
+const persistRepoURL = (repoPath: string, url: string | undefined): void => {
+    if (window.SG_ENV !== 'EXTENSION') {
+        return
+    }
+    repoURLsPersisted = repoURLsPersisted.then(
+        () =>
+            new Promise<void>(resolve =>
+                storage.getLocal(({ repoLocations }) => {
+                    // Keys keep their insertion order, so the repository is moved to the end.
+                    const locations = { ...repoLocations }
+                    delete locations[repoPath]
+                    if (url) {
+                        locations[repoPath] = url
+                    }
+                    for (const key of Object.keys(locations).slice(0, -MAX_REPO_LOCATIONS)) {
+                        delete locations[key]
+                    }
+                    storage.setLocal({ repoLocations: locations }, resolve)
+                })
+            )
+    )
+}
+
+/**
+ * Remembers that the repository was found on the Sourcegraph instance at url.
+ */
+export function setRepoURL(repoPath: string, url: string): void {
+    if (repoUrlCache[repoPath] !== url) {
+        repoUrlCache[repoPath] = url
+        persistRepoURL(repoPath, url)
+    }
+}
+
+/**
+ * Forgets which Sourcegraph instance the repository was found on.
+ */
+export function deleteRepoURL(repoPath: string): void {
+    if (repoPath in repoUrlCache) {
+        delete repoUrlCache[repoPath]
+        persistRepoURL(repoPath, undefined)
+    }
+}
+
+/**
+ * Reports whether the repository path matches a routing rule pattern, in which
+ * `*` matches any sequence of characters, including `/`.
+ */
+export function matchesRepoPattern(pattern: string, repoPath: string): boolean {
+    const source = pattern
+        .split('*')
+        .map(escapeRegExp)
+        .join('.*')
+    return new RegExp(`^${source}$`).test(repoPath)
+}
+
+/**
+ * Returns the URL of the Sourcegraph instance the first matching routing rule
+ * sends requests about the repository to, if any.
+ */
+export function getRoutedSourcegraphURL(repoPath: string): string | undefined {
+    const rule = routingRules.find(({ pattern }) => matchesRepoPattern(pattern, repoPath))
+    return rule && rule.url
+}
+
+/**
+ * Returns the URL of the Sourcegraph instance to use for the repository: the
+ * one a routing rule sends it to, else the one it was last found on, else the
+ * configured one. Both requests and links use it, so they agree.
+ */
+export function getSourcegraphURLForRepo(repoPath: string): string {
+    return getRoutedSourcegraphURL(repoPath) || repoUrlCache[repoPath] || sourcegraphUrl
+}
+
 export function isBrowserExtension(): boolean {
     return window.SOURCEGRAPH_PHABRICATOR_EXTENSION || false
 }
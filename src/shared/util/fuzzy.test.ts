@@ -0,0 +1,25 @@
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import { fuzzyMatch, getMatchIndices } from './fuzzy'
+
+describe('fuzzy matching', () => {
+    describe('getMatchIndices', () => {
+        it('matches the characters of the query in order, ignoring case', () => {
+            expect(getMatchIndices('src/Mux.go', 'mgo')).to.deep.equal([4, 8, 9])
+        })
+
+        it('prefers matches in the last path component', () => {
+            expect(getMatchIndices('mux/route.go', 'r')).to.deep.equal([4])
+        })
+
+        it('returns null when not all characters match', () => {
+            expect(getMatchIndices('mux.go', 'mxx')).to.equal(null)
+            expect(getMatchIndices('a', 'aa')).to.equal(null)
+        })
+    })
+
+    it('fuzzyMatch returns the best matches first', () => {
+        const matches = fuzzyMatch(['doc/README.md', 'mux.go', 'mux_test.go', 'route.go'], 'mux.go', 10)
+        expect(matches.map(({ text }) => text)).to.deep.equal(['mux.go', 'mux_test.go'])
+    })
+})
@@ -0,0 +1,50 @@
+import score from 'string-score'
+
+export interface FuzzyMatch {
+    text: string
+    /** The indices of the characters of text that match the query, for highlighting. */
+    matchIndices: number[]
+    score: number
+}
+
+/**
+ * Returns the indices of the characters of text that match the characters of
+ * query in order, ignoring case, or null if not all of them match. Matches in
+ * the last path component are preferred, so that the file name is highlighted.
+ */
+export function getMatchIndices(text: string, query: string): number[] | null {
+    const lowerText = text.toLowerCase()
+    const lowerQuery = query.toLowerCase()
+
+    const indices: number[] = []
+    let textIndex = lowerText.length - 1
+    // Match from the end, so that the last occurrences of the characters are used.
+    for (let queryIndex = lowerQuery.length - 1; queryIndex >= 0; queryIndex--) {
+        textIndex = textIndex < 0 ? -1 : lowerText.lastIndexOf(lowerQuery[queryIndex], textIndex)
+        if (textIndex === -1) {
+            return null
+        }
+        indices.unshift(textIndex)
+        textIndex--
+    }
+    return indices
+}
+
+/**
+ * Returns the texts that fuzzy match query, best match first, scored with
+ * string-score like the omnibox file finder.
+ */
+export function fuzzyMatch(texts: string[], query: string, limit: number): FuzzyMatch[] {
+    if (!query) {
+        return texts.slice(0, limit).map(text => ({ text, matchIndices: [], score: 0 }))
+    }
+
+    const matches: FuzzyMatch[] = []
+    for (const text of texts) {
+        const matchIndices = getMatchIndices(text, query)
+        if (matchIndices) {
+            matches.push({ text, matchIndices, score: score(text.toLowerCase(), query.toLowerCase()) })
+        }
+    }
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit)
+}
@@ -1,5 +1,5 @@
 import { Observable } from 'rxjs'
-import { publishReplay, refCount, tap } from 'rxjs/operators'
+import { finalize, publishReplay, refCount, tap } from 'rxjs/operators'
 
 /**
  * Creates a function that memoizes the async result of func.
@@ -30,7 +30,8 @@ export function memoizeAsync<P, T>(
 
 /**
  * Creates a function that memoizes the observable result of func.
- * If the Observable errors, the value will not be cached.
+ * If the Observable errors, or all subscribers unsubscribe before it completes,
+ * the value will not be cached.
  *
  * @param resolver If resolver provided, it determines the cache key for storing the result based on
  * the first argument provided to the memoized function.
@@ -46,7 +47,18 @@ export function memoizeObservable<P, T>(
         if (!force && hit) {
             return hit
         }
-        const obs = func(params).pipe(
+        let completed = false
+        const obs: Observable<T> = func(params).pipe(
+            tap(undefined, undefined, () => {
+                completed = true
+            }),
+            // Also runs when the last subscriber unsubscribes before completion,
+            // which cancels func's work. Don't cache the cancelled observable.
+            finalize(() => {
+                if (!completed && cache.get(key) === obs) {
+                    cache.delete(key)
+                }
+            }),
             publishReplay(),
             refCount(),
             tap(undefined as any, e => {
@@ -0,0 +1,71 @@
+import { expect } from 'chai'
+import { afterEach, beforeEach, describe, it } from 'mocha'
+import { Subscription, timer } from 'rxjs'
+import { navigationEvents } from './navigation'
+
+const dispatch = (target: EventTarget, type: string) => {
+    const event = document.createEvent('Event')
+    event.initEvent(type, true, false)
+    target.dispatchEvent(event)
+}
+
+/** Waits for the mutation observer to report changes. */
+const settle = () => timer(0).toPromise()
+
+describe('navigationEvents', () => {
+    let subscription: Subscription
+    let urls: string[]
+    let originalURL: string
+
+    beforeEach(() => {
+        originalURL = window.location.href
+        window.history.replaceState(null, '', '/gorilla/mux')
+        urls = []
+        subscription = navigationEvents.subscribe(url => urls.push(url))
+    })
+
+    afterEach(() => {
+        subscription.unsubscribe()
+        window.history.replaceState(null, '', originalURL)
+    })
+
+    const url = (path: string) => window.location.origin + path
+
+    it('emits the new URL after pjax navigations', () => {
+        window.history.pushState(null, '', '/gorilla/mux/pulls')
+        dispatch(document.body, 'pjax:end')
+        expect(urls).to.deep.equal([url('/gorilla/mux/pulls')])
+    })
+
+    it('emits the new URL after Turbolinks navigations', () => {
+        window.history.pushState(null, '', '/gorilla/mux/issues')
+        dispatch(document, 'turbolinks:load')
+        expect(urls).to.deep.equal([url('/gorilla/mux/issues')])
+    })
+
+    it('emits the new URL when going back', () => {
+        window.history.pushState(null, '', '/gorilla/mux/blob/master/mux.go')
+        dispatch(window, 'popstate')
+        expect(urls).to.deep.equal([url('/gorilla/mux/blob/master/mux.go')])
+    })
+
+    it('emits the new URL when the page changes its title along with it', async () => {
+        window.history.pushState(null, '', '/gorilla/mux/commits/master')
+        document.title = 'Commits · gorilla/mux'
+        await settle()
+        expect(urls).to.deep.equal([url('/gorilla/mux/commits/master')])
+    })
+
+    it('does not emit when the URL did not change', async () => {
+        dispatch(document.body, 'pjax:end')
+        document.title = 'gorilla/mux'
+        await settle()
+        expect(urls).to.deep.equal([])
+    })
+
+    it('does not emit when only the hash changed', () => {
+        window.history.pushState(null, '', '/gorilla/mux#readme')
+        dispatch(window, 'popstate')
+        expect(urls).to.deep.equal([])
+    })
+})
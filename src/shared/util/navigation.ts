@@ -0,0 +1,38 @@
+import { defer, fromEvent, merge, Observable } from 'rxjs'
+import { distinctUntilChanged, map, share, skip, startWith } from 'rxjs/operators'
+
+/**
+ * Content scripts don't share the `history` object with the page, so the
+ * `pushState` calls made by the code host itself can't be observed. Code hosts
+ * update the title of the page along with the URL though, so changes to the
+ * `<head>` of the page are watched instead of the whole document.
+ */
+const headChanges = (): Observable<void> =>
+    new Observable<void>(observer => {
+        const mutationObserver = new MutationObserver(() => observer.next())
+        mutationObserver.observe(document.head, { childList: true, subtree: true, characterData: true })
+
+        return () => mutationObserver.disconnect()
+    })
+
+const withoutHash = (url: string) => url.replace(/#.*$/, '')
+
+/**
+ * Emits the new URL every time the page navigates without a full page reload,
+ * e.g. through GitHub's pjax, GitLab's Turbolinks or the History API. Changing
+ * only the hash of the URL is not considered a navigation.
+ */
+export const navigationEvents: Observable<string> = defer(() =>
+    merge(
+        fromEvent(window, 'pjax:end'),
+        fromEvent(document, 'turbolinks:load'),
+        fromEvent(window, 'popstate'),
+        headChanges()
+    ).pipe(
+        map(() => window.location.href),
+        startWith(window.location.href),
+        distinctUntilChanged((a, b) => withoutHash(a) === withoutHash(b)),
+        // Only emit for navigations after subscribing.
+        skip(1)
+    )
+).pipe(share())
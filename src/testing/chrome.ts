@@ -0,0 +1,95 @@
+import { defaultStorageItems, StorageItems } from '../browser/types'
+
+interface Items {
+    [key: string]: any
+}
+
+/**
+ * An in-memory `chrome.storage.StorageArea`. Callbacks are called
+ * asynchronously, like the real ones.
+ */
+export class FakeStorageArea {
+    private items: Items = {}
+
+    constructor(items: Items = {}) {
+        this.items = { ...items }
+    }
+
+    public get(keysOrCallback: string | string[] | ((items: Items) => void), callback?: (items: Items) => void): void {
+        if (typeof keysOrCallback === 'function') {
+            setTimeout(() => keysOrCallback({ ...this.items }))
+            return
+        }
+
+        const keys = typeof keysOrCallback === 'string' ? [keysOrCallback] : keysOrCallback
+        const items: Items = {}
+        for (const key of keys) {
+            if (key in this.items) {
+                items[key] = this.items[key]
+            }
+        }
+        setTimeout(() => callback!(items))
+    }
+
+    public set(items: Items, callback?: () => void): void {
+        this.items = { ...this.items, ...items }
+        if (callback) {
+            setTimeout(callback)
+        }
+    }
+
+    public remove(keys: string | string[], callback?: () => void): void {
+        for (const key of typeof keys === 'string' ? [keys] : keys) {
+            delete this.items[key]
+        }
+        if (callback) {
+            setTimeout(callback)
+        }
+    }
+
+    public clear(items: Items = {}): void {
+        this.items = { ...items }
+    }
+}
+
+const storageAreas = {
+    sync: new FakeStorageArea(),
+    local: new FakeStorageArea(),
+    managed: new FakeStorageArea(),
+}
+
+/**
+ * Resets extension storage to the default items, overridden by items.
+ */
+export function resetStorage(items: Partial<StorageItems> = {}): void {
+    storageAreas.sync.clear({ ...defaultStorageItems, ...items })
+    storageAreas.local.clear()
+    storageAreas.managed.clear()
+}
+
+resetStorage()
+
+/**
+ * The parts of the `chrome` API that content scripts use. There is no
+ * background page, so messages sent to it are answered with `undefined`.
+ */
+export const fakeChrome = {
+    storage: {
+        ...storageAreas,
+        onChanged: {
+            addListener: () => undefined,
+        },
+    },
+    runtime: {
+        id: 'sourcegraph-test',
+        sendMessage: (message: any, responseCallback?: (response: any) => void) => {
+            if (responseCallback) {
+                setTimeout(() => responseCallback(undefined))
+            }
+        },
+        getManifest: () => ({ version: '0.0.0' }),
+    },
+    extension: {
+        getURL: (path: string) => `chrome-extension://sourcegraph-test/${path}`,
+    },
+}
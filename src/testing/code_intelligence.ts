@@ -0,0 +1,31 @@
+import { of, timer } from 'rxjs'
+import { filter, map, takeUntil, toArray } from 'rxjs/operators'
+import { CodeHost, ResolvedCodeView } from '../libs/code_intelligence'
+import { findCodeViews } from '../libs/code_intelligence/code_views'
+
+/**
+ * Collects the code views codeHost finds on the current page, including the
+ * ones in the containers the code host adds. Code views are reported
+ * asynchronously, so this waits a little for all of them.
+ */
+export function findCodeViewsOnPage(codeHost: CodeHost): Promise<ResolvedCodeView[]> {
+    return findCodeViews(codeHost)(
+        codeHost.getCodeViewContainers ? codeHost.getCodeViewContainers() : of(document.body)
+    )
+        .pipe(
+            filter(event => event.type === 'added'),
+            map(event => event as ResolvedCodeView),
+            takeUntil(timer(100)),
+            toArray()
+        )
+        .toPromise()
+}
+
+/**
+ * Responds to a `ResolveRev` GraphQL query as if every revision has been
+ * cloned and resolves to itself, which holds for the absolute commit IDs that
+ * fixtures use.
+ */
+export const resolveRevToItself = ({ body }: { body: any }) => ({
+    data: { repository: { mirrorInfo: { cloneInProgress: false }, commit: { oid: body.variables.rev } } },
+})
@@ -0,0 +1,98 @@
+import { readFileSync } from 'fs'
+import { JSDOM } from 'jsdom'
+import * as path from 'path'
+import { fakeChrome } from './chrome'
+import { fakeIndexedDB } from './indexeddb'
+
+/**
+ * Sets up a jsdom window as the global environment so modules that touch
+ * `window` and `document` when they are imported can be loaded by mocha. This
+ * module is required before any test file is loaded (see the `test` script in
+ * package.json).
+ *
+ * Tests run as the extension's content script, with the `chrome` API and
+ * `indexedDB` faked.
+ */
+const jsdom = new JSDOM('<!DOCTYPE html><html><head></head><body></body></html>', {
+    url: 'https://github.com/',
+    pretendToBeVisual: true,
+})
+
+/**
+ * jsdom doesn't do layout, so every observed element is reported as
+ * intersecting right away.
+ */
+class IntersectionObserver {
+    constructor(private callback: (entries: any[], observer: IntersectionObserver) => void) {}
+
+    public observe(target: Element): void {
+        setTimeout(() => this.callback([{ target, isIntersecting: true }], this))
+    }
+
+    public unobserve(): void {
+        // Nothing to clean up because nothing is being observed.
+    }
+
+    public disconnect(): void {
+        // Nothing to clean up because nothing is being observed.
+    }
+}
+
+Object.assign(jsdom.window, { IntersectionObserver, SG_ENV: 'EXTENSION' })
+
+const globals = [
+    'window',
+    'document',
+    'navigator',
+    'localStorage',
+    'Node',
+    'Element',
+    'HTMLElement',
+    'HTMLAnchorElement',
+    'HTMLTableCellElement',
+    'HTMLTableRowElement',
+    'KeyboardEvent',
+    'DocumentFragment',
+    'MutationObserver',
+    'NodeFilter',
+    'IntersectionObserver',
+    'FormData',
+    'XMLHttpRequest',
+    'requestAnimationFrame',
+    'cancelAnimationFrame',
+]
+
+for (const name of globals) {
+    global[name] = name === 'window' ? jsdom.window : jsdom.window[name]
+}
+
+global.chrome = fakeChrome as any
+Object.assign(global, { indexedDB: fakeIndexedDB })
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures')
+
+/**
+ * Shadow roots can't be written as HTML, so snapshots have the content of a
+ * shadow root in a `<template data-shadow-root>` inside of its host element.
+ */
+function attachShadowRoots(root: ParentNode): void {
+    for (const template of root.querySelectorAll<HTMLTemplateElement>('template[data-shadow-root]')) {
+        const shadowRoot = template.parentElement!.attachShadow({ mode: 'open' })
+        shadowRoot.appendChild(template.content)
+        template.remove()
+        attachShadowRoots(shadowRoot)
+    }
+}
+
+/**
+ * Replaces the current document with the saved HTML snapshot at
+ * `fixtures/<name>.html` and navigates to url, the page the snapshot was taken
+ * from.
+ */
+export function loadFixture(name: string, url: string): void {
+    const html = readFileSync(path.join(FIXTURES_DIR, `${name}.html`), 'utf8')
+
+    jsdom.reconfigure({ url })
+    document.documentElement.innerHTML = html
+    attachShadowRoots(document)
+}
@@ -0,0 +1,147 @@
+interface Items {
+    [key: string]: any
+}
+
+interface StoreData {
+    keyPath: string
+    /** The key paths of the indexes, by index name. */
+    indexes: { [name: string]: string }
+    records: Map<string, Items>
+}
+
+/** Stores values the way IndexedDB does, so that changing them later doesn't change what is stored. */
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)))
+
+class FakeRequest {
+    public result: any
+    public error: Error | null = null
+    public onsuccess: (() => void) | null = null
+    public onerror: (() => void) | null = null
+    public onupgradeneeded: (() => void) | null = null
+
+    public succeed(result: any): void {
+        setTimeout(() => {
+            this.result = result
+            if (this.onsuccess) {
+                this.onsuccess()
+            }
+        })
+    }
+}
+
+class FakeCursor {
+    constructor(private request: FakeRequest, private data: StoreData, private records: Items[], private i: number) {}
+
+    public get value(): Items {
+        return clone(this.records[this.i])
+    }
+
+    public delete(): void {
+        this.data.records.delete(this.records[this.i][this.data.keyPath])
+    }
+
+    public continue(): void {
+        const next = this.i + 1
+        this.request.succeed(
+            next < this.records.length ? new FakeCursor(this.request, this.data, this.records, next) : null
+        )
+    }
+}
+
+class FakeObjectStore {
+    constructor(private data: StoreData) {}
+
+    public createIndex(name: string, keyPath: string): void {
+        this.data.indexes[name] = keyPath
+    }
+
+    public get(key: string): FakeRequest {
+        const request = new FakeRequest()
+        request.succeed(clone(this.data.records.get(key)))
+        return request
+    }
+
+    public put(value: Items): FakeRequest {
+        const request = new FakeRequest()
+        this.data.records.set(value[this.data.keyPath], clone(value))
+        request.succeed(value[this.data.keyPath])
+        return request
+    }
+
+    public delete(key: string): FakeRequest {
+        const request = new FakeRequest()
+        this.data.records.delete(key)
+        request.succeed(undefined)
+        return request
+    }
+
+    public index(name: string): { openCursor: (range?: undefined, direction?: 'next' | 'prev') => FakeRequest } {
+        const keyPath = this.data.indexes[name]
+        return {
+            openCursor: (range, direction = 'next') => {
+                const records = Array.from(this.data.records.values()).sort(
+                    (a, b) => (a[keyPath] < b[keyPath] ? -1 : a[keyPath] > b[keyPath] ? 1 : 0)
+                )
+                if (direction === 'prev') {
+                    records.reverse()
+                }
+                const request = new FakeRequest()
+                request.succeed(records.length > 0 ? new FakeCursor(request, this.data, records, 0) : null)
+                return request
+            },
+        }
+    }
+}
+
+class FakeDatabase {
+    private stores = new Map<string, StoreData>()
+
+    public createObjectStore(name: string, { keyPath }: { keyPath: string }): FakeObjectStore {
+        const data: StoreData = { keyPath, indexes: {}, records: new Map() }
+        this.stores.set(name, data)
+        return new FakeObjectStore(data)
+    }
+
+    public transaction(name: string): { objectStore: (name: string) => FakeObjectStore } {
+        return { objectStore: () => new FakeObjectStore(this.stores.get(name)!) }
+    }
+}
+
+/**
+ * An in-memory `indexedDB` with the parts of the API that `PersistentCache`
+ * uses. Requests succeed asynchronously, like the real ones, and transactions
+ * are ignored.
+ */
+export class FakeIndexedDB {
+    private databases = new Map<string, FakeDatabase>()
+
+    public open(name: string): FakeRequest {
+        const request = new FakeRequest()
+        setTimeout(() => {
+            let db = this.databases.get(name)
+            if (!db) {
+                db = new FakeDatabase()
+                this.databases.set(name, db)
+                request.result = db
+                if (request.onupgradeneeded) {
+                    request.onupgradeneeded()
+                }
+            }
+            request.succeed(db)
+        })
+        return request
+    }
+
+    public deleteAll(): void {
+        this.databases.clear()
+    }
+}
+
+export const fakeIndexedDB = new FakeIndexedDB()
+
+/**
+ * Deletes all databases.
+ */
+export function resetIndexedDB(): void {
+    fakeIndexedDB.deleteAll()
+}
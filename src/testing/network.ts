@@ -0,0 +1,154 @@
+/**
+ * A request made by the code under test. GraphQL and LSP bodies are parsed from
+ * JSON, Conduit bodies are the `FormData` that was sent.
+ */
+export interface StubbedRequest {
+    url: string
+    /** The request headers, with lowercase names. */
+    headers: { [name: string]: string }
+    body: any
+}
+
+/**
+ * A response with a status other than 200. A status of 0 fails the request
+ * like a network error does.
+ */
+export class StatusResponse {
+    constructor(public status: number, public body: any = null) {}
+}
+
+/**
+ * Returns the JSON response body for a request, or a `StatusResponse`.
+ * Returning `undefined` responds with a 404.
+ */
+export type RequestHandler = (request: StubbedRequest) => any
+
+/**
+ * Handlers keyed by the URL they respond to. Keys are either absolute, e.g.
+ * `https://sourcegraph.com/.api/graphql?ResolveRev`, or the path and query of
+ * the URL on any origin, e.g. `/api/diffusion.repository.search`. Absolute keys
+ * take precedence.
+ */
+export interface RequestHandlers {
+    [url: string]: RequestHandler
+}
+
+const handle = (
+    handlers: RequestHandlers,
+    url: string,
+    headers: StubbedRequest['headers'],
+    body: any
+): { status: number; response: any } => {
+    const { origin, pathname, search } = new URL(url, window.location.href)
+    const handler = handlers[origin + pathname + search] || handlers[pathname + search]
+    if (!handler) {
+        throw new Error(`Unexpected request to ${url}`)
+    }
+
+    const response = handler({ url, headers, body: typeof body === 'string' ? JSON.parse(body) : body })
+    if (response instanceof StatusResponse) {
+        return { status: response.status, response: response.body }
+    }
+    return response === undefined ? { status: 404, response: null } : { status: 200, response }
+}
+
+const toHeaderMap = (headers: any = {}): StubbedRequest['headers'] => {
+    const map: StubbedRequest['headers'] = {}
+    for (const [name, value] of headers instanceof Headers ? headers.entries() : Object.entries(headers)) {
+        map[name.toLowerCase()] = String(value)
+    }
+    return map
+}
+
+/**
+ * Replaces `XMLHttpRequest` (used by rxjs' `ajax`) and `fetch` with fakes that
+ * answer from handlers, so tests never hit the network. A request no handler
+ * matches fails the test. Returns a function that restores the originals.
+ *
+ * XHRs are answered after latency milliseconds, so tests can abort them while
+ * they are in flight.
+ */
+export function stubNetwork(handlers: RequestHandlers, { latency = 0 }: { latency?: number } = {}): () => void {
+    class FakeXMLHttpRequest {
+        public readyState = 0
+        public status = 0
+        public response: any = null
+        public responseText = ''
+        public responseType = ''
+        public withCredentials = false
+        public timeout = 0
+        // rxjs only listens for network errors on requests that can upload.
+        public upload = {}
+        public onload: ((event: any) => void) | null = null
+        public onerror: ((event: any) => void) | null = null
+        public onreadystatechange: ((event: any) => void) | null = null
+
+        private url = ''
+        private headers: StubbedRequest['headers'] = {}
+        private pendingResponse?: any
+
+        public open(method: string, url: string): void {
+            this.url = url
+            this.readyState = 1
+        }
+
+        public setRequestHeader(name: string, value: string): void {
+            this.headers[name.toLowerCase()] = value
+        }
+
+        public send(body?: any): void {
+            this.pendingResponse = setTimeout(() => {
+                try {
+                    const { status, response } = handle(handlers, this.url, this.headers, body)
+                    if (status === 0) {
+                        throw new Error(`Unable to reach ${this.url}`)
+                    }
+                    this.status = status
+                    this.response = response
+                    this.responseText = JSON.stringify(response)
+                    this.readyState = 4
+                    if (this.onload) {
+                        this.onload({ target: this })
+                    }
+                } catch (err) {
+                    if (this.onerror) {
+                        this.onerror(err)
+                    }
+                }
+            }, latency)
+        }
+
+        public abort(): void {
+            // Aborted requests never reach their handler.
+            clearTimeout(this.pendingResponse)
+        }
+    }
+
+    const fakeFetch = (url: string, init: { headers?: any; body?: any } = {}): Promise<any> =>
+        new Promise(resolve => {
+            const { status, response } = handle(handlers, url, toHeaderMap(init.headers), init.body)
+            if (status === 0) {
+                throw new TypeError('Failed to fetch')
+            }
+            resolve({
+                ok: status < 400,
+                status,
+                json: () => Promise.resolve(response),
+                text: () => Promise.resolve(JSON.stringify(response)),
+            })
+        })
+
+    // Unqualified calls to `fetch` resolve on Node's global object rather than
+    // on jsdom's window, so both are patched.
+    const patchedGlobals: any[] = [window, global]
+    const originals = patchedGlobals.map(({ XMLHttpRequest, fetch }) => ({ XMLHttpRequest, fetch }))
+    for (const patched of patchedGlobals) {
+        Object.assign(patched, { XMLHttpRequest: FakeXMLHttpRequest, fetch: fakeFetch })
+    }
+
+    return () => {
+        for (const [i, patched] of patchedGlobals.entries()) {
+            Object.assign(patched, originals[i])
+        }
+    }
+}
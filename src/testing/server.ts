@@ -0,0 +1,288 @@
+import { Hover, Location } from 'vscode-languageserver-types'
+import { AccessTokens } from '../browser/types'
+import { repoUrlCache, setRoutingRules, setSourcegraphUrl } from '../shared/util/context'
+import { GQL } from '../types/gqlschema'
+import { resetStorage } from './chrome'
+import { RequestHandlers, StatusResponse, StubbedRequest } from './network'
+
+export interface MockRepository {
+    /** The commit IDs that revisions (e.g. `master` or `HEAD`) resolve to. */
+    revisions: { [rev: string]: string }
+    /** The contents of the repository's files at every commit, keyed by path. */
+    files: { [path: string]: string }
+    /** Whether the repository is still being cloned. */
+    cloneInProgress?: boolean
+}
+
+interface TextDocumentPositionParams {
+    textDocument: { uri: string }
+    position: { line: number; character: number }
+}
+
+export interface MockServerOptions {
+    repositories?: { [repoPath: string]: MockRepository }
+    /** The user signed in to the instance in the browser, if any. */
+    user?: Pick<GQL.IUser, 'id' | 'username' | 'displayName'>
+    /** The access tokens the instance accepts. */
+    accessTokens?: string[]
+    /** Whether requests from signed out users are allowed. Defaults to true. */
+    allowAnonymous?: boolean
+    /** Answers `textDocument/hover` requests. */
+    hover?: (params: TextDocumentPositionParams) => Hover | null
+    /** Answers `textDocument/definition` requests. */
+    definition?: (params: TextDocumentPositionParams) => Location[]
+    /** Answers `textDocument/references` requests. */
+    references?: (params: TextDocumentPositionParams) => Location[]
+    /**
+     * Scripted responses to GraphQL operations, keyed by operation name. They
+     * take precedence over the built-in responses.
+     */
+    graphQL?: { [operation: string]: (variables: any, request: StubbedRequest) => any }
+}
+
+type GraphQLResolver = (variables: any, request: StubbedRequest) => any
+
+const LSP_METHODS = ['textDocument/hover', 'textDocument/definition', 'textDocument/references']
+
+/** The LSP error code for methods the server doesn't implement. */
+const METHOD_NOT_FOUND = -32601
+
+/**
+ * An in-memory Sourcegraph instance for tests. It answers the GraphQL
+ * operations and LSP requests the extension sends from the repositories and
+ * scripted responses it is created with. Pass its `handlers` to
+ * `stubNetwork`.
+ */
+export class MockSourcegraphServer {
+    /** Every request the server received, in order. */
+    public readonly requests: StubbedRequest[] = []
+    /** The events logged with `logUserEvent`. */
+    public readonly userEvents: { event: string; userCookieID: string }[] = []
+    /** Whether the server can be reached. Requests to an unreachable server fail like network errors. */
+    public reachable = true
+
+    private accessTokens: Set<string>
+    private createdTokenCount = 0
+
+    private resolvers: { [operation: string]: GraphQLResolver } = {
+        ResolveRev: ({ repoPath, rev }) => {
+            const repository = this.getRepository(repoPath)
+            if (!repository) {
+                return { data: { repository: null } }
+            }
+
+            return {
+                data: {
+                    repository: {
+                        mirrorInfo: { cloneInProgress: !!repository.cloneInProgress },
+                        commit: repository.cloneInProgress ? null : this.resolveCommit(repository, rev),
+                    },
+                },
+            }
+        },
+        FileTree: ({ repoPath, commitID }) => {
+            const repository = this.getRepository(repoPath)
+            const files = Object.keys(repository ? repository.files : {}).map(path => ({
+                path,
+                name: path.slice(path.lastIndexOf('/') + 1),
+            }))
+
+            return this.respondWithCommit(repoPath, commitID, { tree: { files } })
+        },
+        TreeEntries: ({ repoPath, commitID, filePath }) => {
+            const repository = this.getRepository(repoPath)
+            const prefix = filePath ? `${filePath}/` : ''
+            const entries = new Map<string, boolean>()
+            for (const path of Object.keys(repository ? repository.files : {})) {
+                if (path.startsWith(prefix)) {
+                    const [name, ...rest] = path.slice(prefix.length).split('/')
+                    entries.set(prefix + name, rest.length > 0)
+                }
+            }
+
+            return this.respondWithCommit(repoPath, commitID, {
+                tree:
+                    filePath && entries.size === 0
+                        ? null
+                        : { entries: Array.from(entries).map(([path, isDirectory]) => ({ path, isDirectory })) },
+            })
+        },
+        FilePathSearch: ({ query }: { query: string }) => {
+            // Answers queries like `repo:^github\.com/gorilla/mux$@<commit> type:path count:10 mux test`.
+            const match = /^repo:\^(\S+)\$@\S+ type:path count:\d+ ?(.*)$/.exec(query)
+            const repository = match && this.getRepository(match[1].replace(/\\(.)/g, '$1'))
+            const terms = match ? match[2].toLowerCase().split(' ') : []
+            const results = Object.keys(repository ? repository.files : {})
+                .filter(path => terms.every(term => path.toLowerCase().includes(term)))
+                .map(path => ({ __typename: 'FileMatch', file: { path } }))
+
+            return { data: { search: { results: { results } } } }
+        },
+        BlobContent: ({ repoPath, commitID, filePath }) => {
+            const repository = this.getRepository(repoPath)
+            const content = repository && repository.files[filePath]
+
+            return this.respondWithCommit(repoPath, commitID, {
+                file: content === undefined ? null : { content },
+            })
+        },
+        SearchSuggestions: ({ query, first }) => {
+            const repositories = Object.keys(this.options.repositories || {})
+            const suggestions = [
+                ...repositories
+                    .filter(repoPath => repoPath.includes(query))
+                    .map(uri => ({ __typename: 'Repository', uri })),
+                ...repositories
+                    .map(uri => ({ uri, files: Object.keys(this.options.repositories![uri].files) }))
+                    .map(({ uri, files }) =>
+                        files.filter(path => path.includes(query)).map(path => ({
+                            __typename: 'File',
+                            path,
+                            name: path.slice(path.lastIndexOf('/') + 1),
+                            isDirectory: false,
+                            url: `/${uri}/-/blob/${path}`,
+                            repository: { uri },
+                        }))
+                    ),
+            ]
+
+            return { data: { search: { suggestions: ([] as any[]).concat(...suggestions).slice(0, first) } } }
+        },
+        Repositories: ({ query, first }) => {
+            const nodes = Object.keys(this.options.repositories || {})
+                .filter(uri => uri.includes(query))
+                .slice(0, first)
+                .map(uri => ({ uri, url: `/${uri}`, externalURLs: [{ url: `https://${uri}` }] }))
+
+            return { data: { repositories: { nodes } } }
+        },
+        CurrentUser: () => ({ data: { currentUser: this.options.user || null } }),
+        CreateAccessToken: ({ userID }) => {
+            if (!this.options.user || this.options.user.id !== userID) {
+                return { data: null, errors: [{ message: 'must be authenticated as the user', path: [] }] }
+            }
+
+            this.createdTokenCount++
+            const token = `token-${this.createdTokenCount}`
+            this.accessTokens.add(token)
+
+            return { data: { createAccessToken: { id: `AccessToken:${this.createdTokenCount}`, token } } }
+        },
+        ClientConfiguration: () => ({
+            data: { clientConfiguration: { contentScriptUrls: [], parentSourcegraph: { url: this.url } } },
+        }),
+        logUserEvent: variables => {
+            this.userEvents.push(variables)
+            return { data: { logUserEvent: { alwaysNil: null } } }
+        },
+    }
+
+    constructor(public readonly url: string, private options: MockServerOptions = {}) {
+        this.accessTokens = new Set(options.accessTokens)
+    }
+
+    /** Handlers for every endpoint the server implements, keyed by absolute URL. */
+    public get handlers(): RequestHandlers {
+        const handlers: RequestHandlers = {}
+        const operations = new Set([...Object.keys(this.resolvers), ...Object.keys(this.options.graphQL || {})])
+        for (const operation of operations) {
+            handlers[`${this.url}/.api/graphql?${operation}`] = request =>
+                this.respond(request, () => this.handleGraphQL(operation, request))
+        }
+        for (const method of LSP_METHODS) {
+            handlers[`${this.url}/.api/xlang/${method}`] = request =>
+                this.respond(request, () => this.handleLSP(request))
+        }
+
+        return handlers
+    }
+
+    /** Whether the server accepts the access token. */
+    public hasAccessToken(token: string): boolean {
+        return this.accessTokens.has(token)
+    }
+
+    private respond(request: StubbedRequest, handler: () => any): any {
+        if (!this.reachable) {
+            return new StatusResponse(0)
+        }
+
+        this.requests.push(request)
+
+        // Requests without an access token are authenticated by the user's
+        // session cookie, if they are signed in.
+        const authorization = request.headers.authorization
+        const isAuthorized = authorization
+            ? this.accessTokens.has(authorization.replace(/^token /, ''))
+            : !!this.options.user || this.options.allowAnonymous !== false
+        if (!isAuthorized) {
+            return new StatusResponse(401)
+        }
+
+        return handler()
+    }
+
+    private handleGraphQL(operation: string, request: StubbedRequest): any {
+        const scripted = this.options.graphQL && this.options.graphQL[operation]
+        return (scripted || this.resolvers[operation])(request.body.variables || {}, request)
+    }
+
+    private handleLSP(request: StubbedRequest): any[] {
+        return (request.body as { id?: number; method: string; params: any }[]).map(({ id, method, params }) => {
+            if (id === undefined) {
+                // Notifications (i.e. `exit`) don't get a response.
+                return null
+            }
+
+            switch (method) {
+                case 'initialize':
+                    return { id, result: { capabilities: { hoverProvider: true, definitionProvider: true } } }
+                case 'shutdown':
+                    return { id, result: null }
+                case 'textDocument/hover':
+                    return { id, result: this.options.hover ? this.options.hover(params) : null }
+                case 'textDocument/definition':
+                    return { id, result: this.options.definition ? this.options.definition(params) : [] }
+                case 'textDocument/references':
+                    return { id, result: this.options.references ? this.options.references(params) : [] }
+            }
+
+            return { id, error: { code: METHOD_NOT_FOUND, message: `method not found: ${method}` } }
+        })
+    }
+
+    private getRepository(repoPath: string): MockRepository | undefined {
+        return this.options.repositories && this.options.repositories[repoPath]
+    }
+
+    /** Resolves rev to a commit of the repository, or null if it doesn't exist. */
+    private resolveCommit(repository: MockRepository, rev: string): { oid: string } | null {
+        const commitIDs = Object.keys(repository.revisions).map(rev => repository.revisions[rev])
+        const oid = commitIDs.includes(rev) ? rev : repository.revisions[rev || 'HEAD']
+
+        return oid ? { oid } : null
+    }
+
+    private respondWithCommit(repoPath: string, commitID: string, commit: any): any {
+        const repository = this.getRepository(repoPath)
+        if (!repository) {
+            return { data: { repository: null } }
+        }
+
+        return { data: { repository: { commit: this.resolveCommit(repository, commitID) && commit } } }
+    }
+}
+
+/**
+ * Configures the extension to use the Sourcegraph instance at url with the
+ * given access tokens and no routing rules, and forgets which instances
+ * repositories were found on.
+ */
+export function useSourcegraphURL(url: string, accessTokens: AccessTokens = {}): void {
+    resetStorage({ sourcegraphURL: url, accessTokens })
+    setSourcegraphUrl(url)
+    setRoutingRules([])
+    for (const repoKey of Object.keys(repoUrlCache)) {
+        delete repoUrlCache[repoKey]
+    }
+}